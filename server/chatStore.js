@@ -0,0 +1,118 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * 채팅 기록 저장소
+ *
+ * 방별로 최근 메시지를 최대 개수(historyLimit)까지 보관합니다.
+ * 모든 저장소는 같은 비동기 인터페이스를 제공하므로 설정(chat.store)으로 교체할 수 있습니다.
+ * - append(roomId, message): 메시지 추가
+ * - getHistory(roomId, { before, limit }): before(메시지 ID) 이전의 메시지를 오래된 순으로 최대 limit개 조회
+ */
+
+// 메모리 저장소에서 보관하는 최대 방 개수 (가장 오래 사용하지 않은 방부터 삭제)
+const MAX_MEMORY_ROOMS = 1000;
+
+/**
+ * 메시지 목록에서 before 이전 구간을 잘라 반환
+ * @returns messages(오래된 순), hasMore(더 이전 메시지 존재 여부)
+ */
+const sliceHistory = (messages, before, limit) => {
+  const end = before ? messages.findIndex((message) => message.id === before) : messages.length;
+  // 기준 메시지를 찾을 수 없으면(이미 밀려난 경우) 더 이상 이전 기록이 없는 것으로 처리
+  if (end === -1) return { messages: [], hasMore: false };
+
+  const start = Math.max(0, end - limit);
+  return { messages: messages.slice(start, end), hasMore: start > 0 };
+};
+
+/**
+ * 메모리 채팅 저장소 (서버 재시작 시 기록 삭제)
+ */
+export class MemoryChatStore {
+  constructor(historyLimit) {
+    this.historyLimit = historyLimit;
+    this.rooms = new Map();
+  }
+
+  async append(roomId, message) {
+    const messages = this.rooms.get(roomId) || [];
+    messages.push(message);
+    if (messages.length > this.historyLimit) {
+      messages.splice(0, messages.length - this.historyLimit);
+    }
+
+    // 최근 사용한 방을 맨 뒤로 이동
+    this.rooms.delete(roomId);
+    this.rooms.set(roomId, messages);
+
+    if (this.rooms.size > MAX_MEMORY_ROOMS) {
+      this.rooms.delete(this.rooms.keys().next().value);
+    }
+  }
+
+  async getHistory(roomId, { before, limit }) {
+    return sliceHistory(this.rooms.get(roomId) || [], before, limit);
+  }
+}
+
+/**
+ * 파일 채팅 저장소 (방마다 JSON 파일 하나, 서버 재시작 후에도 기록 유지)
+ */
+export class FileChatStore {
+  constructor(historyLimit, dataDir) {
+    this.historyLimit = historyLimit;
+    this.dataDir = dataDir;
+    // 같은 방 파일에 대한 쓰기가 겹치지 않도록 방별 작업을 순서대로 처리
+    this.queues = new Map();
+  }
+
+  // 방 ID를 안전한 파일 이름으로 변환
+  getFilePath(roomId) {
+    return path.join(this.dataDir, `${encodeURIComponent(roomId)}.json`);
+  }
+
+  async readMessages(roomId) {
+    try {
+      return JSON.parse(await fs.readFile(this.getFilePath(roomId), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  // 방별 작업 큐에 추가 (앞선 작업이 실패해도 다음 작업은 실행)
+  enqueue(roomId, task) {
+    const previous = this.queues.get(roomId) || Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    this.queues.set(roomId, next);
+    next.finally(() => {
+      if (this.queues.get(roomId) === next) this.queues.delete(roomId);
+    });
+    return next;
+  }
+
+  async append(roomId, message) {
+    return this.enqueue(roomId, async () => {
+      const messages = await this.readMessages(roomId);
+      messages.push(message);
+
+      await fs.mkdir(this.dataDir, { recursive: true });
+      // 임시 파일에 쓴 뒤 교체하여 쓰기 도중 종료되어도 기존 기록이 깨지지 않게 함
+      const filePath = this.getFilePath(roomId);
+      await fs.writeFile(`${filePath}.tmp`, JSON.stringify(messages.slice(-this.historyLimit)));
+      await fs.rename(`${filePath}.tmp`, filePath);
+    });
+  }
+
+  async getHistory(roomId, { before, limit }) {
+    return this.enqueue(roomId, async () => sliceHistory(await this.readMessages(roomId), before, limit));
+  }
+}
+
+/**
+ * 설정에 맞는 채팅 저장소 생성
+ * @param chatConfig - 채팅 설정 (store, historyLimit, dataDir)
+ */
+export const createChatStore = ({ store, historyLimit, dataDir }) =>
+  store === 'file' ? new FileChatStore(historyLimit, dataDir) : new MemoryChatStore(historyLimit);
@@ -0,0 +1,245 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * 서버 설정 로더
+ *
+ * 기본값 → 설정 파일(CONFIG_FILE, JSON) → 환경 변수 순으로 덮어써서 최종 설정을 만들고,
+ * 잘못된 값이 하나라도 있으면 서버를 시작하지 않도록 예외를 던집니다.
+ *
+ * 환경 변수 목록
+ * - CONFIG_FILE: JSON 설정 파일 경로 (선택)
+ * - PORT, HOST: 수신 포트 및 바인드 주소
+ * - ALLOWED_ORIGINS: 쉼표로 구분한 허용 오리진 목록 ('*'이면 모두 허용)
+ * - TLS_CERT_PATH, TLS_KEY_PATH: HTTPS 인증서/개인키 경로 (둘 다 지정해야 함)
+ * - STATIC_DIR: 빌드된 클라이언트 파일 경로
+ * - MAX_PARTICIPANTS: 방 하나의 최대 참가자 수
+ * - LOG_LEVEL: debug | info | warn | error
+ * - PING_TIMEOUT, PING_INTERVAL: socket.io 핑 타임아웃/간격 (ms)
+ * - RECONNECT_GRACE_PERIOD: 연결이 끊긴 참가자의 자리를 유지하는 시간 (ms, 0이면 바로 퇴장 처리)
+ * - ICE_STUN_URLS, TURN_URLS, TURN_SECRET, TURN_CREDENTIAL_TTL, FORCE_RELAY: ICE 서버 설정
+ * - CHAT_STORE(memory | file), CHAT_HISTORY_LIMIT, CHAT_DATA_DIR: 채팅 기록 저장 설정
+ * - CLIENT_SIGNALING_URL, CLIENT_MAX_FILE_SIZE_MB: 클라이언트 실행 설정 (/config.json으로 제공)
+ */
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+export const CHAT_STORES = ['memory', 'file'];
+
+/**
+ * 설정 오류 (잘못된 항목을 모두 모아서 보고)
+ */
+export class ConfigError extends Error {
+  constructor(errors) {
+    super(`잘못된 서버 설정:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.errors = errors;
+  }
+}
+
+// 기본 설정 (개발 환경 기준)
+const DEFAULTS = {
+  port: 3000,
+  host: '0.0.0.0',
+  allowedOrigins: ['*'],
+  tls: null,
+  staticDir: path.join(path.resolve(), 'public'),
+  maxParticipants: 10,
+  logLevel: 'info',
+  pingTimeout: 60000,
+  pingInterval: 25000,
+  reconnectGracePeriod: 30000,
+  ice: {
+    stunUrls: ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302', 'stun:stun2.l.google.com:19302'],
+    turnUrls: [],
+    turnSecret: '',
+    turnCredentialTtl: 86400,
+    forceRelay: false,
+  },
+  chat: {
+    store: 'memory',
+    historyLimit: 500,
+    dataDir: path.join(path.resolve(), 'data', 'chat'),
+  },
+  client: {
+    signalingUrl: null,
+    maxFileSizeMb: 100,
+  },
+};
+
+// 쉼표로 구분된 문자열을 목록으로 변환
+const parseList = (value) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const isPlainObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 설정 파일 읽기 (경로가 지정되었는데 읽을 수 없거나 객체 형식이 아니면 오류)
+const readConfigFile = (filePath) => {
+  let fileConfig;
+  try {
+    fileConfig = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new ConfigError([`설정 파일을 읽을 수 없습니다 (${filePath}): ${error.message}`]);
+  }
+
+  if (!isPlainObject(fileConfig)) {
+    throw new ConfigError([`설정 파일은 JSON 객체여야 합니다 (${filePath})`]);
+  }
+  const errors = ['ice', 'chat', 'client']
+    .filter((key) => fileConfig[key] !== undefined && !isPlainObject(fileConfig[key]))
+    .map((key) => `설정 파일의 ${key} 항목은 객체여야 합니다 (${filePath})`);
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+  return fileConfig;
+};
+
+// 환경 변수를 설정 객체 형태로 변환 (지정된 값만 포함)
+const readEnv = (env) => {
+  const config = { ice: {}, chat: {}, client: {} };
+
+  if (env.PORT !== undefined) config.port = Number(env.PORT);
+  if (env.HOST !== undefined) config.host = env.HOST;
+  if (env.ALLOWED_ORIGINS !== undefined) config.allowedOrigins = parseList(env.ALLOWED_ORIGINS);
+  if (env.TLS_CERT_PATH !== undefined || env.TLS_KEY_PATH !== undefined) {
+    config.tls = { certPath: env.TLS_CERT_PATH, keyPath: env.TLS_KEY_PATH };
+  }
+  if (env.STATIC_DIR !== undefined) config.staticDir = env.STATIC_DIR;
+  if (env.MAX_PARTICIPANTS !== undefined) config.maxParticipants = Number(env.MAX_PARTICIPANTS);
+  if (env.LOG_LEVEL !== undefined) config.logLevel = env.LOG_LEVEL;
+  if (env.PING_TIMEOUT !== undefined) config.pingTimeout = Number(env.PING_TIMEOUT);
+  if (env.PING_INTERVAL !== undefined) config.pingInterval = Number(env.PING_INTERVAL);
+  if (env.RECONNECT_GRACE_PERIOD !== undefined) config.reconnectGracePeriod = Number(env.RECONNECT_GRACE_PERIOD);
+
+  if (env.ICE_STUN_URLS !== undefined) config.ice.stunUrls = parseList(env.ICE_STUN_URLS);
+  if (env.TURN_URLS !== undefined) config.ice.turnUrls = parseList(env.TURN_URLS);
+  if (env.TURN_SECRET !== undefined) config.ice.turnSecret = env.TURN_SECRET;
+  if (env.TURN_CREDENTIAL_TTL !== undefined) config.ice.turnCredentialTtl = Number(env.TURN_CREDENTIAL_TTL);
+  if (env.FORCE_RELAY !== undefined) config.ice.forceRelay = env.FORCE_RELAY === 'true';
+
+  if (env.CHAT_STORE !== undefined) config.chat.store = env.CHAT_STORE;
+  if (env.CHAT_HISTORY_LIMIT !== undefined) config.chat.historyLimit = Number(env.CHAT_HISTORY_LIMIT);
+  if (env.CHAT_DATA_DIR !== undefined) config.chat.dataDir = env.CHAT_DATA_DIR;
+
+  if (env.CLIENT_SIGNALING_URL !== undefined) config.client.signalingUrl = env.CLIENT_SIGNALING_URL || null;
+  if (env.CLIENT_MAX_FILE_SIZE_MB !== undefined) config.client.maxFileSizeMb = Number(env.CLIENT_MAX_FILE_SIZE_MB);
+
+  return config;
+};
+
+const isPositiveInteger = (value) => Number.isInteger(value) && value > 0;
+const isStringList = (value) => Array.isArray(value) && value.every((item) => typeof item === 'string' && item.length > 0);
+const isUrl = (value) => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// 설정 값 검증 (오류 메시지 목록 반환)
+const validate = (config) => {
+  const errors = [];
+
+  if (!Number.isInteger(config.port) || config.port < 1 || config.port > 65535) {
+    errors.push(`port는 1~65535 사이의 정수여야 합니다: ${config.port}`);
+  }
+  if (typeof config.host !== 'string' || !config.host) {
+    errors.push('host가 비어 있습니다');
+  }
+  if (!isStringList(config.allowedOrigins) || config.allowedOrigins.length === 0) {
+    errors.push('allowedOrigins는 비어 있지 않은 문자열 목록이어야 합니다');
+  } else {
+    config.allowedOrigins
+      .filter((origin) => origin !== '*' && !isUrl(origin))
+      .forEach((origin) => errors.push(`allowedOrigins에 잘못된 URL이 있습니다: ${origin}`));
+  }
+  if (config.tls) {
+    const { certPath, keyPath } = config.tls;
+    if (!certPath || !keyPath) {
+      errors.push('TLS를 사용하려면 인증서(certPath)와 개인키(keyPath)를 모두 지정해야 합니다');
+    } else {
+      [certPath, keyPath].filter((file) => !fs.existsSync(file)).forEach((file) => errors.push(`TLS 파일을 찾을 수 없습니다: ${file}`));
+    }
+  }
+  if (typeof config.staticDir !== 'string' || !fs.existsSync(config.staticDir)) {
+    errors.push(`정적 파일 경로를 찾을 수 없습니다: ${config.staticDir}`);
+  }
+  if (!isPositiveInteger(config.maxParticipants)) {
+    errors.push(`maxParticipants는 1 이상의 정수여야 합니다: ${config.maxParticipants}`);
+  }
+  if (!LOG_LEVELS.includes(config.logLevel)) {
+    errors.push(`logLevel은 ${LOG_LEVELS.join(', ')} 중 하나여야 합니다: ${config.logLevel}`);
+  }
+  if (!isPositiveInteger(config.pingTimeout) || !isPositiveInteger(config.pingInterval)) {
+    errors.push('pingTimeout과 pingInterval은 1 이상의 정수(ms)여야 합니다');
+  }
+  if (!Number.isInteger(config.reconnectGracePeriod) || config.reconnectGracePeriod < 0) {
+    errors.push(`reconnectGracePeriod는 0 이상의 정수(ms)여야 합니다: ${config.reconnectGracePeriod}`);
+  }
+
+  const { ice } = config;
+  if (!isStringList(ice.stunUrls) || !isStringList(ice.turnUrls)) {
+    errors.push('ICE 서버 URL은 문자열 목록이어야 합니다');
+  }
+  if (ice.turnUrls.length > 0 && !ice.turnSecret) {
+    errors.push('TURN 서버를 사용하려면 turnSecret(TURN_SECRET)을 지정해야 합니다');
+  }
+  if (!isPositiveInteger(ice.turnCredentialTtl)) {
+    errors.push(`turnCredentialTtl은 1 이상의 정수(초)여야 합니다: ${ice.turnCredentialTtl}`);
+  }
+  if (ice.forceRelay && ice.turnUrls.length === 0) {
+    errors.push('forceRelay를 사용하려면 TURN 서버가 필요합니다');
+  }
+
+  const { chat } = config;
+  if (!CHAT_STORES.includes(chat.store)) {
+    errors.push(`chat.store는 ${CHAT_STORES.join(', ')} 중 하나여야 합니다: ${chat.store}`);
+  }
+  if (!isPositiveInteger(chat.historyLimit)) {
+    errors.push(`chat.historyLimit은 1 이상의 정수여야 합니다: ${chat.historyLimit}`);
+  }
+  if (chat.store === 'file' && (typeof chat.dataDir !== 'string' || !chat.dataDir)) {
+    errors.push('파일 저장소를 사용하려면 chat.dataDir(CHAT_DATA_DIR)을 지정해야 합니다');
+  }
+
+  const { client } = config;
+  if (client.signalingUrl !== null && (!isUrl(client.signalingUrl) || !/^https?:$/.test(new URL(client.signalingUrl).protocol))) {
+    errors.push(`client.signalingUrl은 http(s) URL이어야 합니다: ${client.signalingUrl}`);
+  }
+  if (typeof client.maxFileSizeMb !== 'number' || !(client.maxFileSizeMb > 0)) {
+    errors.push(`client.maxFileSizeMb는 0보다 큰 숫자여야 합니다: ${client.maxFileSizeMb}`);
+  }
+
+  return errors;
+};
+
+/**
+ * 서버 설정 로드
+ * @param env - 환경 변수 (기본값: process.env)
+ * @returns 검증된 설정 객체
+ * @throws {ConfigError} 설정 값이 잘못된 경우
+ */
+export const loadConfig = (env = process.env) => {
+  const fileConfig = env.CONFIG_FILE ? readConfigFile(env.CONFIG_FILE) : {};
+  const envConfig = readEnv(env);
+
+  const config = {
+    ...DEFAULTS,
+    ...fileConfig,
+    ...envConfig,
+    ice: { ...DEFAULTS.ice, ...fileConfig.ice, ...envConfig.ice },
+    chat: { ...DEFAULTS.chat, ...fileConfig.chat, ...envConfig.chat },
+    client: { ...DEFAULTS.client, ...fileConfig.client, ...envConfig.client },
+  };
+
+  const errors = validate(config);
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+
+  return Object.freeze(config);
+};
@@ -0,0 +1,22 @@
+import { LOG_LEVELS } from './config.js';
+
+/**
+ * 로그 레벨을 지원하는 간단한 로거 생성
+ * 설정된 레벨보다 낮은 로그는 출력하지 않습니다. (debug < info < warn < error)
+ * @param level - 최소 출력 레벨
+ */
+export const createLogger = (level) => {
+  const minLevel = LOG_LEVELS.indexOf(level);
+
+  const write = (target, name) => {
+    if (LOG_LEVELS.indexOf(name) < minLevel) return () => {};
+    return (...args) => target(`[${new Date().toISOString()}] [${name.toUpperCase()}]`, ...args);
+  };
+
+  return {
+    debug: write(console.log, 'debug'),
+    info: write(console.log, 'info'),
+    warn: write(console.warn, 'warn'),
+    error: write(console.error, 'error'),
+  };
+};
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+/**
+ * 방 비밀번호 처리
+ *
+ * 비밀번호 원문은 저장하지 않고 방마다 임의의 salt를 붙인 scrypt 해시만 방 설정에 보관합니다.
+ * 무차별 대입을 막기 위해 틀린 비밀번호 입력 횟수를 소켓과 IP별로 제한합니다.
+ */
+
+const scrypt = promisify(crypto.scrypt);
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 32;
+
+// 비밀번호 길이 제한
+export const PASSCODE_MIN_LENGTH = 4;
+export const PASSCODE_MAX_LENGTH = 64;
+
+/**
+ * 비밀번호 형식 확인
+ */
+export const isValidPasscode = (passcode) =>
+  typeof passcode === 'string' && passcode.length >= PASSCODE_MIN_LENGTH && passcode.length <= PASSCODE_MAX_LENGTH;
+
+/**
+ * 비밀번호 해시 생성
+ * @returns { salt, hash } (hex 문자열)
+ */
+export const hashPasscode = async (passcode) => {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = await scrypt(passcode, salt, KEY_LENGTH);
+  return { salt: salt.toString('hex'), hash: hash.toString('hex') };
+};
+
+/**
+ * 입력한 비밀번호가 저장된 해시와 일치하는지 확인 (비교 시간이 입력에 따라 달라지지 않도록 함)
+ */
+export const verifyPasscode = async (passcode, { salt, hash }) => {
+  if (typeof passcode !== 'string') return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(passcode, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+};
+
+/**
+ * 실패 횟수 제한기
+ * 키(소켓 ID, IP 등)별로 시간 창(windowMs) 안의 실패 횟수를 세고, 최대 횟수(limit)를 넘으면 창이 끝날 때까지 차단합니다.
+ */
+export class AttemptLimiter {
+  constructor(limit, windowMs) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+    // key → { count, resetAt }
+    this.attempts = new Map();
+  }
+
+  // 만료되지 않은 기록 조회 (만료된 기록은 삭제)
+  getEntry(key, now) {
+    const entry = this.attempts.get(key);
+    if (entry && entry.resetAt <= now) {
+      this.attempts.delete(key);
+      return null;
+    }
+    return entry || null;
+  }
+
+  /**
+   * 차단까지 남은 시간(ms) 조회 (차단되지 않았으면 0)
+   */
+  getRetryAfter(key, now = Date.now()) {
+    const entry = this.getEntry(key, now);
+    return entry && entry.count >= this.limit ? entry.resetAt - now : 0;
+  }
+
+  /**
+   * 실패 기록
+   */
+  recordFailure(key, now = Date.now()) {
+    const entry = this.getEntry(key, now);
+    if (entry) {
+      entry.count += 1;
+    } else {
+      this.attempts.set(key, { count: 1, resetAt: now + this.windowMs });
+    }
+  }
+
+  /**
+   * 실패 기록 하나 되돌리기 (확인 전에 먼저 센 시도가 성공한 경우)
+   */
+  cancelFailure(key, now = Date.now()) {
+    const entry = this.getEntry(key, now);
+    if (!entry) return;
+    entry.count -= 1;
+    if (entry.count <= 0) this.attempts.delete(key);
+  }
+
+  /**
+   * 기록 삭제 (성공하거나 연결이 끊긴 경우)
+   */
+  reset(key) {
+    this.attempts.delete(key);
+  }
+
+  /**
+   * 만료된 기록 정리 (주기적으로 호출)
+   */
+  prune(now = Date.now()) {
+    for (const [key, entry] of this.attempts) {
+      if (entry.resetAt <= now) this.attempts.delete(key);
+    }
+  }
+}
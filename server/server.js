@@ -1,25 +1,78 @@
 import express from 'express';
 import { createServer } from 'http';
+import { createServer as createSecureServer } from 'https';
 import { Server } from 'socket.io';
 import cors from 'cors';
+import fs from 'fs';
 import path from 'path';
-const __dirname = path.resolve();
+import crypto from 'crypto';
+import { loadConfig } from './config.js';
+import { createLogger } from './logger.js';
+import { createChatStore } from './chatStore.js';
+import { AttemptLimiter, PASSCODE_MAX_LENGTH, PASSCODE_MIN_LENGTH, hashPasscode, isValidPasscode, verifyPasscode } from './roomSecurity.js';
+
+// 설정 로드 (잘못된 설정이면 즉시 종료)
+let config;
+try {
+  config = loadConfig();
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
+
+const logger = createLogger(config.logLevel);
+
+// 방별 채팅 기록 저장소 및 한 번에 전송하는 기록 개수
+const chatStore = createChatStore(config.chat);
+const CHAT_HISTORY_PAGE_SIZE = 50;
+
+// 보낼 수 있는 이모지 반응 목록 및 사용자별 최소 전송 간격 (ms)
+const REACTION_EMOJIS = ['👍', '👏', '😂', '❤️', '🎉', '😮'];
+const REACTION_INTERVAL = 300;
+
+// 서버가 중계하는 피어 메시지의 최대 크기 (파일 조각 하나가 들어가는 크기, 글자 수)
+const MAX_PEER_MESSAGE_SIZE = 64 * 1024;
+
+// 채팅 메시지 최대 길이 (글자 수, 클라이언트 입력창 제한과 같은 값)
+const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+// 틀린 방 비밀번호 입력 제한 (1분 동안 소켓당 5회, 같은 IP에서 20회)
+const PASSCODE_ATTEMPT_WINDOW = 60 * 1000;
+const socketPasscodeLimiter = new AttemptLimiter(5, PASSCODE_ATTEMPT_WINDOW);
+const ipPasscodeLimiter = new AttemptLimiter(20, PASSCODE_ATTEMPT_WINDOW);
+setInterval(() => {
+  socketPasscodeLimiter.prune();
+  ipPasscodeLimiter.prune();
+}, PASSCODE_ATTEMPT_WINDOW).unref();
+
+// 허용 오리진 ('*'가 포함되면 모든 오리진 허용)
+const corsOrigin = config.allowedOrigins.includes('*') ? '*' : config.allowedOrigins;
 
 const app = express();
 app.use(
   cors({
-    origin: '*', // 모든 오리진 허용 (프로덕션에서는 특정 도메인으로 제한하는 것이 좋음)
+    origin: corsOrigin,
     methods: ['GET', 'POST'],
     credentials: true,
   })
 );
 
+// 클라이언트 실행 설정 (빌드에 포함하지 않고 서버 설정에서 제공하므로 같은 빌드를 여러 환경에서 사용 가능)
+// 정적 파일 폴더에 config.json이 있더라도 서버 설정을 우선하도록 정적 파일보다 먼저 등록
+app.get('/config.json', (req, res) => {
+  res.set('Cache-Control', 'no-store');
+  res.send({
+    signalingUrl: config.client.signalingUrl,
+    maxFileSizeMb: config.client.maxFileSizeMb,
+  });
+});
+
 // 정적 파일 제공 - 빌드된 클라이언트 파일
-app.use(express.static(path.join(__dirname, 'public')));
+app.use(express.static(config.staticDir));
 
 // 모든 경로에서 index.html 제공 (SPA 지원)
 app.get('/', function (req, res) {
-  res.sendFile(path.join(__dirname, 'public/index.html'));
+  res.sendFile(path.join(config.staticDir, 'index.html'));
 });
 
 // 방 정보를 반환하는 API
@@ -33,28 +86,40 @@ app.get('/api/rooms/:roomId', (req, res) => {
     });
   }
 
-  const roomParticipants = Array.from(rooms.get(roomId)).map(([userId, data]) => ({
-    userId,
+  // 사용자 ID는 회의 안에서만 공유 (ID를 알면 다른 참가자를 사칭할 수 있으므로 닉네임만 공개)
+  const roomParticipants = Array.from(rooms.get(roomId).values()).map((data) => ({
     nickname: data.nickname,
   }));
+  const settings = getRoomSettings(roomId);
 
+  // 비밀번호가 걸린 방은 참가자 정보를 공개하지 않음
   res.send({
     roomId,
-    participants: roomParticipants,
+    participants: settings.hasPasscode ? [] : roomParticipants,
     participantCount: roomParticipants.length,
+    locked: settings.locked,
+    hasPasscode: settings.hasPasscode,
   });
 });
 
 // 모든 활성 방 목록 반환 API
 app.get('/api/rooms', (req, res) => {
-  const activeRooms = Array.from(rooms.entries()).map(([roomId, participants]) => ({
-    roomId,
-    participantCount: participants.size,
-    participants: Array.from(participants).map(([userId, data]) => ({
-      userId,
-      nickname: data.nickname,
-    })),
-  }));
+  const activeRooms = Array.from(rooms.entries()).map(([roomId, participants]) => {
+    // 스포트라이트 대상과 사용자 ID는 회의 안에서만 공유
+    const { waitingRoom, locked, hasPasscode } = getRoomSettings(roomId);
+    return {
+      roomId,
+      participantCount: participants.size,
+      participants: hasPasscode
+        ? []
+        : Array.from(participants.values()).map((data) => ({
+            nickname: data.nickname,
+          })),
+      waitingRoom,
+      locked,
+      hasPasscode,
+    };
+  });
 
   res.send({
     rooms: activeRooms,
@@ -62,245 +127,894 @@ app.get('/api/rooms', (req, res) => {
   });
 });
 
+/**
+ * coturn REST API 방식의 TURN 임시 자격 증명 생성
+ * username은 "만료시각(유닉스 초):사용자ID", credential은 username을 비밀키로 HMAC-SHA1 서명한 Base64 값
+ */
+const createTurnCredentials = (userId) => {
+  const expiresAt = Math.floor(Date.now() / 1000) + config.ice.turnCredentialTtl;
+  const username = `${expiresAt}:${userId}`;
+  const credential = crypto.createHmac('sha1', config.ice.turnSecret).update(username).digest('base64');
+  return { username, credential };
+};
+
+/**
+ * 참가자에게 전달할 ICE 서버 목록
+ * TURN 자격 증명이 담겨 있으므로 방에 입장한 소켓의 요청에만 응답합니다 (공개 API로 제공하면 누구나 TURN 서버를 릴레이로 사용할 수 있음).
+ * @param userId - TURN 사용량 추적용 사용자 ID
+ */
+const getIceServers = (userId) => {
+  const iceServers = [];
+  if (config.ice.stunUrls.length > 0) {
+    iceServers.push({ urls: config.ice.stunUrls });
+  }
+  if (config.ice.turnUrls.length > 0) {
+    // 콜론은 username 구분자이므로 제거
+    iceServers.push({ urls: config.ice.turnUrls, ...createTurnCredentials(userId.replace(/:/g, '')) });
+  }
+
+  return {
+    iceServers,
+    iceTransportPolicy: config.ice.forceRelay ? 'relay' : 'all',
+    ttl: config.ice.turnCredentialTtl,
+  };
+};
+
 // 클라이언트 라우트 처리 (SPA를 위한 모든 경로에서 index.html 제공)
 app.get('*', (req, res) => {
-  // API 라우트는 제외
+  // API 라우트는 제외 (없는 API는 응답을 기다리지 않도록 404)
   if (!req.path.startsWith('/api/')) {
-    res.sendFile(path.join(__dirname, 'public/index.html'));
+    res.sendFile(path.join(config.staticDir, 'index.html'));
+  } else {
+    res.status(404).send({ error: 'Not found', message: '요청한 API를 찾을 수 없습니다.' });
   }
 });
 
-const server = createServer(app);
+// TLS 인증서가 설정된 경우 HTTPS로 실행
+const server = config.tls
+  ? createSecureServer({ cert: fs.readFileSync(config.tls.certPath), key: fs.readFileSync(config.tls.keyPath) }, app)
+  : createServer(app);
 const io = new Server(server, {
   cors: {
-    origin: '*', // 모든 오리진 허용
+    origin: corsOrigin,
     methods: ['GET', 'POST'],
     credentials: true,
   },
-  pingTimeout: 60000, // 핑 타임아웃 증가 (60초)
-  pingInterval: 25000, // 핑 간격 (25초)
+  pingTimeout: config.pingTimeout, // 핑 타임아웃
+  pingInterval: config.pingInterval, // 핑 간격
 });
 
 // 방 및 사용자 정보 저장 맵
+// rooms: roomId → Map<userId, { socketId, nickname, screenStreamId, role: 'host' | 'guest', handRaisedAt: 손 든 시각(ms) | null, audioEnabled, videoEnabled, isRecording,
+//   resumeToken: 세션 복구용 재연결 토큰, disconnectTimer: 연결이 끊긴 동안의 퇴장 처리 타이머 }>
+// 연결이 끊긴 참가자는 재연결 유예 시간 동안 socketId가 null인 채로 자리를 유지합니다.
 const rooms = new Map();
-const userSocketMap = new Map();
+// 호스트가 내보낸 사용자 ID 목록 (같은 ID로 다시 입장하지 못하도록 방이 사라질 때까지 유지)
+const removedUsers = new Map();
+
+// 방별 설정 (waitingRoom: 대기실 사용 여부, locked: 회의 잠금 여부, passcode: 비밀번호 해시 { salt, hash }, spotlightId: 모두에게 크게 표시할 참가자 ID)
+const roomSettings = new Map();
+// 대기실에서 호스트 승인을 기다리는 사용자 (roomId → Map<userId, { socketId, nickname }>)
+const pendingJoins = new Map();
+
+// 방의 호스트 ID 조회
+const getHostId = (roomId) => {
+  for (const [userId, data] of rooms.get(roomId) || []) {
+    if (data.role === 'host') return userId;
+  }
+  return null;
+};
+
+// 클라이언트에 전달할 방 설정 (비밀번호 해시는 제외하고 사용 여부만 전달)
+const getRoomSettings = (roomId) => {
+  const settings = roomSettings.get(roomId);
+  return { waitingRoom: !!settings?.waitingRoom, locked: !!settings?.locked, hasPasscode: !!settings?.passcode, spotlightId: settings?.spotlightId || null };
+};
+
+// 방 설정 변경 후 모든 참가자에게 알림
+const updateRoomSettings = (roomId, changes) => {
+  roomSettings.set(roomId, { ...roomSettings.get(roomId), ...changes });
+  io.to(roomId).emit('room-settings', getRoomSettings(roomId));
+};
+
+// 클라이언트에 전달할 참가자 목록 생성
+const getParticipantList = (roomId) =>
+  Array.from(rooms.get(roomId) || []).map(([userId, data]) => ({
+    userId,
+    socketId: data.socketId,
+    nickname: data.nickname,
+    screenStreamId: data.screenStreamId || null,
+    role: data.role,
+    handRaisedAt: data.handRaisedAt,
+    audioEnabled: data.audioEnabled,
+    videoEnabled: data.videoEnabled,
+    isRecording: data.isRecording,
+  }));
 
-io.on('connection', (socket) => {
-  console.log('User connected:', socket.id);
+/**
+ * 채팅 기록 한 페이지를 소켓에 전송
+ * 기록을 읽지 못해도 클라이언트가 계속 기다리지 않도록 빈 페이지와 오류 메시지를 보냅니다.
+ * @param socket - 받을 사용자의 소켓
+ * @param roomId - 방 ID
+ * @param before - 기준 메시지 ID (null이면 가장 최근 기록)
+ */
+const sendChatHistory = (socket, roomId, before) => {
+  chatStore
+    .getHistory(roomId, { before, limit: CHAT_HISTORY_PAGE_SIZE })
+    .then(({ messages, hasMore }) => {
+      logger.debug(`Sending ${messages.length} chat messages for room ${roomId} (before: ${before}, hasMore: ${hasMore})`);
+      socket.emit('chat-history', { roomId, messages, hasMore, before });
+    })
+    .catch((error) => {
+      logger.error(`Failed to load chat history for room ${roomId}:`, error);
+      socket.emit('chat-history', { roomId, messages: [], hasMore: true, before, error: '채팅 기록을 불러오지 못했습니다.' });
+    });
+};
+
+// 호스트에게 대기 중인 사용자 목록 전송
+const emitPendingList = (roomId) => {
+  const hostId = getHostId(roomId);
+  if (!hostId) return;
+
+  // 호스트의 연결이 끊겨 있으면 재연결 시 다시 전송
+  const { socketId } = rooms.get(roomId).get(hostId);
+  if (!socketId) return;
+
+  const pending = Array.from(pendingJoins.get(roomId) || []).map(([userId, data]) => ({ userId, nickname: data.nickname }));
+  io.to(socketId).emit('pending-participants', pending);
+};
+
+// 대기 중인 사용자 한 명을 목록에서 꺼냄
+const takePendingJoin = (roomId, userId) => {
+  const pending = pendingJoins.get(roomId)?.get(userId);
+  if (!pending) return null;
+
+  pendingJoins.get(roomId).delete(userId);
+  if (pendingJoins.get(roomId).size === 0) pendingJoins.delete(roomId);
+  return pending;
+};
+
+/**
+ * 대기 중인 사용자 입장 승인
+ * 대기 중 연결이 끊긴 경우에는 무시합니다.
+ */
+const admitPendingJoin = (roomId, userId) => {
+  const pending = takePendingJoin(roomId, userId);
+  const pendingSocket = pending && io.sockets.sockets.get(pending.socketId);
+  if (!pendingSocket) return;
+
+  logger.info(`User ${userId} admitted to room ${roomId}`);
+  admitToRoom(pendingSocket, { roomId, userId, nickname: pending.nickname, isCreating: false });
+};
+
+/**
+ * 호스트가 없는 방에 새 호스트 지정
+ * 재연결을 기다리는 참가자는 대기 중인 사용자를 승인할 수 없으므로 연결된 참가자 중 가장 먼저 입장한 참가자에게 넘기고,
+ * 연결된 참가자가 없으면 다음에 재연결하거나 입장하는 참가자에게 넘깁니다.
+ */
+const handOffHost = (roomId) => {
+  const participants = rooms.get(roomId);
+  if (!participants || getHostId(roomId)) return;
+
+  const next = Array.from(participants).find(([, data]) => data.socketId);
+  if (!next) {
+    logger.info(`Room ${roomId} has no connected participant to become host`);
+    return;
+  }
 
-  // 방 입장 이벤트 처리
-  socket.on('join-room', ({ roomId, userId, nickname }) => {
-    console.log('User joining room:', { roomId, userId, nickname, socketId: socket.id });
+  const [nextHostId, nextHost] = next;
+  nextHost.role = 'host';
+  io.to(roomId).emit('host-changed', { hostId: nextHostId });
+  logger.info(`${nextHostId} is the new host of room ${roomId}`);
+  // 새 호스트가 대기 중인 사용자를 승인할 수 있도록 목록 전송
+  emitPendingList(roomId);
+};
+
+/**
+ * 방에서 참가자 제거 (퇴장, 연결 종료, 내보내기 공통 처리)
+ * 호스트가 나갔거나 호스트 없이 남아 있던 방이면 연결된 참가자에게 호스트를 넘깁니다.
+ * 호출 전에 해당 소켓을 방에서 제거해야 본인에게 퇴장 알림이 가지 않습니다.
+ */
+const removeFromRoom = (roomId, userId) => {
+  const participants = rooms.get(roomId);
+  if (!participants?.has(userId)) return;
+
+  const { disconnectTimer } = participants.get(userId);
+  clearTimeout(disconnectTimer);
+  participants.delete(userId);
+
+  // 다른 참가자들에게 사용자 퇴장 알림
+  io.to(roomId).emit('userLeft', { userId });
+
+  // 방이 비었으면 방 자체를 제거 (승인해 줄 호스트가 없으므로 대기 중인 사용자도 돌려보냄)
+  if (participants.size === 0) {
+    rooms.delete(roomId);
+    removedUsers.delete(roomId);
+    roomSettings.delete(roomId);
+    pendingJoins.get(roomId)?.forEach(({ socketId }) => {
+      io.to(socketId).emit('join-error', { code: 'ROOM_CLOSED', message: '회의가 종료되었습니다.' });
+    });
+    pendingJoins.delete(roomId);
+    logger.info(`Room ${roomId} is now empty and removed`);
+    return;
+  }
 
-    // 재접속 여부 확인 (페이지 새로고침 등)
-    let isRejoin = false;
+  // 남은 참가자들에게 참가자 수 업데이트
+  io.to(roomId).emit('participant-count', participants.size);
+  logger.debug(`Room ${roomId} now has ${participants.size} participants`);
 
-    if (rooms.has(roomId)) {
-      const participants = rooms.get(roomId);
+  // 스포트라이트 대상이 나갔으면 해제
+  if (roomSettings.get(roomId)?.spotlightId === userId) {
+    updateRoomSettings(roomId, { spotlightId: null });
+    logger.info(`Spotlight cleared in room ${roomId} (${userId} left)`);
+  }
+
+  handOffHost(roomId);
+};
+
+/**
+ * 연결이 끊긴 참가자의 자리를 재연결 유예 시간 동안 유지
+ * 그동안 같은 재연결 토큰으로 다시 입장하면 세션을 복구하고, 시간이 지나면 퇴장 처리합니다.
+ * @param roomId - 방 ID
+ * @param userId - 연결이 끊긴 사용자 ID
+ */
+const holdSeatForReconnect = (roomId, userId) => {
+  const data = rooms.get(roomId)?.get(userId);
+  if (!data) return;
+
+  if (config.reconnectGracePeriod === 0) {
+    removeFromRoom(roomId, userId);
+    return;
+  }
 
-      // 같은 userId 가 이미 방에 있으면 => 재접속(새로고침)
-      if (participants.has(userId)) {
-        const { socketId: oldSocketId } = participants.get(userId);
+  data.socketId = null;
+  data.disconnectTimer = setTimeout(() => {
+    // 유예 시간 안에 재연결했거나 이미 나간 경우는 무시
+    if (rooms.get(roomId)?.get(userId) !== data || data.socketId) return;
+    logger.info(`User ${userId} did not reconnect to room ${roomId} in time`);
+    removeFromRoom(roomId, userId);
+  }, config.reconnectGracePeriod);
+  logger.info(`User ${userId} disconnected from room ${roomId}, holding seat for ${config.reconnectGracePeriod}ms`);
+};
+
+/**
+ * 참가자를 방에 입장시키고 기존 참가자 목록과 채팅 기록 전송
+ * 바로 입장하는 경우와 대기실에서 승인된 경우 모두 사용합니다.
+ * @param socket - 입장할 사용자의 소켓
+ */
+const admitToRoom = (socket, { roomId, userId, nickname, isCreating }) => {
+  // 방은 홈 화면에서 새 회의를 만든 사용자만 생성 (링크로 없는 방에 들어오면 거부)
+  const isNewRoom = !rooms.has(roomId);
+  if (isNewRoom && !isCreating) {
+    logger.info(`User ${userId} tried to join missing room ${roomId}`);
+    socket.emit('join-error', { code: 'ROOM_NOT_FOUND', message: '회의가 종료되었거나 존재하지 않습니다.' });
+    return;
+  }
 
-        console.log(`[rejoin] ${userId}  old socket: ${oldSocketId}  → new socket: ${socket.id}`);
+  // 최대 인원 초과 시 입장 거부
+  if (rooms.has(roomId) && rooms.get(roomId).size >= config.maxParticipants) {
+    logger.warn(`Room ${roomId} is full (${config.maxParticipants}), rejecting ${userId}`);
+    socket.emit('join-error', { code: 'ROOM_FULL', message: `방 인원이 가득 찼습니다. (최대 ${config.maxParticipants}명)` });
+    return;
+  }
 
-        /* 1) 먼저 다른 참가자에게 떠났음을 알린다 */
-        io.to(roomId).emit('userLeft', { userId });
+  // 소켓을 해당 방에 조인
+  socket.join(roomId);
 
-        /* 2) 서버 맵/전역 매핑에서 제거 */
-        participants.delete(userId);
-        userSocketMap.delete(userId);
+  // 방을 만든 사용자가 호스트 (이미 있는 방에 isCreating으로 들어오면 일반 참가자)
+  if (isNewRoom) {
+    rooms.set(roomId, new Map());
+    logger.info(`Room ${roomId} created by ${userId}`);
+  } else if (isCreating) {
+    logger.warn(`User ${userId} tried to create existing room ${roomId}, joining as guest`);
+  }
+  const role = isNewRoom ? 'host' : 'guest';
+
+  // 사용자 정보 저장 (마이크/카메라 상태는 입장 직후 클라이언트가 media-state로 알려줄 때까지 켜진 것으로 간주)
+  const resumeToken = crypto.randomBytes(24).toString('hex');
+  rooms.get(roomId).set(userId, {
+    socketId: socket.id,
+    nickname,
+    screenStreamId: null,
+    role,
+    handRaisedAt: null,
+    audioEnabled: true,
+    videoEnabled: true,
+    isRecording: false,
+    resumeToken,
+    disconnectTimer: null,
+  });
 
-        isRejoin = true; // 아래에서 userRejoined 이벤트 전송
-      }
-    }
+  // 참가자 목록 생성
+  const participants = getParticipantList(roomId);
 
-    // 소켓을 해당 방에 조인
-    socket.join(roomId);
-    // userId와 socketId 매핑 저장
-    userSocketMap.set(userId, socket.id);
+  logger.debug('Sending existing participants to user:', participants);
+  // 현재 접속한 사용자에게 재연결 토큰, 기존 참가자 정보 및 방 설정 전송
+  socket.emit('session', { roomId, resumeToken, resumed: false });
+  socket.emit('existing-participants', participants);
+  socket.emit('room-settings', getRoomSettings(roomId));
 
-    // 방이 없으면 새로 생성
-    if (!rooms.has(roomId)) {
-      rooms.set(roomId, new Map());
+  // 늦게 들어온 사용자도 이전 대화를 볼 수 있도록 최근 채팅 기록 전송
+  sendChatHistory(socket, roomId, null);
+
+  logger.debug('Notifying others about new user:', { userId, nickname, socketId: socket.id });
+  socket.to(roomId).emit('userJoined', {
+    userId,
+    socketId: socket.id,
+    nickname,
+  });
+
+  // 모든 참가자에게 현재 참가자 수 알림
+  io.to(roomId).emit('participant-count', rooms.get(roomId).size);
+  logger.debug(`Room ${roomId} now has ${rooms.get(roomId).size} participants`);
+
+  // 호스트가 입장하면 모든 참가자에게 호스트를 알리고 대기 중인 사용자 목록 전송
+  if (role === 'host') {
+    io.to(roomId).emit('host-changed', { hostId: userId });
+    emitPendingList(roomId);
+  } else {
+    // 연결된 참가자가 없어 호스트 없이 남아 있던 방이면 호스트 지정
+    handOffHost(roomId);
+  }
+};
+
+/**
+ * 재연결한 참가자의 세션 복구
+ * 역할, 손 들기, 마이크/카메라 상태 등 방의 자리는 그대로 둔 채 새 소켓으로 교체합니다.
+ * @param socket - 재연결한 사용자의 새 소켓
+ * @param keepConnections - 클라이언트가 기존 피어 연결을 유지하고 있는지 여부 (소켓만 끊겼던 경우)
+ */
+const resumeSession = (socket, { roomId, userId, nickname, keepConnections }) => {
+  const data = rooms.get(roomId).get(userId);
+  clearTimeout(data.disconnectTimer);
+  data.disconnectTimer = null;
+
+  // 서버가 아직 끊김을 감지하지 못한 이전 소켓은 방에서 내보냄 (소켓 ID를 먼저 바꿔 이후 disconnect 처리에서 자리를 지우지 않음)
+  const previousSocketId = data.socketId;
+  data.socketId = socket.id;
+  data.nickname = nickname;
+  if (previousSocketId && previousSocketId !== socket.id) {
+    io.sockets.sockets.get(previousSocketId)?.leave(roomId);
+  }
+
+  socket.join(roomId);
+  logger.info(`[resume] ${userId} resumed session in room ${roomId} (${keepConnections ? 'keeping' : 'rebuilding'} peer connections)`);
+
+  socket.emit('session', { roomId, resumeToken: data.resumeToken, resumed: true });
+  socket.emit('existing-participants', getParticipantList(roomId));
+  socket.emit('room-settings', getRoomSettings(roomId));
+  // 끊긴 동안 오간 채팅도 볼 수 있도록 최근 기록 전송 (클라이언트에서 중복 제거)
+  sendChatHistory(socket, roomId, null);
+  if (data.role === 'host') emitPendingList(roomId);
+  // 연결된 참가자가 없어 호스트 없이 남아 있던 방이면 호스트 지정
+  handOffHost(roomId);
+
+  if (keepConnections) {
+    // 기존 피어 연결은 다른 참가자 쪽에서 ICE 재시작으로 복구
+    socket.to(roomId).emit('userResumed', { userId });
+  } else {
+    // 페이지를 새로 연 경우 화면 공유가 끝났고 피어 연결도 새로 만들어야 함
+    if (data.screenStreamId) {
+      data.screenStreamId = null;
+      socket.to(roomId).emit('screen-share', { userId, streamId: null });
     }
-    // 사용자 정보 저장
-    rooms.get(roomId).set(userId, { socketId: socket.id, nickname });
-
-    // 참가자 목록 생성
-    const participants = Array.from(rooms.get(roomId)).map(([userId, data]) => ({
-      userId,
-      socketId: data.socketId,
-      nickname: data.nickname,
-    }));
-
-    console.log('Sending existing participants to user:', participants);
-    // 현재 접속한 사용자에게 기존 참가자 정보 전송
-    socket.emit('existing-participants', participants);
-
-    // 재접속인지 새 접속인지에 따라 다른 이벤트 발생
-    if (isRejoin) {
-      console.log('Notifying others about user rejoining:', { userId, nickname, socketId: socket.id });
-      socket.to(roomId).emit('userRejoined', {
-        userId,
-        socketId: socket.id,
-        nickname,
+    socket.to(roomId).emit('userRejoined', { userId, socketId: socket.id, nickname });
+  }
+};
+
+io.on('connection', (socket) => {
+  logger.info('User connected:', socket.id);
+
+  /**
+   * 요청한 소켓으로 방에 참가 중인 사용자 조회
+   * @returns [userId, 참가자 정보] 또는 참가자가 아니면 null
+   */
+  const getSocketParticipant = (roomId) => {
+    for (const entry of rooms.get(roomId) || []) {
+      if (entry[1].socketId === socket.id) return entry;
+    }
+    return null;
+  };
+
+  /**
+   * 잠금 및 비밀번호 확인
+   * 틀린 비밀번호는 소켓과 IP별로 횟수를 세고, 제한을 넘으면 일정 시간 동안 확인하지 않고 거부합니다.
+   * 동시에 보낸 요청이 모두 제한을 통과하지 않도록 해시를 계산하기 전에 먼저 실패로 세고, 맞으면 되돌립니다.
+   * @returns 입장 가능 여부 (거부 시 join-error 전송)
+   */
+  const checkRoomAccess = async (roomId, userId, passcode) => {
+    const settings = roomSettings.get(roomId);
+
+    if (settings?.locked) {
+      logger.info(`User ${userId} rejected from locked room ${roomId}`);
+      socket.emit('join-error', { code: 'ROOM_LOCKED', message: '호스트가 회의를 잠가 입장할 수 없습니다.' });
+      return false;
+    }
+    if (!settings?.passcode) return true;
+
+    const clientIp = socket.handshake.address;
+    const retryAfter = Math.max(socketPasscodeLimiter.getRetryAfter(socket.id), ipPasscodeLimiter.getRetryAfter(clientIp));
+    if (retryAfter > 0) {
+      logger.warn(`Too many passcode attempts for room ${roomId} from ${clientIp} (${socket.id})`);
+      const retryAfterSeconds = Math.ceil(retryAfter / 1000);
+      socket.emit('join-error', {
+        code: 'TOO_MANY_ATTEMPTS',
+        message: `비밀번호를 너무 많이 틀렸습니다. ${retryAfterSeconds}초 후에 다시 시도하세요.`,
+        retryAfter: retryAfterSeconds,
       });
-    } else {
-      console.log('Notifying others about new user:', { userId, nickname, socketId: socket.id });
-      socket.to(roomId).emit('userJoined', {
-        userId,
-        socketId: socket.id,
-        nickname,
+      return false;
+    }
+
+    // 비밀번호 없이 입장을 시도한 경우는 실패로 세지 않음
+    if (!passcode) {
+      socket.emit('join-error', { code: 'PASSCODE_REQUIRED', message: '비밀번호가 필요한 회의입니다.' });
+      return false;
+    }
+
+    socketPasscodeLimiter.recordFailure(socket.id);
+    ipPasscodeLimiter.recordFailure(clientIp);
+
+    // 형식이 맞지 않는 값은 해시를 계산하지 않고 바로 실패 처리
+    if (!isValidPasscode(passcode) || !(await verifyPasscode(passcode, settings.passcode))) {
+      logger.warn(`Wrong passcode for room ${roomId} from ${clientIp} (${socket.id})`);
+      socket.emit('join-error', { code: 'PASSCODE_INVALID', message: '비밀번호가 올바르지 않습니다.' });
+      return false;
+    }
+
+    socketPasscodeLimiter.reset(socket.id);
+    ipPasscodeLimiter.cancelFailure(clientIp);
+    return true;
+  };
+
+  // 방 입장 이벤트 처리
+  socket.on('join-room', async ({ roomId, userId, nickname, isCreating, passcode, resumeToken, keepConnections }) => {
+    logger.info('User joining room:', { roomId, userId, nickname, isCreating: !!isCreating, resuming: !!resumeToken, socketId: socket.id });
+
+    // 호스트가 내보낸 사용자는 입장 거부
+    if (removedUsers.get(roomId)?.has(userId)) {
+      logger.warn(`Removed user ${userId} tried to rejoin room ${roomId}`);
+      socket.emit('join-error', { code: 'REMOVED', message: '호스트에 의해 내보내진 회의입니다.' });
+      return;
+    }
+
+    // 재연결 토큰이 맞으면 자리를 유지한 채 세션 복구 (잠금, 비밀번호, 대기실 확인 생략)
+    const current = rooms.get(roomId)?.get(userId);
+    if (current && typeof resumeToken === 'string' && current.resumeToken === resumeToken) {
+      resumeSession(socket, { roomId, userId, nickname, keepConnections: !!keepConnections });
+      return;
+    }
+
+    // 잠금 및 비밀번호 확인 (재연결 토큰 없이 같은 ID로 다시 들어오는 경우도 확인)
+    const allowed = await checkRoomAccess(roomId, userId, passcode).catch((error) => {
+      logger.error(`Failed to check access to room ${roomId}:`, error);
+      return false;
+    });
+    // 확인하는 동안 연결이 끊겼으면 입장 처리하지 않음
+    if (!allowed || !socket.connected) return;
+
+    // 재연결 토큰 없이 이미 방에 있는 사용자 ID로 입장하면 거부 (다른 참가자를 내보내고 자리와 역할을 가로채지 못하도록)
+    if (rooms.get(roomId)?.has(userId)) {
+      const { socketId } = rooms.get(roomId).get(userId);
+      logger.warn(`User ${userId} tried to join room ${roomId} without a resume token while already seated`);
+      socket.emit('join-error', {
+        code: 'USER_ID_IN_USE',
+        message: socketId ? '다른 창에서 이미 이 회의에 참가 중입니다.' : '이전 연결을 정리하는 중입니다. 잠시 후 다시 시도하세요.',
       });
+      return;
+    }
+
+    // 대기실이 켜진 방에는 호스트 승인 후 입장 (세션을 복구한 참가자는 위에서 바로 입장, 호스트가 없으면 새 호스트가 지정될 때까지 대기)
+    if (rooms.has(roomId) && roomSettings.get(roomId)?.waitingRoom) {
+      if (!pendingJoins.has(roomId)) pendingJoins.set(roomId, new Map());
+      pendingJoins.get(roomId).set(userId, { socketId: socket.id, nickname });
+
+      logger.info(`User ${userId} is waiting for admission to room ${roomId}`);
+      socket.emit('waiting-for-admission', { roomId });
+      emitPendingList(roomId);
+      return;
     }
 
-    // 모든 참가자에게 현재 참가자 수 알림
-    io.to(roomId).emit('participant-count', rooms.get(roomId).size);
-    console.log(`Room ${roomId} now has ${rooms.get(roomId).size} participants`);
+    admitToRoom(socket, { roomId, userId, nickname, isCreating });
   });
 
   // 방 퇴장 이벤트 처리
   socket.on('leave-room', ({ roomId, userId }) => {
-    console.log('User leaving room:', { roomId, userId });
-
-    if (rooms.has(roomId)) {
-      // 방에서 사용자 제거
-      rooms.get(roomId).delete(userId);
-
-      // 방이 비었으면 방 자체를 제거
-      if (rooms.get(roomId).size === 0) {
-        rooms.delete(roomId);
-        console.log(`Room ${roomId} is now empty and removed`);
-      } else {
-        // 남은 참가자들에게 참가자 수 업데이트
-        io.to(roomId).emit('participant-count', rooms.get(roomId).size);
-        console.log(`Room ${roomId} now has ${rooms.get(roomId).size} participants`);
-      }
-    }
+    logger.info('User leaving room:', { roomId, userId });
 
-    // 사용자 매핑 제거
-    [...userSocketMap.entries()].filter(([, sid]) => sid === socket.id).forEach(([uid]) => userSocketMap.delete(uid));
-
-    // 다른 참가자들에게 사용자 퇴장 알림
-    socket.to(roomId).emit('userLeft', { userId });
     // 소켓을 방에서 제거
     socket.leave(roomId);
+
+    // 대기실에서 기다리다 나간 경우 대기 목록에서 제거
+    if (pendingJoins.get(roomId)?.get(userId)?.socketId === socket.id) {
+      takePendingJoin(roomId, userId);
+      emitPendingList(roomId);
+    }
+
+    // 본인 소켓으로 등록된 경우에만 제거 (재접속한 새 소켓은 유지)
+    if (rooms.get(roomId)?.get(userId)?.socketId === socket.id) {
+      removeFromRoom(roomId, userId);
+    }
   });
 
-  // 채팅 메시지 이벤트 처리
-  socket.on('chat-message', ({ roomId, id, senderId, senderNickname, content, timestamp }) => {
-    console.log('Chat message received:', { roomId, id, senderId, senderNickname, content, timestamp });
-    // 메시지를 같은 방의 다른 사용자들에게 전송
-    socket.to(roomId).emit('receiveMessage', {
-      id,
-      senderId,
-      senderNickname,
-      content,
-      timestamp,
-    });
+  // 채팅 메시지 이벤트 처리 (방에 입장한 참가자만, 발신자 ID와 닉네임은 보낸 값이 아닌 서버가 아는 값 사용)
+  socket.on('chat-message', ({ roomId, id, content }) => {
+    const participant = getSocketParticipant(roomId);
+    if (!participant) {
+      logger.warn(`채팅 메시지 거부: ${socket.id}는 ${roomId}의 참가자가 아님`);
+      return;
+    }
+    if (typeof id !== 'string' || typeof content !== 'string' || !content) return;
+    if (content.length > MAX_CHAT_MESSAGE_LENGTH) {
+      logger.warn(`채팅 메시지 거부: ${participant[0]}, 길이 초과 (${content.length})`);
+      return;
+    }
+
+    const [senderId, { nickname }] = participant;
+    const message = { id, senderId, senderNickname: nickname, content, timestamp: Date.now() };
+    logger.debug('Chat message received:', { roomId, ...message });
+
+    // 메시지를 같은 방의 다른 사용자들에게 전송하고 기록에 저장
+    socket.to(roomId).emit('receiveMessage', message);
+    chatStore.append(roomId, message).catch((error) => logger.error(`Failed to store chat message for room ${roomId}:`, error));
   });
 
-  // WebRTC 시그널링 이벤트 처리
-  socket.on('signal', ({ to, from, signal }) => {
-    console.log('Signal received:', { to, from, type: signal.type || 'ICE candidate' });
+  // 이전 채팅 기록 요청 처리 (채팅창을 위로 스크롤할 때)
+  socket.on('request-chat-history', ({ roomId, before }) => {
+    // 방에 참가 중인 소켓만 조회 가능
+    const isParticipant = Array.from(rooms.get(roomId)?.values() || []).some((data) => data.socketId === socket.id);
+    if (!isParticipant) {
+      logger.warn(`채팅 기록 요청 거부: ${socket.id}는 ${roomId}의 참가자가 아님`);
+      socket.emit('chat-history', { roomId, messages: [], hasMore: false, before, error: '회의에 참가 중인 사용자만 채팅 기록을 볼 수 있습니다.' });
+      return;
+    }
 
-    // userId로 해당 사용자의 socketId 조회
-    const targetSocketId = userSocketMap.get(to);
+    sendChatHistory(socket, roomId, before);
+  });
 
-    if (targetSocketId) {
-      console.log(`신호 전달: ${from} -> ${to}, 타겟 소켓: ${targetSocketId}`);
+  /**
+   * 요청한 소켓이 방의 호스트인지 확인 (아니면 거부 알림)
+   */
+  const isHostSocket = (action, roomId) => {
+    const hostId = getHostId(roomId);
+    if (hostId && rooms.get(roomId).get(hostId).socketId === socket.id) return true;
+
+    logger.warn(`${action} 거부: ${socket.id}는 ${roomId}의 호스트가 아님`);
+    socket.emit('moderation-error', { message: '호스트만 사용할 수 있는 기능입니다.' });
+    return false;
+  };
+
+  /**
+   * 호스트 권한 확인
+   * 요청한 소켓이 방의 호스트이고 대상이 호스트가 아닌 참가자인 경우에만 대상 정보를 반환합니다.
+   * 연결이 끊겨 재연결을 기다리는 참가자는 대상으로 지정할 수 없습니다 (오프라인 사용자에게 호스트를 넘기지 않도록).
+   */
+  const authorizeHostAction = (action, roomId, targetUserId) => {
+    if (!isHostSocket(action, roomId)) return null;
+
+    const participants = rooms.get(roomId);
+    const hostId = getHostId(roomId);
+
+    const target = participants.get(targetUserId);
+    if (!target || targetUserId === hostId) {
+      logger.warn(`${action} 거부: ${targetUserId}는 ${roomId}의 다른 참가자가 아님`);
+      socket.emit('moderation-error', { message: '대상 참가자를 찾을 수 없습니다.' });
+      return null;
+    }
+    if (!target.socketId) {
+      logger.warn(`${action} 거부: ${targetUserId}는 ${roomId}에서 연결이 끊긴 상태`);
+      socket.emit('moderation-error', { message: '연결이 끊긴 참가자입니다. 다시 연결된 뒤 시도하세요.' });
+      return null;
+    }
 
-      // from은 이미 userId 이므로 그대로 사용
-      let fromUserId = from;
+    return { hostId, target };
+  };
 
-      // userId가 실제로 존재하는지 확인 (선택적)
-      let isValidUser = false;
-      for (const [roomId, participants] of rooms.entries()) {
-        if (participants.has(fromUserId)) {
-          isValidUser = true;
-          break;
-        }
-      }
+  // 참가자 음소거 요청 (호스트 전용)
+  socket.on('mute-participant', ({ roomId, targetUserId }) => {
+    const authorized = authorizeHostAction('mute-participant', roomId, targetUserId);
+    if (!authorized) return;
 
-      if (!isValidUser) {
-        console.warn(`알 수 없는 출처의 신호: ${fromUserId}. 하지만 그대로 전달합니다.`);
-      }
+    logger.info(`Host ${authorized.hostId} muted ${targetUserId} in room ${roomId}`);
+    io.to(authorized.target.socketId).emit('force-mute', { by: authorized.hostId });
+  });
 
-      // 시그널 데이터 전송
-      io.to(targetSocketId).emit('signal', {
-        from: fromUserId,
-        signal,
-      });
-    } else {
-      console.warn(`대상 유저를 찾을 수 없음: ${to}. 신호 전달 실패. 현재 맵:`, Array.from(userSocketMap.entries()));
+  // 참가자 카메라 끄기 요청 (호스트 전용)
+  socket.on('disable-camera', ({ roomId, targetUserId }) => {
+    const authorized = authorizeHostAction('disable-camera', roomId, targetUserId);
+    if (!authorized) return;
+
+    logger.info(`Host ${authorized.hostId} disabled camera of ${targetUserId} in room ${roomId}`);
+    io.to(authorized.target.socketId).emit('force-camera-off', { by: authorized.hostId });
+  });
+
+  // 참가자 내보내기 (호스트 전용)
+  socket.on('remove-participant', ({ roomId, targetUserId }) => {
+    const authorized = authorizeHostAction('remove-participant', roomId, targetUserId);
+    if (!authorized) return;
+
+    logger.info(`Host ${authorized.hostId} removed ${targetUserId} from room ${roomId}`);
+
+    // 같은 ID로 다시 입장하지 못하도록 기록
+    if (!removedUsers.has(roomId)) removedUsers.set(roomId, new Set());
+    removedUsers.get(roomId).add(targetUserId);
+
+    // 대상에게 알린 뒤 방에서 제거
+    const targetSocketId = authorized.target.socketId;
+    io.to(targetSocketId).emit('removed-from-room', { roomId });
+    io.sockets.sockets.get(targetSocketId)?.leave(roomId);
+    removeFromRoom(roomId, targetUserId);
+  });
+
+  // 호스트 넘기기 (호스트 전용)
+  socket.on('transfer-host', ({ roomId, targetUserId }) => {
+    const authorized = authorizeHostAction('transfer-host', roomId, targetUserId);
+    if (!authorized) return;
+
+    rooms.get(roomId).get(authorized.hostId).role = 'guest';
+    authorized.target.role = 'host';
+
+    logger.info(`Host of room ${roomId} transferred: ${authorized.hostId} → ${targetUserId}`);
+    io.to(roomId).emit('host-changed', { hostId: targetUserId });
+    emitPendingList(roomId);
+  });
+
+  // 대기실 사용 설정 (호스트 전용)
+  socket.on('set-waiting-room', ({ roomId, enabled }) => {
+    if (!isHostSocket('set-waiting-room', roomId)) return;
+
+    updateRoomSettings(roomId, { waitingRoom: !!enabled });
+    logger.info(`Waiting room ${enabled ? 'enabled' : 'disabled'} for room ${roomId}`);
+
+    // 대기실을 끄면 기다리던 사용자를 모두 입장시킴
+    if (!enabled) {
+      Array.from(pendingJoins.get(roomId)?.keys() || []).forEach((userId) => admitPendingJoin(roomId, userId));
+      emitPendingList(roomId);
+    }
+  });
+
+  // 회의 잠금 설정 (호스트 전용, 잠그면 이미 참가 중인 사용자 외에는 입장 불가)
+  socket.on('set-room-lock', ({ roomId, locked }) => {
+    if (!isHostSocket('set-room-lock', roomId)) return;
+
+    updateRoomSettings(roomId, { locked: !!locked });
+    logger.info(`Room ${roomId} ${locked ? 'locked' : 'unlocked'}`);
+  });
+
+  // 모두에게 스포트라이트 설정 (호스트 전용, 호스트 자신도 지정 가능, 빈 값이면 해제)
+  socket.on('set-spotlight', ({ roomId, targetUserId }) => {
+    if (!isHostSocket('set-spotlight', roomId)) return;
+
+    if (targetUserId && !rooms.get(roomId).has(targetUserId)) {
+      logger.warn(`set-spotlight 거부: ${targetUserId}는 ${roomId}의 참가자가 아님`);
+      socket.emit('moderation-error', { message: '대상 참가자를 찾을 수 없습니다.' });
+      return;
+    }
+
+    updateRoomSettings(roomId, { spotlightId: targetUserId || null });
+    logger.info(targetUserId ? `Spotlight set to ${targetUserId} in room ${roomId}` : `Spotlight cleared in room ${roomId}`);
+  });
+
+  // 방 비밀번호 설정 (호스트 전용, 빈 값이면 비밀번호 해제)
+  socket.on('set-room-passcode', async ({ roomId, passcode }) => {
+    if (!isHostSocket('set-room-passcode', roomId)) return;
+
+    if (!passcode) {
+      updateRoomSettings(roomId, { passcode: null });
+      logger.info(`Passcode removed from room ${roomId}`);
+      return;
+    }
+    if (!isValidPasscode(passcode)) {
+      socket.emit('moderation-error', { message: `비밀번호는 ${PASSCODE_MIN_LENGTH}~${PASSCODE_MAX_LENGTH}자여야 합니다.` });
+      return;
+    }
+
+    try {
+      const hashed = await hashPasscode(passcode);
+      // 해시를 만드는 동안 방이 사라졌으면 무시
+      if (!rooms.has(roomId)) return;
+      updateRoomSettings(roomId, { passcode: hashed });
+      logger.info(`Passcode set for room ${roomId}`);
+    } catch (error) {
+      logger.error(`Failed to hash passcode for room ${roomId}:`, error);
+      socket.emit('moderation-error', { message: '비밀번호를 설정하지 못했습니다.' });
+    }
+  });
+
+  // 대기 중인 사용자 입장 승인 (호스트 전용)
+  socket.on('admit-participant', ({ roomId, targetUserId }) => {
+    if (!isHostSocket('admit-participant', roomId)) return;
+
+    admitPendingJoin(roomId, targetUserId);
+    emitPendingList(roomId);
+  });
+
+  // 대기 중인 사용자 모두 승인 (호스트 전용)
+  socket.on('admit-all', ({ roomId }) => {
+    if (!isHostSocket('admit-all', roomId)) return;
+
+    Array.from(pendingJoins.get(roomId)?.keys() || []).forEach((userId) => admitPendingJoin(roomId, userId));
+    emitPendingList(roomId);
+  });
+
+  // 대기 중인 사용자 입장 거절 (호스트 전용)
+  socket.on('deny-participant', ({ roomId, targetUserId }) => {
+    if (!isHostSocket('deny-participant', roomId)) return;
+
+    const pending = takePendingJoin(roomId, targetUserId);
+    if (pending) {
+      logger.info(`User ${targetUserId} denied from room ${roomId}`);
+      io.to(pending.socketId).emit('join-error', { code: 'DENIED', message: '호스트가 입장을 거절했습니다.' });
+    }
+    emitPendingList(roomId);
+  });
+
+  // 손 들기/내리기 (손 든 순서대로 발언 대기열을 만들 수 있도록 처음 손 든 시각을 유지)
+  socket.on('raise-hand', ({ roomId, raised }) => {
+    const participant = getSocketParticipant(roomId);
+    if (!participant) return;
+
+    const [userId, data] = participant;
+    data.handRaisedAt = raised ? data.handRaisedAt || Date.now() : null;
+    logger.debug(`User ${userId} ${raised ? 'raised' : 'lowered'} hand in room ${roomId}`);
+    io.to(roomId).emit('hand-changed', { userId, nickname: data.nickname, raisedAt: data.handRaisedAt, loweredBy: null });
+  });
+
+  // 다른 참가자의 손 내리기 (호스트 전용)
+  socket.on('lower-hand', ({ roomId, targetUserId }) => {
+    if (!isHostSocket('lower-hand', roomId)) return;
+
+    const target = rooms.get(roomId).get(targetUserId);
+    if (!target?.handRaisedAt) return;
+
+    const hostId = getHostId(roomId);
+    target.handRaisedAt = null;
+    logger.info(`Host ${hostId} lowered hand of ${targetUserId} in room ${roomId}`);
+    io.to(roomId).emit('hand-changed', { userId: targetUserId, nickname: target.nickname, raisedAt: null, loweredBy: hostId });
+  });
+
+  // 이모지 반응 (보낸 사람을 포함한 모든 참가자에게 전달, 너무 자주 보내면 무시)
+  let lastReactionAt = 0;
+  socket.on('send-reaction', ({ roomId, emoji }) => {
+    const participant = getSocketParticipant(roomId);
+    if (!participant || !REACTION_EMOJIS.includes(emoji)) return;
+
+    const now = Date.now();
+    if (now - lastReactionAt < REACTION_INTERVAL) return;
+    lastReactionAt = now;
+
+    io.to(roomId).emit('reaction', { id: crypto.randomUUID(), userId: participant[0], emoji });
+  });
+
+  // 마이크/카메라 켜짐 상태 변경 (수신 측 트랙의 enabled 값에는 송신 측 음소거가 반영되지 않으므로 명시적으로 전달)
+  socket.on('media-state', ({ roomId, audioEnabled, videoEnabled }) => {
+    const participant = getSocketParticipant(roomId);
+    if (!participant) return;
+
+    const [userId, data] = participant;
+    data.audioEnabled = !!audioEnabled;
+    data.videoEnabled = !!videoEnabled;
+    socket.to(roomId).emit('media-state', { userId, audioEnabled: data.audioEnabled, videoEnabled: data.videoEnabled });
+  });
+
+  // 녹화 시작/종료 (녹화는 각 참가자의 브라우저에서 하므로 서버는 녹화 중임을 모든 참가자에게 알리기만 함)
+  socket.on('recording-state', ({ roomId, recording }) => {
+    const participant = getSocketParticipant(roomId);
+    if (!participant) return;
+
+    const [userId, data] = participant;
+    if (data.isRecording === !!recording) return;
+    data.isRecording = !!recording;
+    logger.info(`User ${userId} ${data.isRecording ? 'started' : 'stopped'} recording in room ${roomId}`);
+    io.to(roomId).emit('recording-state', { userId, nickname: data.nickname, recording: data.isRecording });
+  });
+
+  // 화면 공유 시작/종료 이벤트 처리
+  socket.on('screen-share', ({ roomId, userId, streamId }) => {
+    logger.debug('Screen share update:', { roomId, userId, streamId });
+
+    const participant = rooms.get(roomId)?.get(userId);
+    if (!participant || participant.socketId !== socket.id) {
+      logger.warn(`화면 공유 알림 무시: ${userId}는 ${roomId}의 참가자가 아님`);
+      return;
+    }
+
+    // 늦게 입장한 참가자를 위해 화면 공유 스트림 ID 저장
+    participant.screenStreamId = streamId;
+    socket.to(roomId).emit('screen-share', { userId, streamId });
+  });
+
+  // 데이터 채널이 열리지 않은 피어에게 메시지 중계 (같은 방 참가자 사이에서만, 내용은 그대로 전달)
+  socket.on('peer-message', ({ roomId, to, message }) => {
+    const participant = getSocketParticipant(roomId);
+    const target = rooms.get(roomId)?.get(to);
+    if (!participant || !target?.socketId || typeof message !== 'string') return;
+    if (message.length > MAX_PEER_MESSAGE_SIZE) {
+      logger.warn(`피어 메시지 중계 거부: ${participant[0]} → ${to}, 크기 초과 (${message.length})`);
+      return;
     }
+
+    io.to(target.socketId).emit('peer-message', { from: participant[0], message });
+  });
+
+  // ICE 서버 목록 요청 (피어 연결을 만들기 전, 방에 입장한 참가자만)
+  socket.on('request-ice-servers', ({ roomId }) => {
+    const participant = getSocketParticipant(roomId);
+    if (!participant) {
+      logger.warn(`ICE 서버 목록 요청 거부: ${socket.id}는 ${roomId}의 참가자가 아님`);
+      return;
+    }
+
+    socket.emit('ice-servers', getIceServers(participant[0]));
+  });
+
+  // WebRTC 시그널링 이벤트 처리 (같은 방에 입장한 참가자 사이에서만 중계, 보낸 사람은 서버가 확인한 ID로 전달)
+  socket.on('signal', ({ roomId, to, signal }) => {
+    const participant = getSocketParticipant(roomId);
+    const target = rooms.get(roomId)?.get(to);
+    if (!participant || !target?.socketId || !signal) {
+      logger.warn(`신호 중계 거부: ${socket.id} → ${to} (${roomId}에 입장한 참가자 사이가 아님)`);
+      return;
+    }
+
+    logger.debug('Signal received:', { roomId, from: participant[0], to, type: signal.type || 'ICE candidate' });
+    io.to(target.socketId).emit('signal', { from: participant[0], signal });
   });
 
   // 연결 해제 이벤트 처리
   socket.on('disconnect', () => {
-    console.log('User disconnected:', socket.id);
+    logger.info('User disconnected:', socket.id);
 
-    // 모든 방을 검색하여 해당 소켓의 사용자 찾기
+    // 모든 방을 검색하여 해당 소켓의 사용자 찾기 (순회 중 삭제를 피하기 위해 먼저 수집)
+    const memberships = [];
     rooms.forEach((participants, roomId) => {
       participants.forEach((data, userId) => {
-        if (data.socketId === socket.id) {
-          // 방에서 사용자 제거
-          participants.delete(userId);
-          // 다른 참가자들에게 사용자 퇴장 알림
-          socket.to(roomId).emit('userLeft', { userId });
-
-          // 방이 비었으면 제거
-          if (participants.size === 0) {
-            rooms.delete(roomId);
-            console.log(`Room ${roomId} is now empty and removed`);
-          } else {
-            // 참가자 수 업데이트
-            io.to(roomId).emit('participant-count', participants.size);
-            console.log(`Room ${roomId} now has ${participants.size} participants`);
-          }
-        }
+        if (data.socketId === socket.id) memberships.push([roomId, userId]);
       });
     });
+    // 바로 퇴장 처리하지 않고 재연결 유예 시간 동안 자리 유지
+    memberships.forEach(([roomId, userId]) => holdSeatForReconnect(roomId, userId));
+
+    // 대기실에서 기다리던 중이면 대기 목록에서 제거
+    pendingJoins.forEach((pending, roomId) => {
+      const waitingUserIds = Array.from(pending).filter(([, data]) => data.socketId === socket.id).map(([userId]) => userId);
+      if (waitingUserIds.length === 0) return;
+      waitingUserIds.forEach((userId) => takePendingJoin(roomId, userId));
+      emitPendingList(roomId);
+    });
 
-    // 사용자 매핑 제거
-    [...userSocketMap.entries()].filter(([, sid]) => sid === socket.id).forEach(([uid]) => userSocketMap.delete(uid));
+    // 비밀번호 실패 기록 제거 (IP 기록은 만료될 때까지 유지)
+    socketPasscodeLimiter.reset(socket.id);
   });
 
   // 재연결 시도 이벤트 처리
   socket.on('reconnect_attempt', (attempt) => {
-    console.log(`소켓 재연결 시도 (${attempt}/5)...`);
+    logger.debug(`소켓 재연결 시도 (${attempt}/5)...`);
   });
 
   // 재연결 성공 이벤트 처리
   socket.on('reconnect', () => {
-    console.log('소켓 재연결 성공:', socket?.id);
+    logger.debug('소켓 재연결 성공:', socket?.id);
   });
 
   // 참가자 목록 요청 이벤트 처리
   socket.on('request-participants', ({ roomId }) => {
-    if (rooms.has(roomId)) {
-      const participants = Array.from(rooms.get(roomId)).map(([userId, data]) => ({
-        userId,
-        socketId: data.socketId,
-        nickname: data.nickname,
-      }));
+    // 잠금/비밀번호가 걸린 방의 참가자 정보가 새지 않도록 방에 입장한 소켓에만 응답
+    if (rooms.has(roomId) && socket.rooms.has(roomId)) {
+      const participants = getParticipantList(roomId);
 
       // 요청한 사용자에게 현재 참가자 목록 전송
       socket.emit('existing-participants', participants);
-      console.log(`Sending participant list for room ${roomId}:`, participants);
+      logger.debug(`Sending participant list for room ${roomId}:`, participants);
     } else {
-      console.log(`Room ${roomId} not found for participant request`);
+      logger.debug(`Room ${roomId} not found for participant request`);
       socket.emit('existing-participants', []);
     }
   });
 });
 
-const PORT = 3000;
-
-server.listen(PORT, () => {
-  console.log(`== EchoMeet 서버가 시작되었습니다 ==`);
-  console.log(`http://localhost:${PORT} 에서 서버 실행 중`);
-  console.log(`현재 시간: ${new Date().toISOString()}`);
-  console.log('=================================');
+server.listen(config.port, config.host, () => {
+  logger.info(`== EchoMeet 서버가 시작되었습니다 ==`);
+  logger.info(`${config.tls ? 'https' : 'http'}://${config.host}:${config.port} 에서 서버 실행 중`);
+  logger.info(`허용 오리진: ${config.allowedOrigins.join(', ')}, 방 최대 인원: ${config.maxParticipants}, 로그 레벨: ${config.logLevel}`);
+  logger.info('=================================');
 });
@@ -2,6 +2,7 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import Home from './components/Home';
 import Room from './components/Room';
+import Lobby from './components/Lobby';
 import { Provider } from 'react-redux';
 import store from './store';
 
@@ -11,6 +12,7 @@ export default function App() {
       <Router>
         <Routes>
           <Route path="/" element={<Home />} />
+          <Route path="/room/:roomId/lobby" element={<Lobby />} />
           <Route path="/room/:roomId" element={<Room />} />
         </Routes>
         <Toaster
@@ -2,15 +2,20 @@
  * Chat.tsx - 실시간 채팅 컴포넌트
  * 화상 회의 중 사용자 간 텍스트 메시지를 주고받을 수 있는 채팅 인터페이스를 제공합니다.
  */
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState } from '../store';
-import { addMessage } from '../store/slices/chatSlice';
-import { XMarkIcon, PaperAirplaneIcon } from '@heroicons/react/24/solid'; // 닫기 및 메시지 전송 아이콘
+import { addMessage, setLoadingHistory } from '../store/slices/chatSlice';
+import { XMarkIcon, PaperAirplaneIcon, PaperClipIcon } from '@heroicons/react/24/solid'; // 닫기, 메시지 전송 및 파일 첨부 아이콘
 import { format } from 'date-fns'; // 날짜 포맷팅 라이브러리
 import { ko } from 'date-fns/locale'; // 한국어 지역화
 import { v4 as uuidv4 } from 'uuid'; // 고유 ID 생성 라이브러리
 import { socketService } from '../services/socket';
+import { fileTransferService } from '../services/fileTransfer';
+import FileCard from './FileCard';
+
+// 채팅 메시지 최대 길이 (서버가 이보다 긴 메시지는 전달하지 않음)
+const MAX_MESSAGE_LENGTH = 2000;
 
 /**
  * Message 인터페이스 - 채팅 메시지 타입 정의
@@ -40,24 +45,58 @@ interface ChatProps {
  * 채팅 컴포넌트
  * - 실시간 메시지 송수신 기능
  * - 메시지 목록 표시 및 스크롤 자동화
+ * - 위로 스크롤 시 이전 채팅 기록 불러오기
+ * - 파일 공유 (참가자 간 데이터 채널로 전송)
  * - 사용자 구분 및 시간 표시
  */
 export default function Chat({ onClose, roomId }: ChatProps) {
   const dispatch = useDispatch();
   // Redux 상태에서 메시지 목록 및 사용자 정보 가져오기
-  const { messages } = useSelector((state: RootState) => state.chat);
+  const { messages, hasMoreHistory, isLoadingHistory } = useSelector((state: RootState) => state.chat);
   const { userId, nickname } = useSelector((state: RootState) => state.user);
 
   // 메시지 입력창 상태 관리
   const [inputMessage, setInputMessage] = useState('');
+  // 파일 선택 입력 참조 및 공유 준비(해시 계산) 중 여부
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isSharingFile, setIsSharingFile] = useState(false);
   // 메시지 리스트의 마지막 항목 참조 (스크롤 제어용)
   const messageEndRef = useRef<HTMLDivElement>(null);
+  // 메시지 목록 스크롤 영역 참조
+  const listRef = useRef<HTMLDivElement>(null);
+  // 이전 기록을 불러오기 직전의 스크롤 높이 (불러온 뒤 보던 위치 유지용)
+  const previousScrollHeightRef = useRef<number | null>(null);
+
+  const lastMessageId = messages[messages.length - 1]?.id;
+  const firstMessageId = messages[0]?.id;
 
   // 새 메시지가 추가될 때마다 스크롤을 아래로 이동시키는 효과
   useEffect(() => {
-    // 메시지가 추가될 때마다 스크롤을 아래로 이동
+    // 마지막 메시지가 바뀐 경우에만 이동 (이전 기록이 앞에 추가될 때는 이동하지 않음)
     messageEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [lastMessageId]);
+
+  // 이전 기록이 앞에 추가되면 보던 메시지가 그대로 보이도록 스크롤 위치 보정
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list || previousScrollHeightRef.current === null) return;
+
+    list.scrollTop += list.scrollHeight - previousScrollHeightRef.current;
+    previousScrollHeightRef.current = null;
+  }, [firstMessageId]);
+
+  /**
+   * 스크롤 이벤트 처리
+   * - 목록 맨 위 근처에 도달하면 서버에 이전 채팅 기록 요청
+   */
+  const handleScroll = () => {
+    const list = listRef.current;
+    if (!list || list.scrollTop > 40 || !hasMoreHistory || isLoadingHistory || !firstMessageId) return;
+
+    previousScrollHeightRef.current = list.scrollHeight;
+    dispatch(setLoadingHistory(true));
+    socketService.requestChatHistory(roomId, firstMessageId);
+  };
 
   /**
    * 메시지 전송 함수
@@ -82,6 +121,25 @@ export default function Chat({ onClose, roomId }: ChatProps) {
     setInputMessage('');
   };
 
+  /**
+   * 파일 공유 함수
+   * - 선택한 파일을 참가자들에게 공유하고 내 채팅 목록에 파일 카드 추가
+   * @param e - 파일 선택 이벤트
+   */
+  const shareFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 같은 파일을 다시 선택할 수 있도록 초기화
+    e.target.value = '';
+    if (!file) return;
+
+    setIsSharingFile(true);
+    const offer = await fileTransferService.shareFile(file, nickname);
+    setIsSharingFile(false);
+    if (!offer) return;
+
+    dispatch(addMessage({ id: offer.transferId, senderId: userId, senderNickname: nickname, content: offer.name, timestamp: offer.sentAt, file: offer }));
+  };
+
   return (
     <div className="flex flex-col h-full" style={{ position: 'relative', zIndex: 50 }}>
       {/* 채팅 헤더 */}
@@ -93,7 +151,9 @@ export default function Chat({ onClose, roomId }: ChatProps) {
       </div>
 
       {/* 메시지 목록 영역 */}
-      <div className="flex-1 overflow-y-auto p-2 sm:p-3 space-y-2 sm:space-y-3">
+      <div ref={listRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-2 sm:p-3 space-y-2 sm:space-y-3">
+        {/* 이전 기록 불러오는 중 표시 */}
+        {isLoadingHistory && <div className="text-center text-gray-400 text-[10px] sm:text-xs">이전 메시지를 불러오는 중...</div>}
         {messages.length === 0 ? (
           // 메시지가 없는 경우 안내 문구 표시
           <div className="text-center text-gray-500 dark:text-gray-400 py-4 text-xs sm:text-sm">첫 메시지를 보내보세요!</div>
@@ -108,8 +168,8 @@ export default function Chat({ onClose, roomId }: ChatProps) {
             >
               {/* 다른 사용자의 메시지인 경우 발신자 닉네임 표시 */}
               {message.senderId !== userId && <div className="font-medium text-xs mb-0.5">{message.senderNickname}</div>}
-              {/* 메시지 내용 */}
-              <div className="break-words">{message.content}</div>
+              {/* 메시지 내용 (파일 메시지는 파일 카드) */}
+              {message.file ? <FileCard file={message.file} /> : <div className="break-words">{message.content}</div>}
               {/* 메시지 전송 시간 (한국어 형식) */}
               <div className="text-[10px] sm:text-xs mt-0.5 sm:mt-1 opacity-70">{format(new Date(message.timestamp), 'p', { locale: ko })}</div>
             </div>
@@ -121,10 +181,22 @@ export default function Chat({ onClose, roomId }: ChatProps) {
 
       {/* 메시지 입력 폼 */}
       <form onSubmit={sendMessage} className="border-t border-gray-200 dark:border-gray-700 p-2 sm:p-3 flex items-center">
+        {/* 파일 첨부 버튼 - 해시 계산 중에는 비활성화 */}
+        <input ref={fileInputRef} type="file" onChange={shareFile} className="hidden" />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isSharingFile}
+          title="파일 보내기"
+          className="mr-1 sm:mr-2 p-1.5 sm:p-2 text-gray-500 hover:text-indigo-500 rounded-full disabled:opacity-50"
+        >
+          <PaperClipIcon className="w-4 h-4 sm:w-5 sm:h-5" />
+        </button>
         <input
           type="text"
           value={inputMessage}
           onChange={(e) => setInputMessage(e.target.value)}
+          maxLength={MAX_MESSAGE_LENGTH}
           placeholder="메시지를 입력하세요..."
           className="flex-1 bg-gray-100 dark:bg-gray-700 rounded-full px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:text-white"
         />
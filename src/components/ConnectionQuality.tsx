@@ -0,0 +1,82 @@
+/**
+ * ConnectionQuality.tsx - 참가자별 연결 품질 표시 컴포넌트
+ *
+ * 신호 막대 아이콘으로 연결 품질을 보여주고, 마우스를 올리면 상세 통계를 표시합니다.
+ */
+import { useState } from 'react';
+import { useSelector } from 'react-redux';
+import { RootState } from '../store';
+import type { ConnectionQuality as Quality } from '../services/stats';
+
+/**
+ * 연결 품질 표시 Props 인터페이스
+ * @property userId - 원격 사용자 ID
+ */
+interface ConnectionQualityProps {
+  userId: string;
+}
+
+// 품질 단계별 막대 색상 및 설명
+const QUALITY_STYLES: Record<Quality, { color: string; label: string }> = {
+  0: { color: 'bg-gray-400', label: '측정 중' },
+  1: { color: 'bg-red-500', label: '나쁨' },
+  2: { color: 'bg-yellow-400', label: '보통' },
+  3: { color: 'bg-green-500', label: '좋음' },
+};
+
+// 막대 높이 (왼쪽부터 순서대로)
+const BAR_HEIGHTS = ['h-1.5', 'h-2.5', 'h-3.5'];
+
+/**
+ * 측정값 표시 형식 변환 (값이 없으면 '-')
+ */
+const formatValue = (value: number | null, unit: string) => (value === null ? '-' : `${value}${unit}`);
+
+/**
+ * 연결 품질 신호 막대 및 상세 통계 팝오버
+ */
+export default function ConnectionQuality({ userId }: ConnectionQualityProps) {
+  const stats = useSelector((state: RootState) => state.stats.peers[userId]);
+  const [isDetailOpen, setIsDetailOpen] = useState(false);
+
+  const quality = stats?.quality ?? 0;
+  const { color, label } = QUALITY_STYLES[quality];
+
+  return (
+    <div className="relative" onMouseEnter={() => setIsDetailOpen(true)} onMouseLeave={() => setIsDetailOpen(false)}>
+      {/* 신호 막대 */}
+      <div className="flex items-end gap-0.5 px-2 py-1.5 bg-black/50 backdrop-blur-md rounded-lg" title={`연결 품질: ${label}`}>
+        {BAR_HEIGHTS.map((height, index) => (
+          <div key={height} className={`w-1 rounded-sm ${height} ${index < quality ? color : 'bg-white/30'}`} />
+        ))}
+      </div>
+
+      {/* 상세 통계 팝오버 */}
+      {isDetailOpen && (
+        <div className="absolute top-full left-0 mt-1 z-20 w-48 p-3 bg-gray-900/90 backdrop-blur-md rounded-lg text-xs text-white shadow-lg">
+          <div className="font-medium mb-2">연결 품질: {label}</div>
+          {stats ? (
+            <dl className="grid grid-cols-2 gap-y-1">
+              <dt className="text-gray-400">지연 시간</dt>
+              <dd className="text-right">{formatValue(stats.roundTripTime, 'ms')}</dd>
+              <dt className="text-gray-400">패킷 손실</dt>
+              <dd className="text-right">{formatValue(stats.packetLoss, '%')}</dd>
+              <dt className="text-gray-400">지터</dt>
+              <dd className="text-right">{formatValue(stats.jitter, 'ms')}</dd>
+              <dt className="text-gray-400">수신</dt>
+              <dd className="text-right">{formatValue(stats.inboundBitrate, ' kbps')}</dd>
+              <dt className="text-gray-400">송신</dt>
+              <dd className="text-right">{formatValue(stats.outboundBitrate, ' kbps')}</dd>
+              <dt className="text-gray-400">프레임</dt>
+              <dd className="text-right">{formatValue(stats.frameRate, ' fps')}</dd>
+              <dt className="text-gray-400">해상도</dt>
+              <dd className="text-right">{stats.resolution ? `${stats.resolution.width}×${stats.resolution.height}` : '-'}</dd>
+            </dl>
+          ) : (
+            <div className="text-gray-400">통계를 수집하고 있습니다...</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * DeviceSettings.tsx - 미디어 장치 설정 패널 컴포넌트
+ *
+ * 마이크, 카메라, 스피커를 선택할 수 있는 설정 패널입니다.
+ * 입력 장치를 변경하면 통화 중에도 재입장 없이 송신 트랙이 교체됩니다.
+ */
+import { useDispatch, useSelector } from 'react-redux';
+import { XMarkIcon, MicrophoneIcon, VideoCameraIcon, SpeakerWaveIcon } from '@heroicons/react/24/solid';
+import { RootState } from '../store';
+import { selectAudioInput, selectAudioOutput, selectVideoInput } from '../store/slices/deviceSlice';
+import { deviceService } from '../services/devices';
+
+/**
+ * 장치 설정 패널 Props 인터페이스
+ * @property onClose - 패널 닫기 이벤트 핸들러
+ * @property onInputChange - 입력 장치 변경 시 호출 (트랙 교체용)
+ */
+interface DeviceSettingsProps {
+  onClose: () => void;
+  onInputChange: (kind: 'audio' | 'video', deviceId: string) => void;
+}
+
+/**
+ * 장치 설정 패널 컴포넌트
+ */
+export default function DeviceSettings({ onClose, onInputChange }: DeviceSettingsProps) {
+  const dispatch = useDispatch();
+  const { available, audioInputId, videoInputId, audioOutputId } = useSelector((state: RootState) => state.device);
+
+  const microphones = available.filter((device) => device.kind === 'audioinput');
+  const cameras = available.filter((device) => device.kind === 'videoinput');
+  const speakers = available.filter((device) => device.kind === 'audiooutput');
+  const canSelectOutput = deviceService.supportsOutputSelection();
+
+  // 마이크 변경
+  const handleAudioInputChange = (deviceId: string) => {
+    dispatch(selectAudioInput(deviceId));
+    onInputChange('audio', deviceId);
+  };
+
+  // 카메라 변경
+  const handleVideoInputChange = (deviceId: string) => {
+    dispatch(selectVideoInput(deviceId));
+    onInputChange('video', deviceId);
+  };
+
+  const selectClassName =
+    'w-full px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-xl border border-transparent focus:border-indigo-500 focus:outline-none text-sm disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-md mx-4 bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6" onClick={(e) => e.stopPropagation()}>
+        {/* 헤더 */}
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-semibold">장치 설정</h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          {/* 마이크 선택 */}
+          <label className="block">
+            <span className="flex items-center space-x-2 mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+              <MicrophoneIcon className="w-4 h-4 text-indigo-500" />
+              <span>마이크</span>
+            </span>
+            <select value={audioInputId} onChange={(e) => handleAudioInputChange(e.target.value)} className={selectClassName}>
+              <option value="">시스템 기본값</option>
+              {microphones.map((device) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {/* 카메라 선택 */}
+          <label className="block">
+            <span className="flex items-center space-x-2 mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+              <VideoCameraIcon className="w-4 h-4 text-indigo-500" />
+              <span>카메라</span>
+            </span>
+            <select value={videoInputId} onChange={(e) => handleVideoInputChange(e.target.value)} className={selectClassName}>
+              <option value="">시스템 기본값</option>
+              {cameras.map((device) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {/* 스피커 선택 */}
+          <label className="block">
+            <span className="flex items-center space-x-2 mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+              <SpeakerWaveIcon className="w-4 h-4 text-indigo-500" />
+              <span>스피커</span>
+            </span>
+            <select value={audioOutputId} onChange={(e) => dispatch(selectAudioOutput(e.target.value))} className={selectClassName} disabled={!canSelectOutput}>
+              <option value="">시스템 기본값</option>
+              {speakers.map((device) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label}
+                </option>
+              ))}
+            </select>
+            {!canSelectOutput && <span className="block mt-1 text-xs text-gray-500 dark:text-gray-400">이 브라우저는 스피커 선택을 지원하지 않습니다.</span>}
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
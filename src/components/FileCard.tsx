@@ -0,0 +1,111 @@
+/**
+ * FileCard.tsx - 채팅 파일 카드 컴포넌트
+ *
+ * 채팅으로 공유한 파일의 이름, 크기, 전송 진행률을 보여주고
+ * 받기, 일시 정지/재개, 취소, 저장 기능을 제공합니다.
+ */
+import { ArrowDownTrayIcon, DocumentIcon, PauseIcon, PlayIcon, XMarkIcon } from '@heroicons/react/24/solid';
+import type { FileOffer } from '../services/dataChannel';
+import { fileTransferService } from '../services/fileTransfer';
+import type { TransferStatus } from '../services/fileTransfer';
+import { useExternalStore } from '../hooks/useExternalStore';
+
+/**
+ * 파일 카드 Props 인터페이스
+ * @property file - 공유된 파일 정보
+ */
+interface FileCardProps {
+  file: FileOffer;
+}
+
+// 전송 상태별 안내 문구 (보내는 파일 / 받는 파일)
+const STATUS_LABELS: Record<TransferStatus, [string, string]> = {
+  offered: ['공유됨', '받기 전'],
+  transferring: ['보내는 중', '받는 중'],
+  paused: ['일시 정지', '일시 정지'],
+  verifying: ['', '확인 중'],
+  completed: ['', '받기 완료'],
+  failed: ['', '받기 실패'],
+  cancelled: ['공유 취소됨', '취소됨'],
+};
+
+/**
+ * 파일 크기를 읽기 쉬운 단위로 변환
+ * @param bytes - 파일 크기 (bytes)
+ */
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * 채팅 파일 카드
+ * - 회의를 나가 전송 정보가 정리된 파일은 이름과 크기만 표시
+ */
+export default function FileCard({ file }: FileCardProps) {
+  const transfer = useExternalStore(fileTransferService.transfers, (transfers) => transfers[file.transferId]);
+  const isOutgoing = transfer?.direction === 'outgoing';
+  const isActive = transfer?.status === 'transferring' || transfer?.status === 'paused';
+  const canAccept = !isOutgoing && transfer?.available && ['offered', 'failed', 'cancelled'].includes(transfer.status);
+
+  const buttonClass = 'p-1 rounded-full hover:bg-black/10 dark:hover:bg-white/10';
+
+  return (
+    <div className="w-56 max-w-full">
+      <div className="flex items-center space-x-2">
+        <DocumentIcon className="w-8 h-8 flex-shrink-0 opacity-80" />
+        <div className="min-w-0 flex-1">
+          <div className="truncate font-medium" title={file.name}>
+            {file.name}
+          </div>
+          <div className="text-[10px] sm:text-xs opacity-70">
+            {formatSize(file.size)}
+            {transfer && STATUS_LABELS[transfer.status][isOutgoing ? 0 : 1] && ` · ${STATUS_LABELS[transfer.status][isOutgoing ? 0 : 1]}`}
+            {isOutgoing && transfer.recipients > 0 && ` · ${transfer.recipients}명 받음`}
+          </div>
+        </div>
+
+        {/* 받기 / 저장 */}
+        {canAccept && (
+          <button onClick={() => fileTransferService.accept(file.transferId)} className={buttonClass} title={transfer.status === 'offered' ? '받기' : '다시 받기'}>
+            <ArrowDownTrayIcon className="w-4 h-4" />
+          </button>
+        )}
+        {transfer?.url && (isOutgoing ? transfer.status !== 'cancelled' : transfer.status === 'completed') && (
+          <a href={transfer.url} download={file.name} className={buttonClass} title="저장">
+            <ArrowDownTrayIcon className="w-4 h-4" />
+          </a>
+        )}
+
+        {/* 일시 정지 / 재개 */}
+        {isActive && (
+          <button
+            onClick={() => (transfer.status === 'paused' ? fileTransferService.resume(file.transferId) : fileTransferService.pause(file.transferId))}
+            className={buttonClass}
+            title={transfer.status === 'paused' ? '재개' : '일시 정지'}
+          >
+            {transfer.status === 'paused' ? <PlayIcon className="w-4 h-4" /> : <PauseIcon className="w-4 h-4" />}
+          </button>
+        )}
+
+        {/* 취소 (보내는 파일은 전송 중이 아니어도 공유 취소 가능) */}
+        {(isActive || (isOutgoing && transfer.status !== 'cancelled')) && (
+          <button onClick={() => fileTransferService.cancel(file.transferId)} className={buttonClass} title={isOutgoing ? '공유 취소' : '받기 취소'}>
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {/* 진행률 */}
+      {(isActive || transfer?.status === 'verifying') && (
+        <div className="mt-1.5 h-1 rounded-full bg-black/10 dark:bg-white/20 overflow-hidden">
+          <div className="h-full bg-current transition-all" style={{ width: `${Math.round(transfer.progress * 100)}%` }} />
+        </div>
+      )}
+
+      {/* 실패 또는 취소 사유 */}
+      {transfer?.error && <div className="mt-1 text-[10px] sm:text-xs opacity-80">{transfer.error}</div>}
+    </div>
+  );
+}
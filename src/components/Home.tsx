@@ -8,7 +8,7 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
 import { setUserInfo } from '../store/slices/userSlice';
-import { setRoomId } from '../store/slices/roomSlice';
+import { setCreatingRoom, setRoomId } from '../store/slices/roomSlice';
 import { v4 as uuidv4 } from 'uuid'; // 고유 ID 생성을 위한 UUID 라이브러리
 import { VideoCameraIcon, UserCircleIcon } from '@heroicons/react/24/solid';
 import { RootState } from '../store';
@@ -68,10 +68,10 @@ export default function Home() {
   useEffect(() => {
     // localStorage에서 마지막 접속 방 ID 확인
     const lastRoomId = localStorage.getItem('lastRoomId');
-    // 로그인 상태이고 마지막 방 ID가 있으면 해당 방으로 이동
+    // 로그인 상태이고 마지막 방 ID가 있으면 해당 방의 입장 전 화면으로 이동
     if (isLoggedIn && lastRoomId) {
       dispatch(setRoomId(lastRoomId));
-      navigate(`/room/${lastRoomId}`);
+      navigate(`/room/${lastRoomId}/lobby`);
     }
     // 저장된 닉네임이 있으면 입력 필드에 자동 설정
     if (savedNickname) {
@@ -118,12 +118,14 @@ export default function Home() {
       // 사용자 정보 Redux 저장
       dispatch(setUserInfo({ nickname, userId }));
       dispatch(setRoomId(roomId));
+      // 새 회의를 만든 경우 입장 시 호스트가 됨
+      dispatch(setCreatingRoom(isCreating));
 
       // 마지막 방 ID 저장 (자동 재접속용)
       localStorage.setItem('lastRoomId', roomId);
 
-      // 방 페이지로 이동
-      navigate(`/room/${roomId}`);
+      // 입장 전 장치 점검 화면으로 이동
+      navigate(`/room/${roomId}/lobby`);
     } catch (err) {
       console.error('방 생성/참가 오류:', err);
       setError('방을 생성하거나 참가하는 중 오류가 발생했습니다. 다시 시도해주세요.');
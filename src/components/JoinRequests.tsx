@@ -0,0 +1,57 @@
+/**
+ * JoinRequests.tsx - 입장 요청 알림 컴포넌트
+ *
+ * 대기실이 켜진 방에서 호스트에게 입장을 기다리는 사용자 목록을 보여주고
+ * 승인/거절/모두 승인을 요청할 수 있게 합니다.
+ */
+import { useSelector } from 'react-redux';
+import { RootState } from '../store';
+import { socketService } from '../services/socket';
+
+/**
+ * 입장 요청 알림 Props 인터페이스
+ * @property roomId - 현재 방 ID
+ */
+interface JoinRequestsProps {
+  roomId: string;
+}
+
+/**
+ * 입장 요청 알림 패널
+ * - 대기 중인 사용자가 없으면 렌더링하지 않음
+ */
+export default function JoinRequests({ roomId }: JoinRequestsProps) {
+  const { pendingParticipants } = useSelector((state: RootState) => state.room);
+
+  if (pendingParticipants.length === 0) return null;
+
+  return (
+    <div className="fixed top-20 right-4 z-50 w-72 space-y-2">
+      {pendingParticipants.map(({ userId, nickname }) => (
+        <div key={userId} className="p-3 bg-white dark:bg-gray-800 rounded-xl shadow-lg">
+          <p className="text-sm mb-2">
+            <span className="font-medium">{nickname}</span>님이 참가를 요청했습니다.
+          </p>
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => socketService.moderate('deny-participant', roomId, userId)}
+              className="px-3 py-1 text-sm rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              거절
+            </button>
+            <button onClick={() => socketService.moderate('admit-participant', roomId, userId)} className="px-3 py-1 text-sm rounded-lg bg-indigo-500 hover:bg-indigo-600 text-white">
+              수락
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {/* 여러 명이 기다리는 경우 모두 수락 */}
+      {pendingParticipants.length > 1 && (
+        <button onClick={() => socketService.admitAll(roomId)} className="w-full py-2 text-sm rounded-xl bg-indigo-500 hover:bg-indigo-600 text-white shadow-lg">
+          모두 수락 ({pendingParticipants.length}명)
+        </button>
+      )}
+    </div>
+  );
+}
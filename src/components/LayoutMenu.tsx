@@ -0,0 +1,91 @@
+/**
+ * LayoutMenu.tsx - 레이아웃 선택 컴포넌트
+ *
+ * 제어 바의 레이아웃 버튼을 누르면 레이아웃 종류와 페이지당 타일 수, PIP 자동 열기 여부를 선택할 수 있습니다.
+ * 호스트가 스포트라이트를 지정한 동안에는 선택한 레이아웃 대신 스포트라이트 레이아웃이 적용됩니다.
+ */
+import { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { PresentationChartLineIcon, Squares2X2Icon, UserIcon, ViewColumnsIcon } from '@heroicons/react/24/solid';
+import { AppDispatch, RootState } from '../store';
+import { setAutoPictureInPicture, setLayoutMode, setTilesPerPage, TILES_PER_PAGE_OPTIONS } from '../store/slices/layoutSlice';
+import { pictureInPictureService } from '../services/pictureInPicture';
+import type { LayoutMode } from '../store/slices/layoutSlice';
+
+// 레이아웃 종류별 표시 이름과 아이콘
+const LAYOUT_OPTIONS: { mode: LayoutMode; label: string; description: string; Icon: typeof Squares2X2Icon }[] = [
+  { mode: 'gallery', label: '갤러리', description: '모든 참가자를 같은 크기로', Icon: Squares2X2Icon },
+  { mode: 'speaker', label: '스피커', description: '말하는 사람을 크게', Icon: UserIcon },
+  { mode: 'sidebar', label: '사이드바', description: '말하는 사람과 오른쪽 목록', Icon: ViewColumnsIcon },
+  { mode: 'presentation', label: '프레젠테이션', description: '화면 공유를 크게', Icon: PresentationChartLineIcon },
+];
+
+/**
+ * 레이아웃 버튼 및 선택 팝오버
+ */
+export default function LayoutMenu() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { mode, tilesPerPage, autoPictureInPicture } = useSelector((state: RootState) => state.layout);
+  const { spotlightId } = useSelector((state: RootState) => state.room);
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-4 rounded-xl transition-all ${isOpen ? 'bg-indigo-500 hover:bg-indigo-600 text-white' : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'}`}
+        title="레이아웃 변경"
+      >
+        <Squares2X2Icon className={`w-6 h-6 ${isOpen ? 'text-white' : 'text-indigo-500'}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 z-20 w-64 p-2 bg-white dark:bg-gray-800 rounded-xl shadow-lg text-sm">
+          {spotlightId && <p className="mb-2 px-3 py-2 rounded-lg bg-indigo-50 dark:bg-indigo-500/20 text-xs text-indigo-600 dark:text-indigo-300">호스트가 스포트라이트를 해제하면 선택한 레이아웃으로 돌아갑니다.</p>}
+          {LAYOUT_OPTIONS.map(({ mode: option, label, description, Icon }) => (
+            <button
+              key={option}
+              onClick={() => {
+                dispatch(setLayoutMode(option));
+                setIsOpen(false);
+              }}
+              className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-left ${
+                mode === option ? 'bg-indigo-50 dark:bg-indigo-500/20 text-indigo-600 dark:text-indigo-300' : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              <Icon className="w-5 h-5 shrink-0" />
+              <span>
+                <span className="block font-medium">{label}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{description}</span>
+              </span>
+            </button>
+          ))}
+
+          {/* 페이지당 타일 수 */}
+          <div className="mt-2 pt-2 px-3 border-t border-gray-200 dark:border-gray-700">
+            <span className="block mb-1 text-xs text-gray-500 dark:text-gray-400">페이지당 타일 수</span>
+            <div className="flex space-x-1">
+              {TILES_PER_PAGE_OPTIONS.map((count) => (
+                <button
+                  key={count}
+                  onClick={() => dispatch(setTilesPerPage(count))}
+                  className={`flex-1 py-1 rounded-md ${tilesPerPage === count ? 'bg-indigo-500 text-white' : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'}`}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* PIP 자동 열기 (지원하는 브라우저만) */}
+          {pictureInPictureService.isSupported() && (
+            <label className="mt-2 pt-2 px-3 flex items-center space-x-2 border-t border-gray-200 dark:border-gray-700 text-xs cursor-pointer">
+              <input type="checkbox" checked={autoPictureInPicture} onChange={(event) => dispatch(setAutoPictureInPicture(event.target.checked))} className="accent-indigo-500" />
+              <span>다른 탭으로 이동하면 PIP로 보기</span>
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
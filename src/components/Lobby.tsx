@@ -0,0 +1,296 @@
+/**
+ * Lobby.tsx - 회의 입장 전 대기 화면 컴포넌트
+ *
+ * 회의실에 들어가기 전에 카메라 미리보기, 마이크 입력 레벨, 스피커 테스트를 제공하고
+ * 마이크/카메라를 켠 상태로 입장할지 선택할 수 있는 화면입니다.
+ */
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState } from '../store';
+import {
+  VideoCameraIcon, // 카메라 켜기 아이콘
+  VideoCameraSlashIcon, // 카메라 끄기 아이콘
+  MicrophoneIcon, // 마이크 켜기 아이콘
+  SpeakerXMarkIcon, // 마이크 끄기 아이콘
+  SpeakerWaveIcon, // 스피커 테스트 아이콘
+  ArrowLeftIcon, // 뒤로가기 아이콘
+  Cog6ToothIcon, // 장치 설정 아이콘
+} from '@heroicons/react/24/solid';
+import toast from 'react-hot-toast';
+import DeviceSettings from './DeviceSettings';
+import type { RoomLocationState } from './Room';
+import { setAudioEnabled, setVideoEnabled } from '../store/slices/mediaSlice';
+import { setAvailableDevices } from '../store/slices/deviceSlice';
+import { deviceService } from '../services/devices';
+import { AudioLevelMeter } from '../services/audioLevel';
+
+/**
+ * Lobby 컴포넌트: 입장 전 장치 점검 화면
+ * - 카메라 미리보기 및 마이크 레벨 미터
+ * - 스피커 테스트 사운드 재생
+ * - 마이크/카메라 초기 상태 선택 후 회의실 입장
+ */
+export default function Lobby() {
+  const { roomId } = useParams<{ roomId: string }>();
+  const navigate = useNavigate();
+  const dispatch = useDispatch();
+
+  // Redux 상태 가져오기
+  const { nickname, isLoggedIn } = useSelector((state: RootState) => state.user);
+  const { isAudioEnabled, isVideoEnabled } = useSelector((state: RootState) => state.media);
+  const { available: availableDevices, audioInputId, videoInputId, audioOutputId } = useSelector((state: RootState) => state.device);
+
+  // 로컬 상태 관리
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null); // 미리보기 스트림
+  const [micLevel, setMicLevel] = useState(0); // 마이크 입력 레벨 (0~1)
+  const [isTestingSpeaker, setIsTestingSpeaker] = useState(false); // 스피커 테스트 중 여부
+  const [showDeviceSettings, setShowDeviceSettings] = useState(false); // 장치 설정 패널 표시 여부
+
+  // 언마운트 시 정리할 미리보기 스트림 참조
+  const previewStreamRef = useRef<MediaStream | null>(null);
+
+  // 선택한 스피커가 분리된 경우 시스템 기본 장치로 출력
+  const outputDeviceId = availableDevices.some((device) => device.kind === 'audiooutput' && device.deviceId === audioOutputId) ? audioOutputId : '';
+
+  // 로그인 상태 확인 - 로그인되지 않은 경우 홈으로 리다이렉트
+  useEffect(() => {
+    if (!isLoggedIn) navigate('/');
+  }, [isLoggedIn, navigate]);
+
+  // 선택한 장치로 미리보기 스트림 획득 (장치가 바뀌면 다시 획득)
+  useEffect(() => {
+    let cancelled = false;
+
+    const startPreview = async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: deviceService.getConstraints('video', videoInputId),
+          audio: deviceService.getConstraints('audio', audioInputId),
+        });
+
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        previewStreamRef.current?.getTracks().forEach((track) => track.stop());
+        previewStreamRef.current = stream;
+        setPreviewStream(stream);
+
+        // 권한을 얻은 뒤 장치 이름을 포함한 목록 갱신
+        dispatch(setAvailableDevices(await deviceService.listDevices()));
+      } catch (error) {
+        console.error('미리보기 장치 접근 오류:', error);
+        if (!cancelled) {
+          toast.error('카메라나 마이크에 접근할 수 없습니다. 장치와 브라우저 권한을 확인하세요.');
+        }
+      }
+    };
+
+    startPreview();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audioInputId, videoInputId, dispatch]);
+
+  // 언마운트 시 미리보기 트랙 중지
+  useEffect(() => {
+    return () => {
+      previewStreamRef.current?.getTracks().forEach((track) => track.stop());
+      previewStreamRef.current = null;
+    };
+  }, []);
+
+  // 마이크/카메라 켜짐 상태를 미리보기 트랙에 반영
+  useEffect(() => {
+    previewStream?.getAudioTracks().forEach((track) => (track.enabled = isAudioEnabled));
+    previewStream?.getVideoTracks().forEach((track) => (track.enabled = isVideoEnabled));
+  }, [previewStream, isAudioEnabled, isVideoEnabled]);
+
+  // 마이크 입력 레벨 측정
+  useEffect(() => {
+    if (!previewStream || previewStream.getAudioTracks().length === 0) return;
+
+    const meter = new AudioLevelMeter(previewStream);
+    let frameId = 0;
+
+    const update = () => {
+      setMicLevel(meter.getLevel());
+      frameId = requestAnimationFrame(update);
+    };
+    frameId = requestAnimationFrame(update);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      meter.close();
+      setMicLevel(0);
+    };
+  }, [previewStream]);
+
+  /**
+   * 스피커 테스트 사운드 재생
+   * 선택한 출력 장치로 짧은 알림음을 재생합니다.
+   */
+  const playTestSound = async () => {
+    if (isTestingSpeaker) return;
+    setIsTestingSpeaker(true);
+
+    const context = new AudioContext();
+    try {
+      const destination = context.createMediaStreamDestination();
+      const gain = context.createGain();
+      gain.gain.value = 0.2;
+      gain.connect(destination);
+
+      // 두 음(도-솔)으로 구성된 알림음
+      [523.25, 783.99].forEach((frequency, index) => {
+        const oscillator = context.createOscillator();
+        oscillator.frequency.value = frequency;
+        oscillator.connect(gain);
+        oscillator.start(context.currentTime + index * 0.4);
+        oscillator.stop(context.currentTime + index * 0.4 + 0.35);
+      });
+
+      // 출력 장치를 지정하기 위해 audio 요소로 재생
+      const audio = new Audio();
+      audio.srcObject = destination.stream;
+      deviceService.applyOutputDevice(audio, outputDeviceId);
+      await audio.play();
+
+      await new Promise((resolve) => setTimeout(resolve, 900));
+      audio.pause();
+    } catch (error) {
+      console.error('스피커 테스트 실패:', error);
+      toast.error('테스트 사운드를 재생할 수 없습니다.');
+    } finally {
+      context.close().catch(() => {});
+      setIsTestingSpeaker(false);
+    }
+  };
+
+  /**
+   * 회의실 입장 함수
+   * 선택한 마이크/카메라 상태는 Redux에 저장되어 회의실의 초기 상태로 사용됩니다.
+   */
+  const handleJoin = () => {
+    previewStreamRef.current?.getTracks().forEach((track) => track.stop());
+    previewStreamRef.current = null;
+    navigate(`/room/${roomId}`, { state: { fromLobby: true } satisfies RoomLocationState });
+  };
+
+  // 로그인되지 않은 경우 렌더링하지 않음
+  if (!isLoggedIn) return null;
+
+  const hasVideo = !!previewStream && previewStream.getVideoTracks().length > 0;
+
+  return (
+    <div className="h-full min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center p-4 text-gray-900 dark:text-white">
+      <div className="w-full max-w-2xl bg-white/70 dark:bg-gray-800/70 backdrop-blur-lg rounded-2xl shadow-xl p-6 sm:p-8 border border-gray-200 dark:border-gray-700">
+        {/* 헤더 */}
+        <div className="flex items-center mb-6">
+          <button onClick={() => navigate('/')} className="mr-2 p-2 rounded-xl hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors" title="홈으로">
+            <ArrowLeftIcon className="w-5 h-5" />
+          </button>
+          <div className="min-w-0">
+            <h1 className="text-xl font-semibold">입장 준비</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400 truncate">Room: {roomId}</p>
+          </div>
+        </div>
+
+        {/* 카메라 미리보기 */}
+        <div className="relative rounded-2xl overflow-hidden bg-gray-200 dark:bg-gray-700 shadow-lg aspect-video w-full">
+          <video
+            ref={(video) => {
+              if (video && previewStream && video.srcObject !== previewStream) {
+                video.srcObject = previewStream;
+              }
+            }}
+            autoPlay
+            playsInline
+            muted
+            className="w-full h-full object-cover -scale-x-100"
+          />
+
+          {(!isVideoEnabled || !hasVideo) && (
+            <div className="absolute inset-0 flex items-center justify-center bg-gray-800/80 backdrop-blur-sm">
+              <div className="text-center">
+                <div className="w-20 h-20 mx-auto mb-2 rounded-full bg-gray-700 flex items-center justify-center">
+                  <span className="text-2xl font-bold text-white">{nickname.substring(0, 1)}</span>
+                </div>
+                <span className="text-white font-medium px-4 py-2 rounded-lg bg-gray-900/50">카메라 꺼짐</span>
+              </div>
+            </div>
+          )}
+
+          <div className="absolute bottom-4 left-4 px-4 py-2 bg-black/50 backdrop-blur-md rounded-xl">
+            <span className="text-sm text-white font-medium">{nickname}</span>
+          </div>
+        </div>
+
+        {/* 마이크 레벨 미터 */}
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-2 text-sm text-gray-600 dark:text-gray-300">
+            <span>마이크 입력</span>
+            {!isAudioEnabled && <span className="text-red-500">음소거 상태로 입장합니다</span>}
+          </div>
+          <div className="h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+            <div className="h-full bg-green-500 transition-[width] duration-75" style={{ width: `${isAudioEnabled ? Math.round(micLevel * 100) : 0}%` }} />
+          </div>
+        </div>
+
+        {/* 장치 제어 버튼 */}
+        <div className="mt-6 flex flex-wrap justify-center gap-3">
+          <button
+            onClick={() => dispatch(setAudioEnabled(!isAudioEnabled))}
+            className={`p-4 rounded-xl transition-all ${
+              isAudioEnabled ? 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600' : 'bg-red-500 hover:bg-red-600 text-white'
+            }`}
+            title={isAudioEnabled ? '마이크 끄고 입장' : '마이크 켜고 입장'}
+          >
+            {isAudioEnabled ? <MicrophoneIcon className="w-6 h-6 text-blue-500" /> : <SpeakerXMarkIcon className="w-6 h-6 text-blue-500" />}
+          </button>
+
+          <button
+            onClick={() => dispatch(setVideoEnabled(!isVideoEnabled))}
+            className={`p-4 rounded-xl transition-all ${
+              isVideoEnabled ? 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600' : 'bg-red-500 hover:bg-red-600 text-white'
+            }`}
+            title={isVideoEnabled ? '카메라 끄고 입장' : '카메라 켜고 입장'}
+          >
+            {isVideoEnabled ? <VideoCameraIcon className="w-6 h-6 text-blue-500" /> : <VideoCameraSlashIcon className="w-6 h-6 text-blue-500" />}
+          </button>
+
+          <button
+            onClick={playTestSound}
+            disabled={isTestingSpeaker}
+            className="p-4 rounded-xl transition-all bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+            title="스피커 테스트"
+          >
+            <SpeakerWaveIcon className="w-6 h-6 text-indigo-500" />
+          </button>
+
+          <button
+            onClick={() => setShowDeviceSettings(true)}
+            className="p-4 rounded-xl transition-all bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+            title="장치 설정"
+          >
+            <Cog6ToothIcon className="w-6 h-6 text-indigo-500" />
+          </button>
+        </div>
+
+        {/* 입장 버튼 */}
+        <button
+          onClick={handleJoin}
+          className="mt-6 w-full px-4 py-3 bg-indigo-500 hover:bg-indigo-600 text-white rounded-xl font-medium transition-all focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+        >
+          회의 참가하기
+        </button>
+      </div>
+
+      {/* 장치 설정 패널 (장치 선택이 바뀌면 미리보기 effect가 스트림을 다시 획득) */}
+      {showDeviceSettings && <DeviceSettings onClose={() => setShowDeviceSettings(false)} onInputChange={() => {}} />}
+    </div>
+  );
+}
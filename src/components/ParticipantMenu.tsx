@@ -0,0 +1,81 @@
+/**
+ * ParticipantMenu.tsx - 참가자 관리 메뉴 컴포넌트
+ *
+ * 호스트가 원격 참가자 타일에서 음소거, 카메라 끄기, 스포트라이트, 호스트 넘기기, 내보내기를 요청할 수 있는 메뉴입니다.
+ * 실제 권한 확인은 서버에서 수행합니다.
+ */
+import { useState } from 'react';
+import { EllipsisVerticalIcon } from '@heroicons/react/24/solid';
+
+/**
+ * 참가자 관리 메뉴 Props 인터페이스
+ * @property nickname - 대상 참가자 닉네임
+ * @property onMute - 음소거 요청 핸들러
+ * @property onDisableCamera - 카메라 끄기 요청 핸들러
+ * @property isSpotlighted - 대상 참가자가 스포트라이트 중인지 여부
+ * @property onToggleSpotlight - 모두에게 스포트라이트 지정/해제 핸들러
+ * @property onTransferHost - 호스트 넘기기 핸들러
+ * @property onRemove - 내보내기 핸들러
+ */
+interface ParticipantMenuProps {
+  nickname: string;
+  onMute: () => void;
+  onDisableCamera: () => void;
+  isSpotlighted: boolean;
+  onToggleSpotlight: () => void;
+  onTransferHost: () => void;
+  onRemove: () => void;
+}
+
+/**
+ * 참가자 관리 메뉴
+ * - 되돌릴 수 없는 작업(호스트 넘기기, 내보내기)은 확인 후 실행
+ */
+export default function ParticipantMenu({ nickname, onMute, onDisableCamera, isSpotlighted, onToggleSpotlight, onTransferHost, onRemove }: ParticipantMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // 메뉴 항목 실행 후 메뉴 닫기
+  const runAction = (action: () => void, confirmMessage?: string) => {
+    setIsOpen(false);
+    if (confirmMessage && !window.confirm(confirmMessage)) return;
+    action();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 bg-black/60 hover:bg-black/80 text-white rounded-full backdrop-blur-sm transition-colors"
+        title="참가자 관리"
+      >
+        <EllipsisVerticalIcon className="h-5 w-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-40 py-1 bg-white dark:bg-gray-800 rounded-lg shadow-lg text-sm">
+          <button onClick={() => runAction(onMute)} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700">
+            음소거
+          </button>
+          <button onClick={() => runAction(onDisableCamera)} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700">
+            카메라 끄기
+          </button>
+          <button onClick={() => runAction(onToggleSpotlight)} className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700">
+            {isSpotlighted ? '스포트라이트 해제' : '모두에게 스포트라이트'}
+          </button>
+          <button
+            onClick={() => runAction(onTransferHost, `${nickname}님에게 호스트 권한을 넘기시겠습니까?`)}
+            className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            호스트 넘기기
+          </button>
+          <button
+            onClick={() => runAction(onRemove, `${nickname}님을 회의에서 내보내시겠습니까?`)}
+            className="w-full text-left px-3 py-2 text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            내보내기
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
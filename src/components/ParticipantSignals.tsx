@@ -0,0 +1,54 @@
+/**
+ * ParticipantSignals.tsx - 참가자 타일의 손 들기 및 이모지 반응 표시 컴포넌트
+ *
+ * 손 든 참가자에게는 대기열 순번이 적힌 손 아이콘을, 보낸 이모지 반응은 타일 위로 떠오르는 애니메이션으로 표시합니다.
+ */
+import { useSelector } from 'react-redux';
+import { HandRaisedIcon } from '@heroicons/react/24/solid';
+import { RootState } from '../store';
+
+/**
+ * 참가자 신호 표시 Props 인터페이스
+ * @property userId - 타일의 사용자 ID
+ */
+interface ParticipantSignalsProps {
+  userId: string;
+}
+
+/**
+ * 반응 ID로 가로 위치 결정 (여러 반응이 겹치지 않도록 타일 아래쪽에 흩어 놓음)
+ */
+const getReactionOffset = (id: string) => {
+  let hash = 0;
+  for (const char of id) hash = (hash * 31 + char.charCodeAt(0)) % 1000;
+  return 20 + (hash % 60);
+};
+
+/**
+ * 손 들기 순번 및 떠오르는 이모지 반응
+ */
+export default function ParticipantSignals({ userId }: ParticipantSignalsProps) {
+  const { raisedHands, reactions } = useSelector((state: RootState) => state.reaction);
+
+  const handPosition = raisedHands.findIndex((hand) => hand.userId === userId);
+  const userReactions = reactions.filter((reaction) => reaction.userId === userId);
+
+  return (
+    <>
+      {/* 손 들기 표시 (대기열 순번) */}
+      {handPosition !== -1 && (
+        <div className="absolute bottom-4 right-4 flex items-center space-x-1 px-3 py-2 bg-yellow-400 text-gray-900 rounded-xl shadow-lg" title="손을 들었습니다">
+          <HandRaisedIcon className="w-5 h-5" />
+          <span className="text-sm font-semibold">{handPosition + 1}</span>
+        </div>
+      )}
+
+      {/* 떠오르는 이모지 반응 */}
+      {userReactions.map(({ id, emoji }) => (
+        <span key={id} className="absolute bottom-12 text-4xl pointer-events-none animate-float-up" style={{ left: `${getReactionOffset(id)}%` }}>
+          {emoji}
+        </span>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * PasscodeDialog.tsx - 회의 비밀번호 입력 대화상자 컴포넌트
+ *
+ * 비밀번호가 걸린 회의에 입장할 때와 호스트가 회의 비밀번호를 설정할 때 함께 사용합니다.
+ */
+import { useState } from 'react';
+import { KeyIcon, XMarkIcon } from '@heroicons/react/24/solid';
+
+/**
+ * 비밀번호 대화상자 Props 인터페이스
+ * @property title - 대화상자 제목
+ * @property description - 안내 문구
+ * @property submitLabel - 확인 버튼 문구
+ * @property error - 표시할 오류 메시지 (틀린 비밀번호 등)
+ * @property onSubmit - 비밀번호 입력 완료 핸들러
+ * @property onCancel - 취소 핸들러
+ * @property onClear - 비밀번호 해제 핸들러 (지정하면 해제 버튼 표시)
+ */
+interface PasscodeDialogProps {
+  title: string;
+  description: string;
+  submitLabel: string;
+  error?: string | null;
+  onSubmit: (passcode: string) => void;
+  onCancel: () => void;
+  onClear?: () => void;
+}
+
+// 서버와 같은 비밀번호 길이 제한
+const PASSCODE_MIN_LENGTH = 4;
+const PASSCODE_MAX_LENGTH = 64;
+
+/**
+ * 비밀번호 입력 대화상자
+ */
+export default function PasscodeDialog({ title, description, submitLabel, error, onSubmit, onCancel, onClear }: PasscodeDialogProps) {
+  const [passcode, setPasscode] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passcode.length < PASSCODE_MIN_LENGTH) return;
+    onSubmit(passcode);
+    setPasscode('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm mx-4 bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6">
+        {/* 헤더 */}
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center space-x-2 text-lg font-semibold">
+            <KeyIcon className="w-5 h-5 text-indigo-500" />
+            <span>{title}</span>
+          </h2>
+          <button type="button" onClick={onCancel} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">{description}</p>
+
+        <input
+          type="password"
+          value={passcode}
+          onChange={(e) => setPasscode(e.target.value)}
+          minLength={PASSCODE_MIN_LENGTH}
+          maxLength={PASSCODE_MAX_LENGTH}
+          placeholder={`비밀번호 (${PASSCODE_MIN_LENGTH}자 이상)`}
+          autoFocus
+          className="w-full px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-xl border border-transparent focus:border-indigo-500 focus:outline-none"
+        />
+        {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+
+        <div className="flex justify-end space-x-2 mt-6">
+          {onClear && (
+            <button type="button" onClick={onClear} className="mr-auto px-4 py-2 text-sm rounded-xl text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700">
+              비밀번호 해제
+            </button>
+          )}
+          <button type="button" onClick={onCancel} className="px-4 py-2 text-sm rounded-xl bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600">
+            취소
+          </button>
+          <button
+            type="submit"
+            disabled={passcode.length < PASSCODE_MIN_LENGTH}
+            className="px-4 py-2 text-sm rounded-xl bg-indigo-500 hover:bg-indigo-600 text-white disabled:opacity-50"
+          >
+            {submitLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * PictureInPictureView.tsx - PIP 창 화면 컴포넌트
+ *
+ * Document PIP 창에 참가자 미니 그리드와 마이크, 카메라, 나가기 버튼을 그립니다.
+ * 음성은 회의 화면의 타일에서 재생되므로 PIP 창의 영상은 모두 음소거합니다.
+ */
+import { createPortal } from 'react-dom';
+import { ArrowLeftIcon, MicrophoneIcon, SpeakerXMarkIcon, VideoCameraIcon, VideoCameraSlashIcon } from '@heroicons/react/24/solid';
+
+/**
+ * PIP 창에 표시할 참가자 타일
+ * @property id - 참가자 ID
+ * @property label - 표시할 이름
+ * @property stream - 카메라 스트림 (없으면 이름 첫 글자 표시)
+ * @property videoEnabled - 카메라가 켜져 있는지 여부
+ * @property isSpeaking - 말하는 중인지 여부
+ */
+export interface PictureInPictureTile {
+  id: string;
+  label: string;
+  stream: MediaStream | null;
+  videoEnabled: boolean;
+  isSpeaking: boolean;
+}
+
+/**
+ * PIP 창 화면 Props 인터페이스
+ * @property pipWindow - Document PIP 창
+ * @property tiles - 표시할 참가자 타일 (말하는 참가자 우선)
+ * @property isAudioEnabled - 내 마이크가 켜져 있는지 여부
+ * @property isVideoEnabled - 내 카메라가 켜져 있는지 여부
+ * @property onToggleMicrophone - 마이크 켜기/끄기 핸들러
+ * @property onToggleCamera - 카메라 켜기/끄기 핸들러
+ * @property onLeave - 회의 나가기 핸들러
+ */
+interface PictureInPictureViewProps {
+  pipWindow: Window;
+  tiles: PictureInPictureTile[];
+  isAudioEnabled: boolean;
+  isVideoEnabled: boolean;
+  onToggleMicrophone: () => void;
+  onToggleCamera: () => void;
+  onLeave: () => void;
+}
+
+// PIP 창에 표시할 최대 타일 수 (작은 창에서도 알아볼 수 있도록 2x2까지)
+const MAX_TILES = 4;
+
+/**
+ * PIP 창 화면 (PIP 창 문서의 body에 포털로 렌더링)
+ */
+export default function PictureInPictureView({ pipWindow, tiles, isAudioEnabled, isVideoEnabled, onToggleMicrophone, onToggleCamera, onLeave }: PictureInPictureViewProps) {
+  const visibleTiles = tiles.slice(0, MAX_TILES);
+  const columns = visibleTiles.length > 1 ? 2 : 1;
+
+  return createPortal(
+    <div className="h-screen w-full flex flex-col bg-gray-900 text-white select-none">
+      {/* 참가자 미니 그리드 */}
+      <div className="flex-1 min-h-0 grid gap-1 p-1" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+        {visibleTiles.map((tile) => (
+          <div key={tile.id} className={`relative min-h-0 rounded-lg overflow-hidden bg-gray-800 ${tile.isSpeaking ? 'ring-2 ring-green-400' : ''}`}>
+            {tile.stream && tile.videoEnabled ? (
+              <video
+                ref={(video) => {
+                  if (video && video.srcObject !== tile.stream) video.srcObject = tile.stream;
+                }}
+                autoPlay
+                playsInline
+                muted
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center">
+                <span className="w-10 h-10 rounded-full bg-gray-700 flex items-center justify-center text-lg font-bold">{tile.label.substring(0, 1)}</span>
+              </div>
+            )}
+            <span className="absolute bottom-1 left-1 max-w-[90%] truncate px-2 py-0.5 rounded bg-black/50 text-xs">{tile.label}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* 제어 버튼 */}
+      <div className="flex justify-center space-x-2 p-2 bg-gray-800">
+        <button
+          onClick={onToggleMicrophone}
+          className={`p-2 rounded-lg ${isAudioEnabled ? 'bg-gray-700 hover:bg-gray-600' : 'bg-red-500 hover:bg-red-600'}`}
+          title={isAudioEnabled ? '마이크 끄기' : '마이크 켜기'}
+        >
+          {isAudioEnabled ? <MicrophoneIcon className="w-5 h-5" /> : <SpeakerXMarkIcon className="w-5 h-5" />}
+        </button>
+        <button
+          onClick={onToggleCamera}
+          className={`p-2 rounded-lg ${isVideoEnabled ? 'bg-gray-700 hover:bg-gray-600' : 'bg-red-500 hover:bg-red-600'}`}
+          title={isVideoEnabled ? '카메라 끄기' : '카메라 켜기'}
+        >
+          {isVideoEnabled ? <VideoCameraIcon className="w-5 h-5" /> : <VideoCameraSlashIcon className="w-5 h-5" />}
+        </button>
+        <button onClick={onLeave} className="p-2 rounded-lg bg-red-500 hover:bg-red-600" title="회의 나가기">
+          <ArrowLeftIcon className="w-5 h-5" />
+        </button>
+      </div>
+    </div>,
+    pipWindow.document.body
+  );
+}
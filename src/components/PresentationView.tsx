@@ -0,0 +1,72 @@
+/**
+ * PresentationView.tsx - 화면 공유 프레젠테이션 타일 컴포넌트
+ *
+ * 화면 공유 스트림을 크게 표시하고, 발표자의 카메라 영상을 작은 썸네일로 겹쳐 보여줍니다.
+ */
+import { ComputerDesktopIcon } from '@heroicons/react/24/solid';
+
+/**
+ * 프레젠테이션 타일 Props 인터페이스
+ * @property screenStream - 화면 공유 스트림
+ * @property cameraStream - 발표자의 카메라 스트림 (없으면 썸네일 생략)
+ * @property presenterName - 발표자 닉네임
+ * @property isLocal - 내가 공유 중인 화면인지 여부
+ * @property onDoubleClick - 비디오 더블클릭 핸들러 (전체화면 전환)
+ */
+interface PresentationViewProps {
+  screenStream: MediaStream;
+  cameraStream: MediaStream | null;
+  presenterName: string;
+  isLocal: boolean;
+  onDoubleClick?: (event: React.MouseEvent<HTMLVideoElement>) => void;
+}
+
+/**
+ * 화면 공유 프레젠테이션 타일
+ * - 화면 공유 영상은 원본 비율(contain)로 표시
+ * - 발표자 카메라 영상은 오른쪽 아래 썸네일로 표시 (음성은 그리드 타일에서 재생되므로 음소거)
+ */
+export default function PresentationView({ screenStream, cameraStream, presenterName, isLocal, onDoubleClick }: PresentationViewProps) {
+  const hasCamera = !!cameraStream && cameraStream.getVideoTracks().some((track) => track.enabled);
+
+  return (
+    <div className="relative w-full aspect-video max-h-[70vh] rounded-xl sm:rounded-2xl overflow-hidden bg-black shadow-lg mb-2 sm:mb-4">
+      {/* 화면 공유 영상 */}
+      <video
+        ref={(video) => {
+          if (video && video.srcObject !== screenStream) {
+            video.srcObject = screenStream;
+          }
+        }}
+        autoPlay
+        playsInline
+        muted
+        className="w-full h-full object-contain"
+        onDoubleClick={onDoubleClick}
+      />
+
+      {/* 발표자 표시 */}
+      <div className="absolute top-4 left-4 px-4 py-2 bg-black/50 backdrop-blur-md rounded-xl flex items-center space-x-2">
+        <ComputerDesktopIcon className="w-4 h-4 text-indigo-300" />
+        <span className="text-sm text-white font-medium">{isLocal ? '내 화면 공유 중' : `${presenterName}님의 화면`}</span>
+      </div>
+
+      {/* 발표자 카메라 썸네일 */}
+      {hasCamera && (
+        <div className="absolute bottom-4 right-4 w-1/5 min-w-[96px] aspect-video rounded-lg overflow-hidden border-2 border-white/70 shadow-lg bg-gray-800">
+          <video
+            ref={(video) => {
+              if (video && video.srcObject !== cameraStream) {
+                video.srcObject = cameraStream;
+              }
+            }}
+            autoPlay
+            playsInline
+            muted
+            className="w-full h-full object-cover"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
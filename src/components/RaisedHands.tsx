@@ -0,0 +1,64 @@
+/**
+ * RaisedHands.tsx - 손 든 참가자 대기열 컴포넌트
+ *
+ * 손 든 순서대로 참가자 목록을 모든 참가자에게 보여주고, 호스트는 참가자의 손을 내릴 수 있습니다.
+ */
+import { useSelector } from 'react-redux';
+import { HandRaisedIcon } from '@heroicons/react/24/solid';
+import { RootState } from '../store';
+import { socketService } from '../services/socket';
+
+/**
+ * 손 든 참가자 대기열 Props 인터페이스
+ * @property roomId - 현재 방 ID
+ * @property userId - 내 사용자 ID
+ * @property isHost - 내가 호스트인지 여부 (호스트는 다른 참가자의 손을 내릴 수 있음)
+ */
+interface RaisedHandsProps {
+  roomId: string;
+  userId: string;
+  isHost: boolean;
+}
+
+/**
+ * 손 든 참가자 대기열 패널
+ * - 손 든 참가자가 없으면 렌더링하지 않음
+ */
+export default function RaisedHands({ roomId, userId, isHost }: RaisedHandsProps) {
+  const { raisedHands } = useSelector((state: RootState) => state.reaction);
+
+  if (raisedHands.length === 0) return null;
+
+  return (
+    <div className="fixed top-20 left-4 z-40 w-60 p-3 bg-white/90 dark:bg-gray-800/90 backdrop-blur-md rounded-xl shadow-lg">
+      <h3 className="flex items-center space-x-2 mb-2 text-sm font-semibold">
+        <HandRaisedIcon className="w-4 h-4 text-yellow-500" />
+        <span>손 든 참가자 ({raisedHands.length})</span>
+      </h3>
+      <ol className="space-y-1">
+        {raisedHands.map((hand, index) => (
+          <li key={hand.userId} className="flex items-center justify-between text-sm">
+            <span className="truncate">
+              {index + 1}. {hand.nickname}
+              {hand.userId === userId && ' (나)'}
+            </span>
+            {hand.userId === userId ? (
+              <button onClick={() => socketService.raiseHand(roomId, false)} className="px-2 py-0.5 text-xs rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600">
+                내리기
+              </button>
+            ) : (
+              isHost && (
+                <button
+                  onClick={() => socketService.lowerHand(roomId, hand.userId)}
+                  className="px-2 py-0.5 text-xs rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+                >
+                  내리기
+                </button>
+              )
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
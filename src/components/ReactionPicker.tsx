@@ -0,0 +1,48 @@
+/**
+ * ReactionPicker.tsx - 이모지 반응 선택 컴포넌트
+ *
+ * 제어 바의 반응 버튼을 누르면 보낼 수 있는 이모지 목록을 보여줍니다.
+ */
+import { useState } from 'react';
+import { FaceSmileIcon } from '@heroicons/react/24/solid';
+
+/**
+ * 이모지 반응 선택 Props 인터페이스
+ * @property onSelect - 이모지 선택 핸들러
+ */
+interface ReactionPickerProps {
+  onSelect: (emoji: string) => void;
+}
+
+// 보낼 수 있는 이모지 목록 (서버에서 허용하는 목록과 같아야 함)
+const REACTION_EMOJIS = ['👍', '👏', '😂', '❤️', '🎉', '😮'];
+
+/**
+ * 이모지 반응 버튼 및 선택 팝오버
+ * - 연속으로 보낼 수 있도록 이모지를 선택해도 팝오버를 닫지 않음
+ */
+export default function ReactionPicker({ onSelect }: ReactionPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-4 rounded-xl transition-all ${isOpen ? 'bg-indigo-500 hover:bg-indigo-600 text-white' : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'}`}
+        title="반응 보내기"
+      >
+        <FaceSmileIcon className={`w-6 h-6 ${isOpen ? 'text-white' : 'text-indigo-500'}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 flex space-x-1 p-2 bg-white dark:bg-gray-800 rounded-xl shadow-lg">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button key={emoji} onClick={() => onSelect(emoji)} className="w-10 h-10 text-2xl rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-transform hover:scale-110">
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * RecordingStatus.tsx - 녹화 상태 표시 컴포넌트
+ *
+ * 내가 녹화 중이면 경과 시간을, 다른 참가자가 녹화 중이면 녹화 중인 참가자를 표시하고
+ * 녹화를 마치면 녹화 파일 저장 안내를 보여줍니다.
+ */
+import { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { ArrowDownTrayIcon, XMarkIcon } from '@heroicons/react/24/solid';
+import { AppDispatch, RootState } from '../store';
+import { dismissRecordingDownload } from '../store/thunks/recordingThunks';
+
+/**
+ * 경과 시간을 mm:ss (1시간 이상이면 h:mm:ss) 형식으로 변환
+ * @param ms - 경과 시간 (ms)
+ */
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0');
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+/**
+ * 녹화 상태 표시
+ * - 녹화 중인 사람이 없고 저장할 파일도 없으면 렌더링하지 않음
+ */
+export default function RecordingStatus() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { isRecording, startedAt, download, recorders } = useSelector((state: RootState) => state.recording);
+
+  // 경과 시간 표시를 위해 녹화 중에는 1초마다 다시 렌더링
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  return (
+    <>
+      {(isRecording || recorders.length > 0) && (
+        <div className="fixed top-20 left-1/2 -translate-x-1/2 z-40 flex items-center space-x-2 px-3 py-1.5 rounded-full bg-gray-900/80 text-white text-xs shadow-lg">
+          <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse" />
+          {isRecording && startedAt !== null && <span className="font-mono">REC {formatElapsed(now - startedAt)}</span>}
+          {recorders.length > 0 && (
+            <span>
+              {recorders.map((recorder) => recorder.nickname).join(', ')}님이 녹화 중
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* 녹화 파일 저장 안내 */}
+      {download && (
+        <div className="fixed bottom-28 right-4 z-50 w-72 p-4 bg-white dark:bg-gray-800 rounded-xl shadow-lg">
+          <div className="flex items-start justify-between mb-2">
+            <h3 className="text-sm font-semibold">녹화가 끝났습니다</h3>
+            <button onClick={() => dispatch(dismissRecordingDownload())} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700" title="닫기">
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="mb-3 text-xs text-gray-500 dark:text-gray-400 truncate">{download.fileName}</p>
+          <a
+            href={download.url}
+            download={download.fileName}
+            className="flex items-center justify-center space-x-2 w-full py-2 rounded-lg bg-indigo-500 hover:bg-indigo-600 text-white text-sm"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            <span>녹화 파일 저장</span>
+          </a>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,9 +1,9 @@
 // Room.tsx - 웹RTC 서비스를 활용한 화상 회의 컴포넌트
 // 화상 회의방을 관리하고 사용자 간의 실시간 음성/영상 통신을 제공합니다.
-import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Navigate, useLocation, useParams, useNavigate } from 'react-router-dom';
 import { useSelector, useDispatch } from 'react-redux';
-import { RootState } from '../store';
+import { AppDispatch, RootState } from '../store';
 import {
   VideoCameraIcon, // 카메라 켜기 아이콘
   VideoCameraSlashIcon, // 카메라 끄기 아이콘
@@ -14,44 +14,225 @@ import {
   PresentationChartLineIcon, // 프레젠테이션 아이콘
   ChatBubbleLeftRightIcon, // 채팅 아이콘
   ClipboardDocumentIcon, // 복사 아이콘 추가
+  Cog6ToothIcon, // 장치 설정 아이콘
+  MapPinIcon, // 화면 고정 아이콘
+  SparklesIcon, // 스포트라이트 아이콘
+  WindowIcon, // PIP 아이콘
+  SignalIcon, // 자동 화질 조정 아이콘
+  SignalSlashIcon, // 저대역폭 모드 아이콘
+  StarIcon, // 호스트 표시 아이콘
+  ShieldCheckIcon, // 대기실 아이콘
+  LockClosedIcon, // 회의 잠금 아이콘
+  LockOpenIcon, // 회의 잠금 해제 아이콘
+  KeyIcon, // 회의 비밀번호 아이콘
+  HandRaisedIcon, // 손 들기 아이콘
+  ArrowPathIcon, // 재연결 아이콘
+  StopIcon, // 녹화 중지 아이콘
+  QuestionMarkCircleIcon, // 단축키 안내 아이콘
 } from '@heroicons/react/24/solid';
 import Chat from './Chat';
+import PresentationView from './PresentationView';
+import DeviceSettings from './DeviceSettings';
+import ConnectionQuality from './ConnectionQuality';
+import ParticipantMenu from './ParticipantMenu';
+import JoinRequests from './JoinRequests';
+import PasscodeDialog from './PasscodeDialog';
+import ParticipantSignals from './ParticipantSignals';
+import RaisedHands from './RaisedHands';
+import ReactionPicker from './ReactionPicker';
+import RecordingStatus from './RecordingStatus';
+import LayoutMenu from './LayoutMenu';
+import VideoLayout from './VideoLayout';
+import PictureInPictureView from './PictureInPictureView';
+import ShortcutHelp from './ShortcutHelp';
+import type { PictureInPictureTile } from './PictureInPictureView';
 import { setChatOpen } from '../store/slices/chatSlice';
 import toast from 'react-hot-toast';
 import { socketService } from '../services/socket';
+import { fileTransferService } from '../services/fileTransfer';
+import { pictureInPictureService } from '../services/pictureInPicture';
+import type { ConnectionState, HandChange, JoinError, MediaStateChange, PendingParticipant, Reaction, RecordingChange, RoomSettings } from '../services/socket';
 import { webRTCService } from '../services/webrtc';
+import type { RemotePeer } from '../services/webrtc';
 import { Socket } from 'socket.io-client';
-import { addMessage } from '../store/slices/chatSlice';
+import { addMessage, clearMessages, receiveHistory, setLoadingHistory } from '../store/slices/chatSlice';
+import type { Message } from '../store/slices/chatSlice';
+import { setLowBandwidthMode } from '../store/slices/mediaSlice';
+import { announceMediaState, releaseLocalMedia, setCameraEnabled, setMicrophoneEnabled, startLocalMedia, startScreenShare, stopScreenShare, switchInputDevice } from '../store/thunks/mediaThunks';
+import { setAvailableDevices } from '../store/slices/deviceSlice';
+import { clearPeerStats, setPeerStats } from '../store/slices/statsSlice';
+import { addReaction, clearReactions, removeReaction, setRaisedHands, updateHand } from '../store/slices/reactionSlice';
+import { setRecorders, updateRecorder } from '../store/slices/recordingSlice';
+import { announceRecordingState, dismissRecordingDownload, startRecording, stopRecording } from '../store/thunks/recordingThunks';
+import { releasePinned, resetLayout, setPage, togglePinned } from '../store/slices/layoutSlice';
+import {
+  removeParticipantMedia,
+  setCreatingRoom,
+  setHostId,
+  setParticipantMedia,
+  setPendingParticipants,
+  setRoomSettings,
+  setWaitingForAdmission,
+  updateParticipantMedia,
+} from '../store/slices/roomSlice';
+import type { ParticipantMedia } from '../store/slices/roomSlice';
+import { deviceService } from '../services/devices';
+import { mediaController } from '../services/mediaController';
+import { useExternalStore } from '../hooks/useExternalStore';
+import { useTileLayout } from '../hooks/useTileLayout';
+import { useShortcuts } from '../hooks/useShortcuts';
+import type { VoiceActivityState } from '../services/voiceActivity';
+
+/**
+ * 참가자 타일의 영상 요소 검색 (영상 PIP 대상, 없으면 화면에 있는 첫 번째 참가자 영상)
+ * @param id - 참가자 ID
+ */
+const findTileVideo = (id: string) =>
+  document.querySelector<HTMLVideoElement>(`video[data-peer-id="${CSS.escape(id)}"]`) ?? document.querySelector<HTMLVideoElement>('video[data-peer-id]');
+
+/**
+ * 회의실 주소로 이동할 때 전달하는 라우터 상태
+ * @property fromLobby - 입장 전 화면(로비)에서 마이크/카메라를 선택하고 들어왔는지 여부
+ */
+export interface RoomLocationState {
+  fromLobby?: boolean;
+}
 
 /**
- * Room 컴포넌트: 화상 회의방 기능을 제공하는 메인 컴포넌트
+ * Room 컴포넌트: 입장 전 화면을 거친 경우에만 회의실 표시
+ * 공유받은 링크나 이전 방 자동 입장처럼 회의실 주소로 바로 들어오면 로비로 보내 미리보기와 마이크/카메라 선택을 먼저 하도록 합니다.
+ * (새로고침해도 라우터 상태가 유지되므로 회의 중 새로고침은 바로 다시 입장)
+ */
+export default function Room() {
+  const { roomId } = useParams<{ roomId: string }>();
+  const location = useLocation();
+
+  if (!(location.state as RoomLocationState | null)?.fromLobby) {
+    return <Navigate to={`/room/${roomId}/lobby`} replace />;
+  }
+  return <MeetingRoom />;
+}
+
+/**
+ * MeetingRoom 컴포넌트: 화상 회의방 기능을 제공하는 메인 컴포넌트
  * - 웹RTC를 통한 화상/음성 통신 관리
  * - 사용자 인터페이스 및 미디어 스트림 제어
  * - 화면 공유 및 채팅 기능 통합
  */
-export default function Room() {
+function MeetingRoom() {
   // URL 파라미터에서 방 ID 가져오기
   const { roomId } = useParams<{ roomId: string }>();
   const navigate = useNavigate();
-  const dispatch = useDispatch();
+  const dispatch = useDispatch<AppDispatch>();
 
   // Redux 상태 가져오기
   const { nickname, userId, isLoggedIn } = useSelector((state: RootState) => state.user);
+  const { isCreating, hostId, isWaitingForAdmission, isWaitingRoomEnabled, isLocked, hasPasscode, spotlightId, participantMedia } = useSelector((state: RootState) => state.room);
   const { isOpen } = useSelector((state: RootState) => state.chat);
+  const { isScreenSharing, isAudioEnabled, isVideoEnabled, isLowBandwidthMode } = useSelector((state: RootState) => state.media);
+  const { available: availableDevices, audioInputId, videoInputId, audioOutputId } = useSelector((state: RootState) => state.device);
+  const { raisedHands } = useSelector((state: RootState) => state.reaction);
+  const { isRecording } = useSelector((state: RootState) => state.recording);
+  const { pinnedId, autoPictureInPicture } = useSelector((state: RootState) => state.layout);
+  // 원격 피어 정보 (피어, 트랙, 연결 상태가 바뀔 때만 갱신)
+  const remotePeers = useExternalStore(webRTCService.remotePeers);
+  // 로컬 카메라/마이크 및 화면 공유 스트림 (미디어 컨트롤러가 보관)
+  const { localStream, screenStream } = useExternalStore(mediaController.media);
 
   // 로컬 상태 관리
-  const [isCameraOn, setIsCameraOn] = useState(true); // 카메라 상태 (켜짐/꺼짐)
-  const [isMicOn, setIsMicOn] = useState(true); // 마이크 상태 (켜짐/꺼짐)
-  const [isScreenSharing, setIsScreenSharing] = useState(false); // 화면 공유 상태
   const [participantCount, setParticipantCount] = useState(1); // 참가자 수
-  const [localStream, setLocalStream] = useState<MediaStream | null>(null); // 로컬 미디어 스트림
-  const [remotePeers, setRemotePeers] = useState<{ userId: string; stream: MediaStream; nickname: string }[]>([]); // 원격 피어 정보
   const [videoDisplayMode, setVideoDisplayMode] = useState<'cover' | 'contain'>('cover'); // 비디오 표시 모드
   const [showLocalControls, setShowLocalControls] = useState(false); // 로컬 비디오 컨트롤 표시 여부
   const [hoveredPeer, setHoveredPeer] = useState<string | null>(null); // 마우스 오버된 피어 ID
   const [windowWidth, setWindowWidth] = useState(window.innerWidth); // 창 너비 상태 추가
   const [showChat, setShowChat] = useState<boolean>(false); // 채팅 패널 표시 여부
   const [socket, setSocket] = useState<Socket | null>(null);
+  const [showDeviceSettings, setShowDeviceSettings] = useState(false); // 장치 설정 패널 표시 여부
+  const [voiceActivity, setVoiceActivity] = useState<VoiceActivityState>({ speakingIds: [], dominantSpeakerId: null }); // 말하는 참가자 및 주 발화자
+  const [passcodePrompt, setPasscodePrompt] = useState<{ error: string | null } | null>(null); // 입장 비밀번호 입력 창 (비밀번호가 걸린 방)
+  const [connectionState, setConnectionState] = useState<ConnectionState>('connected'); // 서버 연결 상태
+  const [showPasscodeSettings, setShowPasscodeSettings] = useState(false); // 회의 비밀번호 설정 창 표시 여부 (호스트 전용)
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false); // 단축키 안내 창 표시 여부
+
+  // 입장 시 방 생성 여부 (입장 요청에 한 번만 사용)
+  const isCreatingRef = useRef(isCreating);
+  // 내가 현재 호스트인지 여부
+  const isHost = !!hostId && hostId === userId;
+  // 내가 손을 들었는지 여부
+  const isHandRaised = raisedHands.some((hand) => hand.userId === userId);
+
+  // PIP 상태 (Document PIP 창이 열려 있으면 미니 그리드 렌더링)
+  const pictureInPicture = useExternalStore(pictureInPictureService.state);
+  // 화면 공유 중인 참가자가 있는지 여부 (프레젠테이션 레이아웃)
+  const hasPresentation = (isScreenSharing && !!screenStream) || remotePeers.some((peer) => peer.screenStream);
+  // 레이아웃에 따른 타일 배치 (크게 표시할 참가자, 현재 페이지의 참가자)
+  const tileLayout = useTileLayout({
+    tileIds: [userId, ...remotePeers.map((peer) => peer.userId)],
+    localId: userId,
+    dominantSpeakerId: voiceActivity.dominantSpeakerId,
+    hasPresentation,
+    // PIP 창에는 페이지와 관계없이 말하는 참가자를 표시하므로 열려 있는 동안에는 모든 영상 수신
+    pauseHiddenVideo: !pictureInPicture.mode,
+  });
+  // 말하는 참가자 (PIP 미니 그리드 순서 및 영상 PIP 대상)
+  const activeSpeakerId = voiceActivity.dominantSpeakerId ?? tileLayout.stageId ?? remotePeers[0]?.userId ?? userId;
+  const activeSpeakerRef = useRef(activeSpeakerId);
+
+  // 선택한 스피커가 분리된 경우 시스템 기본 장치로 출력
+  const outputDeviceId = availableDevices.some((device) => device.kind === 'audiooutput' && device.deviceId === audioOutputId) ? audioOutputId : '';
+
+  // 음성 활동 감지 구독 (말하는 참가자 표시 및 스피커/사이드바 레이아웃)
+  useEffect(() => webRTCService.onVoiceActivity(setVoiceActivity), []);
+
+  // 서버 연결 상태 구독 (재연결 중/실패 안내)
+  useEffect(() => socketService.onConnectionStateChange(setConnectionState), []);
+
+  // PIP 열기 (Document PIP를 지원하지 않으면 말하는 참가자의 영상을 기본 PIP로 표시)
+  const openPictureInPicture = useCallback(() => pictureInPictureService.open(() => findTileVideo(activeSpeakerRef.current)), []);
+
+  // 말하는 참가자가 바뀌면 영상 PIP 대상도 교체
+  useEffect(() => {
+    activeSpeakerRef.current = activeSpeakerId;
+    if (pictureInPicture.mode === 'video') pictureInPictureService.switchVideo(findTileVideo(activeSpeakerId));
+  }, [activeSpeakerId, pictureInPicture.mode]);
+
+  // 다른 탭으로 이동하면 자동으로 PIP 열기 (사용자가 켠 경우)
+  useEffect(() => {
+    if (!autoPictureInPicture) return;
+    return pictureInPictureService.enableAutoEnter(openPictureInPicture);
+  }, [autoPictureInPicture, openPictureInPicture]);
+
+  // 회의 화면을 벗어나면 PIP 닫기
+  useEffect(() => () => pictureInPictureService.close(), []);
+
+  // 스포트라이트 지정/해제 안내 (입장했을 때 이미 지정되어 있던 경우 포함)
+  const previousSpotlightRef = useRef<string | null>(null);
+  useEffect(() => {
+    const previous = previousSpotlightRef.current;
+    previousSpotlightRef.current = spotlightId;
+    if (previous === spotlightId) return;
+
+    if (!spotlightId) {
+      toast('스포트라이트가 해제되었습니다.', { icon: '🔦' });
+      return;
+    }
+    const target = webRTCService.getRemotePeers().find((peer) => peer.userId === spotlightId);
+    toast(spotlightId === userId ? '호스트가 나를 모두에게 스포트라이트했습니다.' : `${target?.nickname ?? '참가자'}님이 스포트라이트 중입니다.`, { icon: '🔦' });
+  }, [spotlightId, userId]);
+
+  // 저대역폭 모드 반영 (끄면 네트워크 상태에 따른 자동 조정)
+  useEffect(() => {
+    webRTCService.setLowBandwidthMode(isLowBandwidthMode);
+  }, [isLowBandwidthMode]);
+
+  // 연결 품질 통계 구독 (원격 타일의 신호 막대 표시)
+  useEffect(() => {
+    const unsubscribe = webRTCService.onStats((stats) => dispatch(setPeerStats(stats)));
+    return () => {
+      unsubscribe();
+      dispatch(clearPeerStats());
+    };
+  }, [dispatch]);
 
   // 원격 피어 상태 변경 로깅
   useEffect(() => {
@@ -76,146 +257,232 @@ export default function Room() {
       });
     }
 
-    // 미디어 장치 초기화 및 스트림 설정 함수
-    const initMedia = async () => {
-      try {
-        // 간소화된 비디오/오디오 설정
-        const constraints: MediaStreamConstraints = {
-          video: {
-            width: { ideal: 1280 },
-            height: { ideal: 720 },
-            frameRate: { ideal: 30 },
-          },
-          audio: true,
-        };
-
-        console.log('미디어 장치 접근 시도 중...');
-        const stream = await navigator.mediaDevices.getUserMedia(constraints);
-        console.log('미디어 장치 접근 성공!');
-
-        // 카메라 설정 정보 로깅
-        console.log('카메라 정보:', {
-          비디오트랙: stream.getVideoTracks().length > 0 ? stream.getVideoTracks()[0].label : '없음',
-          오디오트랙: stream.getAudioTracks().length > 0 ? stream.getAudioTracks()[0].label : '없음',
-        });
-
-        // 로컬 스트림 상태 설정
-        setLocalStream(stream);
-
-        // WebRTC 서비스에 로컬 스트림 설정 및 룸 입장
-        await webRTCService.setLocalStream(stream);
-        socketService.joinRoom(roomId!, userId, nickname);
-
-        toast.success('카메라와 마이크가 연결되었습니다.');
-      } catch (error: unknown) {
-        console.error('미디어 장치 접근 오류:', error);
-
-        // 상세한 오류 메시지 출력
-        if (error instanceof Error) {
-          if (error.name === 'NotFoundError') {
-            toast.error('카메라나 마이크를 찾을 수 없습니다. 장치가 연결되어 있는지 확인하세요.');
-          } else if (error.name === 'NotAllowedError') {
-            toast.error('카메라와 마이크 접근 권한이 거부되었습니다. 브라우저 권한을 확인하세요.');
-          } else if (error.name === 'NotReadableError') {
-            toast.error('카메라나 마이크에 접근할 수 없습니다. 다른 앱이 사용 중인지 확인하세요.');
-          } else if (error.name === 'OverconstrainedError') {
-            console.warn('고급 설정이 지원되지 않음, 기본 설정으로 재시도합니다.');
-            try {
-              // 기본 설정으로 재시도
-              const basicStream = await navigator.mediaDevices.getUserMedia({
-                video: true,
-                audio: true,
-              });
-
-              setLocalStream(basicStream);
-              await webRTCService.setLocalStream(basicStream);
-              socketService.joinRoom(roomId!, userId, nickname);
-              toast.success('기본 설정으로 카메라와 마이크가 연결되었습니다.');
-              return;
-            } catch (fallbackError: unknown) {
-              console.error('기본 설정도 실패:', fallbackError);
-              const errorMessage = fallbackError instanceof Error ? fallbackError.message || fallbackError.name : '알 수 없는 오류';
-              toast.error(`미디어 장치 접근 실패: ${errorMessage}`);
-            }
-          } else {
-            toast.error(`미디어 장치 오류: ${error.message || error.name}`);
-          }
-        } else {
-          toast.error('알 수 없는 미디어 장치 오류가 발생했습니다.');
-        }
-
-        // 오디오만 시도
-        try {
-          console.log('오디오만 접근 시도 중...');
-          const audioOnlyStream = await navigator.mediaDevices.getUserMedia({
-            video: false,
-            audio: true,
-          });
-          socketService.joinRoom(roomId!, userId, nickname);
-
-          setLocalStream(audioOnlyStream);
-          setIsCameraOn(false);
-
-          await webRTCService.setLocalStream(audioOnlyStream);
-          toast.success('오디오만 연결되었습니다. 카메라는 사용할 수 없습니다.');
-        } catch (audioError) {
-          // 빈 스트림으로 접속
-          console.error('오디오 접근도 실패:', audioError);
-          const emptyStream = new MediaStream();
-          setLocalStream(emptyStream);
-          await webRTCService.setLocalStream(emptyStream);
-          socketService.joinRoom(roomId!, userId, nickname);
-
-          setIsCameraOn(false);
-          setIsMicOn(false);
-          toast.error('미디어 장치 없이 접속합니다.');
-        }
-      }
-    };
-
-    // 미디어 초기화 실행
-    initMedia();
-
-    // 원격 피어 상태 주기적 업데이트를 위한 인터벌 설정
-    const interval = setInterval(() => {
-      setRemotePeers(webRTCService.getRemoteStreams()); // 길이에 상관없이 항상 세팅
-    }, 1000);
+    // 미디어 초기화 실행 (권한을 얻은 뒤에야 장치 이름이 제공되므로 이후에 장치 목록 조회)
+    dispatch(startLocalMedia())
+      .then(() => {
+        // WebRTC 서비스에 로컬 스트림이 설정된 뒤 룸 입장
+        socketService.joinRoom(roomId!, userId, nickname, isCreatingRef.current);
+        return deviceService.listDevices();
+      })
+      .then((devices) => dispatch(setAvailableDevices(devices)))
+      .catch((error) => console.error('장치 목록 조회 실패:', error));
 
     // 컴포넌트 언마운트 시 정리 작업
     return () => {
-      // 로컬 미디어 트랙 중지
-      if (localStream) {
-        localStream.getTracks().forEach((track) => track.stop());
-      }
+      // 로컬 미디어 및 화면 공유 트랙 중지
+      dispatch(releaseLocalMedia());
+      // 채팅 기록은 방마다 서버에서 다시 받으므로 비움
+      dispatch(clearMessages());
+      // 호스트 및 대기실 정보 초기화 (다시 입장하면 서버에서 받음)
+      dispatch(setHostId(null));
+      dispatch(setCreatingRoom(false));
+      dispatch(setWaitingForAdmission(false));
+      dispatch(setPendingParticipants([]));
+      dispatch(setParticipantMedia({}));
+      dispatch(clearReactions());
+      // 녹화 중이면 종료하고 바로 파일로 저장
+      dispatch(stopRecording(roomId!, true));
+      dispatch(dismissRecordingDownload());
+      dispatch(setRecorders([]));
+      dispatch(resetLayout());
       // WebRTC 연결 종료 및 소켓 연결 해제
       webRTCService.closeAllConnections();
       socketService.leaveRoom(roomId!, userId);
       socketService.disconnect();
-      clearInterval(interval);
     };
-  }, [roomId, userId, nickname]);
+  }, [roomId, userId, nickname, dispatch]);
 
   useEffect(() => {
     if (!socket) return;
 
     const handleUserLeft = ({ userId }: { userId: string }) => {
       webRTCService.removePeerConnection(userId); // 이미 하고 있다면 중복 OK
-      setRemotePeers((prev) => prev.filter((p) => p.userId !== userId));
+      // 나간 참가자는 손 든 대기열에서 제거
+      dispatch(updateHand({ userId, nickname: '', raisedAt: null }));
+      dispatch(removeParticipantMedia(userId));
+      dispatch(updateRecorder({ userId, nickname: '', recording: false }));
+      dispatch(releasePinned(userId));
     };
 
-    const handleDisconnect = () => {
-      // 소켓 연결이 끊겼을 때 처리 로직
-      console.log('연결이 끊겼습니다.');
+    // 입장이 거부된 경우 (최대 인원 초과 등) 자동 재입장하지 않도록 마지막 방 정보 삭제 후 홈으로 이동
+    const handleJoinError = ({ code, message }: JoinError) => {
+      console.warn('방 입장 거부:', code, message);
+      // 비밀번호 관련 거부는 비밀번호 입력 창을 띄워 다시 시도
+      if (code === 'PASSCODE_REQUIRED' || code === 'PASSCODE_INVALID' || code === 'TOO_MANY_ATTEMPTS') {
+        setPasscodePrompt({ error: code === 'PASSCODE_REQUIRED' ? null : message });
+        return;
+      }
+
+      localStorage.removeItem('lastRoomId');
+      toast.error(message);
+      navigate('/');
     };
 
     socket.on('userLeft', handleUserLeft);
-    socket.on('disconnect', handleDisconnect);
+    socket.on('join-error', handleJoinError);
 
     return () => {
       socket.off('userLeft', handleUserLeft);
-      socket.off('disconnect', handleDisconnect);
+      socket.off('join-error', handleJoinError);
+    };
+  }, [socket, navigate, dispatch]);
+
+  // 호스트 및 참가자 관리 이벤트 처리
+  useEffect(() => {
+    if (!socket) return;
+
+    // 입장 시 받은 참가자 목록에서 호스트 확인 (대기실에서 승인된 경우에도 이 시점에 입장 완료)
+    const handleExistingParticipants = (
+      participants: {
+        userId: string;
+        nickname: string;
+        role?: string;
+        handRaisedAt?: number | null;
+        screenStreamId?: string | null;
+        audioEnabled?: boolean;
+        videoEnabled?: boolean;
+        isRecording?: boolean;
+      }[]
+    ) => {
+      dispatch(setWaitingForAdmission(false));
+      dispatch(setHostId(participants.find((participant) => participant.role === 'host')?.userId ?? null));
+      // 늦게 들어와도 이미 손 든 참가자 대기열을 볼 수 있도록 반영
+      dispatch(
+        setRaisedHands(
+          participants
+            .filter((participant) => participant.handRaisedAt)
+            .map(({ userId, nickname, handRaisedAt }) => ({ userId, nickname, raisedAt: handRaisedAt! }))
+        )
+      );
+      // 늦게 들어와도 다른 참가자의 마이크/카메라/화면 공유 상태를 알 수 있도록 반영하고 내 상태를 알림
+      const media: Record<string, ParticipantMedia> = {};
+      participants
+        .filter((participant) => participant.userId !== userId)
+        .forEach((participant) => {
+          media[participant.userId] = {
+            audioEnabled: participant.audioEnabled ?? true,
+            videoEnabled: participant.videoEnabled ?? true,
+            isScreenSharing: !!participant.screenStreamId,
+          };
+        });
+      dispatch(setParticipantMedia(media));
+      dispatch(announceMediaState(roomId!));
+      // 녹화 중인 참가자 표시 (내가 녹화 중이었다면 다시 알림)
+      dispatch(
+        setRecorders(
+          participants
+            .filter((participant) => participant.isRecording && participant.userId !== userId)
+            .map(({ userId, nickname }) => ({ userId, nickname }))
+        )
+      );
+      dispatch(announceRecordingState(roomId!));
+    };
+
+    const handleWaitingForAdmission = () => {
+      console.log('대기실에서 호스트 승인 대기 중');
+      dispatch(setWaitingForAdmission(true));
+    };
+
+    const handlePendingParticipants = (participants: PendingParticipant[]) => {
+      dispatch(setPendingParticipants(participants));
+    };
+
+    const handleRoomSettings = (settings: RoomSettings) => {
+      dispatch(setRoomSettings(settings));
+    };
+
+    const handleHostChanged = ({ hostId: nextHostId }: { hostId: string }) => {
+      console.log('호스트 변경:', nextHostId);
+      dispatch(setHostId(nextHostId));
+      // 대기 목록은 호스트에게만 전송되므로 호스트가 바뀌면 비움 (새 호스트는 서버에서 다시 받음)
+      if (nextHostId !== userId) dispatch(setPendingParticipants([]));
+      if (nextHostId === userId) toast.success('회의의 호스트가 되었습니다.');
+    };
+
+    const handleForceMute = () => {
+      dispatch(setMicrophoneEnabled(false));
+      toast('호스트가 마이크를 껐습니다.', { icon: '🔇' });
+    };
+
+    const handleForceCameraOff = () => {
+      dispatch(setCameraEnabled(false));
+      toast('호스트가 카메라를 껐습니다.', { icon: '📷' });
+    };
+
+    // 호스트가 나를 내보낸 경우 자동 재입장하지 않도록 마지막 방 정보 삭제 후 홈으로 이동
+    const handleRemovedFromRoom = () => {
+      localStorage.removeItem('lastRoomId');
+      toast.error('호스트에 의해 회의에서 내보내졌습니다.');
+      navigate('/');
+    };
+
+    const handleModerationError = ({ message }: { message: string }) => {
+      toast.error(message);
+    };
+
+    const handleHandChanged = ({ userId: targetUserId, nickname: targetNickname, raisedAt, loweredBy }: HandChange) => {
+      dispatch(updateHand({ userId: targetUserId, nickname: targetNickname, raisedAt }));
+      if (targetUserId === userId && loweredBy) toast('호스트가 내 손을 내렸습니다.', { icon: '✋' });
+    };
+
+    const handleMediaState = ({ userId: targetUserId, audioEnabled, videoEnabled }: MediaStateChange) => {
+      dispatch(updateParticipantMedia({ userId: targetUserId, audioEnabled, videoEnabled }));
+    };
+
+    const handleScreenShareState = ({ userId: targetUserId, streamId }: { userId: string; streamId: string | null }) => {
+      dispatch(updateParticipantMedia({ userId: targetUserId, isScreenSharing: !!streamId }));
+    };
+
+    // 다른 참가자의 녹화 시작/종료 알림 (내 녹화 상태는 직접 관리)
+    const handleRecordingState = ({ userId: targetUserId, nickname: targetNickname, recording }: RecordingChange) => {
+      if (targetUserId === userId) return;
+      dispatch(updateRecorder({ userId: targetUserId, nickname: targetNickname, recording }));
+      toast(recording ? `${targetNickname}님이 회의를 녹화하기 시작했습니다.` : `${targetNickname}님이 녹화를 종료했습니다.`, { icon: '⏺️' });
+    };
+
+    // 이모지 반응은 잠시 표시한 뒤 제거 (애니메이션 시간과 같음)
+    const handleReaction = (reaction: Reaction) => {
+      dispatch(addReaction(reaction));
+      setTimeout(() => dispatch(removeReaction(reaction.id)), 3000);
     };
-  }, [socket]);
+
+    socket.on('existing-participants', handleExistingParticipants);
+    socket.on('waiting-for-admission', handleWaitingForAdmission);
+    socket.on('pending-participants', handlePendingParticipants);
+    socket.on('room-settings', handleRoomSettings);
+    socket.on('host-changed', handleHostChanged);
+    socket.on('force-mute', handleForceMute);
+    socket.on('force-camera-off', handleForceCameraOff);
+    socket.on('removed-from-room', handleRemovedFromRoom);
+    socket.on('moderation-error', handleModerationError);
+    socket.on('hand-changed', handleHandChanged);
+    socket.on('reaction', handleReaction);
+    socket.on('media-state', handleMediaState);
+    socket.on('screen-share', handleScreenShareState);
+    socket.on('recording-state', handleRecordingState);
+
+    return () => {
+      socket.off('existing-participants', handleExistingParticipants);
+      socket.off('waiting-for-admission', handleWaitingForAdmission);
+      socket.off('pending-participants', handlePendingParticipants);
+      socket.off('room-settings', handleRoomSettings);
+      socket.off('host-changed', handleHostChanged);
+      socket.off('force-mute', handleForceMute);
+      socket.off('force-camera-off', handleForceCameraOff);
+      socket.off('removed-from-room', handleRemovedFromRoom);
+      socket.off('moderation-error', handleModerationError);
+      socket.off('hand-changed', handleHandChanged);
+      socket.off('reaction', handleReaction);
+      socket.off('media-state', handleMediaState);
+      socket.off('screen-share', handleScreenShareState);
+      socket.off('recording-state', handleRecordingState);
+    };
+  }, [socket, roomId, userId, navigate, dispatch]);
+
+  // 마이크/카메라를 켜고 끌 때 다른 참가자에게 알림 (입장 직후에는 existing-participants 처리에서 전송)
+  useEffect(() => {
+    if (socket) socketService.sendMediaState(roomId!, isAudioEnabled, isVideoEnabled);
+  }, [socket, roomId, isAudioEnabled, isVideoEnabled]);
 
   // 소켓 이벤트 리스너 설정 및 정리
   useEffect(() => {
@@ -226,14 +493,38 @@ export default function Room() {
         dispatch(addMessage(message));
       };
 
+      // 채팅 기록 수신 (입장 시 최근 기록, 스크롤 시 이전 기록)
+      const handleChatHistory = (data: { roomId: string; messages: Message[]; hasMore: boolean; error?: string }) => {
+        if (data.roomId !== roomId) return;
+        // 불러오지 못한 경우 다시 스크롤하면 재시도할 수 있도록 요청 상태만 해제
+        if (data.error) {
+          console.warn('채팅 기록 조회 실패:', data.error);
+          toast.error(data.error);
+          dispatch(setLoadingHistory(false));
+          return;
+        }
+        console.log(`채팅 기록 수신: ${data.messages.length}개, 이전 기록 ${data.hasMore ? '있음' : '없음'}`);
+        dispatch(receiveHistory({ messages: data.messages, hasMore: data.hasMore }));
+      };
+
       // 'receiveMessage' 이벤트 리스너 등록
       socket.on('receiveMessage', handleReceiveMessage);
+      socket.on('chat-history', handleChatHistory);
 
       // 컴포넌트 언마운트 시 이벤트 리스너 정리
       return () => {
         socket.off('receiveMessage', handleReceiveMessage);
+        socket.off('chat-history', handleChatHistory);
       };
     }
+  }, [socket, roomId, dispatch]);
+
+  // 채팅 파일 공유 (다른 참가자가 공유한 파일은 채팅 목록에 파일 카드로 추가, 나가면 전송 정리)
+  useEffect(() => {
+    if (!socket) return;
+    return fileTransferService.initialize((from, offer) => {
+      dispatch(addMessage({ id: offer.transferId, senderId: from, senderNickname: offer.senderNickname, content: offer.name, timestamp: offer.sentAt, file: offer }));
+    });
   }, [socket, dispatch]);
 
   // 로그인 상태 확인 - 로그인되지 않은 경우 홈으로 리다이렉트
@@ -241,19 +532,51 @@ export default function Room() {
     if (!isLoggedIn) navigate('/');
   }, [isLoggedIn, navigate]);
 
-  // 카메라 상태(켜짐/꺼짐) 변경 시 트랙 활성화/비활성화
-  useEffect(() => {
-    if (localStream) {
-      localStream.getVideoTracks().forEach((track) => (track.enabled = isCameraOn));
-    }
-  }, [isCameraOn, localStream]);
+  /**
+   * 입력 장치(마이크/카메라) 전환 함수 (장치 설정 패널 및 장치 분리 시 자동 전환에 사용)
+   * @param kind - 트랙 종류 (audio/video)
+   * @param deviceId - 전환할 장치 ID (빈 문자열이면 기본 장치)
+   */
+  const handleInputChange = useCallback((kind: 'audio' | 'video', deviceId: string) => dispatch(switchInputDevice(kind, deviceId)), [dispatch]);
 
-  // 마이크 상태(켜짐/꺼짐) 변경 시 트랙 활성화/비활성화
+  // 장치 연결/해제 감지 (예: 통화 중 헤드셋 분리) → 사용 중인 장치가 사라지면 자동 전환
   useEffect(() => {
-    if (localStream) {
-      localStream.getAudioTracks().forEach((track) => (track.enabled = isMicOn));
-    }
-  }, [isMicOn, localStream]);
+    const handleDeviceChange = async () => {
+      const devices = await deviceService.listDevices();
+      dispatch(setAvailableDevices(devices));
+
+      const currentStream = mediaController.getMedia().localStream;
+      if (!currentStream) return;
+
+      for (const kind of ['audio', 'video'] as const) {
+        const deviceKind: MediaDeviceKind = kind === 'audio' ? 'audioinput' : 'videoinput';
+        const preferredId = kind === 'audio' ? audioInputId : videoInputId;
+        const track = kind === 'audio' ? currentStream.getAudioTracks()[0] : currentStream.getVideoTracks()[0];
+        const isAvailable = (deviceId: string) => devices.some((device) => device.kind === deviceKind && device.deviceId === deviceId);
+
+        // 처음부터 트랙이 없던 종류는 건드리지 않음
+        if (!track) continue;
+
+        const currentId = deviceService.getTrackDeviceId(track);
+        if (track.readyState === 'live' && isAvailable(currentId)) {
+          // 선택했던 장치가 다시 연결되면 해당 장치로 복귀
+          if (preferredId && preferredId !== currentId && isAvailable(preferredId)) {
+            await handleInputChange(kind, preferredId);
+          }
+          continue;
+        }
+
+        // 사용 중인 장치가 사라짐 → 선택 장치 또는 기본 장치로 전환
+        console.log(`${kind} 장치 분리 감지: ${currentId}`);
+        toast(`${kind === 'audio' ? '마이크' : '카메라'} 연결이 끊어져 다른 장치로 전환합니다.`);
+        await handleInputChange(kind, preferredId && isAvailable(preferredId) ? preferredId : '');
+      }
+    };
+
+    return deviceService.onDeviceChange(() => {
+      handleDeviceChange().catch((error) => console.error('장치 변경 처리 중 오류:', error));
+    });
+  }, [audioInputId, videoInputId, handleInputChange, dispatch]);
 
   // 창 크기 변경 감지
   useEffect(() => {
@@ -277,194 +600,8 @@ export default function Room() {
    * - 현재 화면 공유 중이 아니면 화면 공유 시작
    * - 이미 화면 공유 중이면 화면 공유 중지
    */
-  const handleScreenShare = async () => {
-    try {
-      if (isScreenSharing) {
-        // 화면 공유 중지 시
-        console.log('화면 공유 중지');
-
-        // 기존 스크린 트랙 중지
-        if (localStream) {
-          // 비디오 트랙만 중지 (오디오 트랙은 유지)
-          localStream.getVideoTracks().forEach((track) => track.stop());
-        }
-
-        // 카메라 비디오가 있는 경우 해당 트랙에 대한 비디오 활성화 처리
-        const videoTrack = localStream?.getVideoTracks()[0];
-        if (videoTrack && isCameraOn) {
-          videoTrack.enabled = true;
-          console.log('카메라 비디오 재활성화');
-
-          // WebRTC 서비스에 로컬 스트림 다시 설정하여 업데이트
-          if (localStream) {
-            await webRTCService.setLocalStream(localStream);
-          }
-        }
-
-        setIsScreenSharing(false);
-      } else {
-        // 화면 공유 시작 시
-        console.log('화면 공유 시작');
-
-        // 기존 오디오 트랙 보존을 위해 변수에 저장
-        const existingAudioTracks = localStream ? localStream.getAudioTracks() : [];
-
-        // 기존 비디오 트랙만 중지
-        if (localStream) {
-          localStream.getVideoTracks().forEach((track) => track.stop());
-        }
-
-        try {
-          // 간소화된 화면 공유 설정
-          const screenStream = await navigator.mediaDevices.getDisplayMedia({
-            video: {
-              width: { ideal: 1920 },
-              height: { ideal: 1080 },
-              frameRate: { ideal: 30 },
-              displaySurface: 'monitor',
-            },
-            audio: false,
-          });
-
-          console.log('화면 공유 스트림 획득:', screenStream.getVideoTracks()[0]?.label);
-
-          // 사용자가 화면 공유를 중단했을 때 이벤트 처리
-          screenStream.getVideoTracks()[0].onended = () => {
-            console.log('사용자가 화면 공유를 중단함');
-            handleStopScreenShare();
-          };
-
-          // 기존 오디오 트랙을 화면 공유 스트림에 추가
-          existingAudioTracks.forEach((track) => {
-            screenStream.addTrack(track);
-          });
-
-          // 로컬 스트림 업데이트 및 화면 공유 상태 설정
-          setLocalStream(screenStream);
-          setIsScreenSharing(true);
-          setIsCameraOn(true);
-
-          // WebRTC 서비스에 화면 공유 스트림 설정
-          await webRTCService.setLocalStream(screenStream);
-          console.log('WebRTC 서비스에 화면 공유 스트림 설정 완료');
-          toast.success('화면 공유가 시작되었습니다.');
-        } catch (error) {
-          // 화면 공유 권한 거부 또는 지원 불가 오류 처리
-          console.error('화면 공유 액세스 오류:', error);
-
-          if (error instanceof DOMException) {
-            if (error.name === 'NotAllowedError') {
-              toast.error('화면 공유 권한이 거부되었습니다.');
-            } else if (error.name === 'NotFoundError') {
-              toast.error('공유할 화면을 찾을 수 없습니다.');
-            } else if (error.name === 'NotReadableError') {
-              toast.error('화면을 읽을 수 없습니다. 다른 앱이 사용 중인지 확인하세요.');
-            } else if (error.name === 'AbortError') {
-              toast.error('화면 공유가 취소되었습니다.');
-            } else {
-              toast.error(`화면 공유 오류: ${error.name}`);
-            }
-          } else {
-            toast.error('화면 공유 권한이 거부되었거나 지원되지 않습니다.');
-          }
-
-          handleStopScreenShare();
-        }
-      }
-    } catch (error) {
-      console.error('화면 공유 오류:', error);
-      toast.error('화면 공유에 실패했습니다.');
-    }
-  };
-
-  /**
-   * 화면 공유 중지 및 카메라 스트림으로 복귀하는 함수
-   */
-  const handleStopScreenShare = async () => {
-    try {
-      console.log('화면 공유 중단');
-
-      // 기존 오디오 트랙 보존
-      const existingAudioTracks = localStream ? localStream.getAudioTracks() : [];
-      const isMicEnabled = existingAudioTracks.length > 0 ? existingAudioTracks[0].enabled : isMicOn;
-
-      // 기존 스트림 비디오 트랙만 중지
-      if (localStream) {
-        localStream.getVideoTracks().forEach((track) => {
-          track.stop();
-        });
-      }
-
-      // 화면 공유 상태 해제
-      setIsScreenSharing(false);
-      toast.success('화면 공유가 중단되었습니다.');
-
-      try {
-        // 카메라 설정에 고정 해상도 추가
-        const cameraStream = await navigator.mediaDevices.getUserMedia({
-          video: {
-            width: { ideal: 1280 },
-            height: { ideal: 720 },
-            frameRate: { ideal: 30 },
-            aspectRatio: { ideal: 16 / 9 },
-          },
-          audio: existingAudioTracks.length === 0, // 기존 오디오 트랙이 없을 때만 오디오 요청
-        });
-
-        // 카메라 활성화 상태 적용
-        cameraStream.getVideoTracks().forEach((track) => {
-          track.enabled = isCameraOn;
-          // 비디오 트랙 제약 조건 확인 및 로깅
-          console.log('카메라 복구 - 비디오 트랙 설정:', track.getSettings());
-        });
-
-        // 기존 오디오 트랙을 새 스트림에 추가
-        existingAudioTracks.forEach((track) => {
-          cameraStream.addTrack(track);
-        });
-
-        // 오디오 트랙에 마이크 상태 적용
-        cameraStream.getAudioTracks().forEach((track) => {
-          track.enabled = isMicEnabled;
-        });
-
-        // 로컬 스트림 업데이트
-        setLocalStream(cameraStream);
-
-        // WebRTC 서비스에 카메라 스트림 설정
-        await webRTCService.setLocalStream(cameraStream);
-        console.log('WebRTC 서비스에 카메라 스트림 재설정 완료');
-      } catch (error) {
-        console.error('카메라 스트림 획득 실패:', error);
-
-        // 오디오만 시도
-        try {
-          const audioOnlyStream = await navigator.mediaDevices.getUserMedia({
-            video: false,
-            audio: true,
-          });
-
-          setLocalStream(audioOnlyStream);
-          setIsCameraOn(false);
-
-          await webRTCService.setLocalStream(audioOnlyStream);
-          toast.success('오디오만 연결되었습니다. 카메라는 사용할 수 없습니다.');
-        } catch (audioError) {
-          // 모든 시도 실패 시 빈 스트림으로 대체
-          console.error('오디오 접근도 실패:', audioError);
-          const emptyStream = new MediaStream();
-          setLocalStream(emptyStream);
-          setIsCameraOn(false);
-          setIsMicOn(false);
-
-          await webRTCService.setLocalStream(emptyStream);
-          toast.error('미디어 장치 없이 접속합니다.');
-        }
-      }
-    } catch (error) {
-      console.error('화면 공유 종료 과정 오류:', error);
-      toast.error('카메라로 돌아가는데 실패했습니다.');
-    }
+  const handleScreenShare = () => {
+    dispatch(isScreenSharing ? stopScreenShare(roomId!, userId) : startScreenShare(roomId!, userId));
   };
 
   /**
@@ -473,7 +610,7 @@ export default function Room() {
    */
   const handleLeaveRoom = () => {
     // 모든 미디어 트랙 중지
-    localStream?.getTracks().forEach((track) => track.stop());
+    dispatch(releaseLocalMedia());
     // WebRTC 연결 종료
     webRTCService.closeAllConnections();
     // 소켓 연결 해제 및 방 나가기
@@ -487,6 +624,23 @@ export default function Room() {
     navigate('/');
   };
 
+  /**
+   * 비밀번호를 입력받아 다시 입장 요청
+   */
+  const handlePasscodeSubmit = (passcode: string) => {
+    setPasscodePrompt(null);
+    socketService.joinRoom(roomId!, userId, nickname, isCreatingRef.current, passcode);
+  };
+
+  /**
+   * 회의 비밀번호 설정 (호스트 전용, null이면 해제)
+   */
+  const handleRoomPasscodeChange = (passcode: string | null) => {
+    setShowPasscodeSettings(false);
+    socketService.setRoomPasscode(roomId!, passcode);
+    toast.success(passcode ? '회의 비밀번호를 설정했습니다.' : '회의 비밀번호를 해제했습니다.');
+  };
+
   /**
    * 참가자 연결 상태 확인 및 재연결 요청
    * - 참가자가 2명 이상이지만 원격 피어가 없는 경우 참가자 목록 요청
@@ -555,9 +709,6 @@ export default function Room() {
     event.stopPropagation();
   };
 
-  // 로그인되지 않은 경우 렌더링하지 않음
-  if (!isLoggedIn) return null;
-
   // 채팅 토글 함수
   const handleToggleChat = () => {
     // 화면이 좁을 때(888px 이하) 채팅을 열 때 경고 표시
@@ -570,6 +721,302 @@ export default function Room() {
     setShowChat(!showChat);
   };
 
+  /**
+   * 키보드 단축키 (안내 창, 대기실, 비밀번호 입력 화면에서는 사용하지 않음)
+   * - 마이크가 꺼져 있을 때 푸시 투 토크 키를 누르고 있는 동안만 마이크 켜기
+   * - 나가기는 실수로 누르는 경우가 있으므로 확인 후 나가기
+   */
+  const isPushToTalkActive = useShortcuts({
+    enabled: !showShortcutHelp && !isWaitingForAdmission && !passcodePrompt,
+    isMuted: !isAudioEnabled,
+    handlers: {
+      toggleMicrophone: () => dispatch(setMicrophoneEnabled(!isAudioEnabled)),
+      toggleCamera: () => dispatch(setCameraEnabled(!isVideoEnabled)),
+      toggleChat: handleToggleChat,
+      toggleScreenShare: handleScreenShare,
+      raiseHand: () => socketService.raiseHand(roomId!, !isHandRaised),
+      leaveRoom: () => {
+        if (window.confirm('회의에서 나가시겠습니까?')) handleLeaveRoom();
+      },
+      showHelp: () => setShowShortcutHelp(true),
+    },
+    onPushToTalk: (active) => dispatch(setMicrophoneEnabled(active)),
+  });
+
+  // 로그인되지 않은 경우 렌더링하지 않음
+  if (!isLoggedIn) return null;
+
+  /**
+   * 타일 강조 스타일 반환
+   * - 말하는 중인 참가자: 초록색 테두리
+   * @param id - 참가자 ID
+   */
+  const getTileHighlightClass = (id: string) => {
+    const classes: string[] = [];
+    if (voiceActivity.speakingIds.includes(id)) classes.push('ring-4 ring-green-400');
+    return classes.join(' ');
+  };
+
+  /**
+   * 내 비디오 타일
+   * @param isStage - 크게 표시하는 타일인지 여부 (영역을 꽉 채움)
+   */
+  const renderLocalTile = (isStage: boolean) => (
+    <div
+      className={`relative rounded-xl sm:rounded-2xl overflow-hidden bg-gray-200 dark:bg-gray-700 shadow-lg ${isStage ? 'w-full h-full' : 'aspect-video w-full'} transition-shadow ${getTileHighlightClass(userId)}`}
+      style={{ minHeight: '120px', maxHeight: '80vh', maxWidth: '100%' }}
+      onMouseEnter={() => setShowLocalControls(true)}
+      onMouseLeave={() => setShowLocalControls(false)}
+    >
+      {/* 로컬 비디오 요소 */}
+      <video
+        ref={(video) => {
+          if (video && localStream) {
+            if (video.srcObject !== localStream) {
+              video.srcObject = localStream;
+              video.muted = true; // 로컬 비디오는 항상 음소거
+            }
+          }
+        }}
+        data-peer-id={userId}
+        autoPlay
+        muted
+        className={`w-full h-full object-${videoDisplayMode}`}
+        style={{ minWidth: '100%', minHeight: '100%', maxWidth: '100%' }}
+        onDoubleClick={handleVideoDoubleClick}
+      />
+      {/* 사용자 이름 및 마이크 상태 표시 */}
+      <div className="absolute bottom-4 left-4 px-4 py-2 bg-black/50 backdrop-blur-md rounded-xl">
+        <div className="flex items-center space-x-2">
+          <div className={`w-2 h-2 rounded-full ${isAudioEnabled ? 'bg-green-500' : 'bg-red-500'}`} />
+          <span className="text-sm text-white font-medium">{nickname} (나)</span>
+          {isHost && <StarIcon className="w-4 h-4 text-yellow-400" title="호스트" />}
+          {pinnedId === userId && <MapPinIcon className="w-4 h-4 text-indigo-300" title="고정됨" />}
+        </div>
+      </div>
+
+      {/* 스포트라이트 표시 */}
+      {spotlightId === userId && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 px-3 py-1 flex items-center space-x-1 rounded-full bg-indigo-500/90 text-white text-xs font-medium shadow">
+          <SparklesIcon className="w-4 h-4" />
+          <span>스포트라이트</span>
+        </div>
+      )}
+
+      {/* 손 들기 및 이모지 반응 */}
+      <ParticipantSignals userId={userId} />
+
+      {/* 마우스 호버 시 나타나는 컨트롤 */}
+      {showLocalControls && (
+        <div className="absolute top-2 right-2 flex space-x-2 transition-opacity duration-300">
+          {/* 비디오 표시 모드 전환 버튼 */}
+          <button
+            onClick={toggleVideoDisplayMode}
+            className="p-2 bg-black/60 hover:bg-black/80 text-white rounded-full backdrop-blur-sm transition-colors"
+            title={videoDisplayMode === 'cover' ? '원본 비율로 보기' : '화면에 맞춰 보기'}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              {videoDisplayMode === 'cover' ? (
+                <path d="M3 4a1 1 0 011-1h12a1 1 0 011 1v2a1 1 0 01-1 1H4a1 1 0 01-1-1V4zM3 10a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H4a1 1 0 01-1-1v-6zM14 9a1 1 0 00-1 1v6a1 1 0 001 1h2a1 1 0 001-1v-6a1 1 0 00-1-1h-2z" />
+              ) : (
+                <path d="M5 3a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 11a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2v-2a2 2 0 00-2-2H5zM11 5a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V5zM14 11a1 1 0 011 1v1h1a1 1 0 110 2h-1v1a1 1 0 11-2 0v-1h-1a1 1 0 110-2h1v-1a1 1 0 011-1z" />
+              )}
+            </svg>
+          </button>
+          {/* 화면 고정 버튼 */}
+          <button
+            onClick={() => dispatch(togglePinned(userId))}
+            className="p-2 bg-black/60 hover:bg-black/80 text-white rounded-full backdrop-blur-sm transition-colors"
+            title={pinnedId === userId ? '고정 해제' : '화면에 고정'}
+          >
+            <MapPinIcon className="h-5 w-5" />
+          </button>
+          {/* 모두에게 스포트라이트 버튼 (호스트 전용) */}
+          {isHost && (
+            <button
+              onClick={() => socketService.setSpotlight(roomId!, spotlightId === userId ? null : userId)}
+              className="p-2 bg-black/60 hover:bg-black/80 text-white rounded-full backdrop-blur-sm transition-colors"
+              title={spotlightId === userId ? '스포트라이트 해제' : '모두에게 스포트라이트'}
+            >
+              <SparklesIcon className="h-5 w-5" />
+            </button>
+          )}
+          {/* 전체화면 도움말 */}
+          <div className="p-2 bg-black/60 text-white text-xs rounded-full backdrop-blur-sm flex items-center">더블클릭: 전체화면</div>
+        </div>
+      )}
+
+      {/* 카메라가 꺼져있거나 사용 불가능한 경우 보여줄 오버레이 */}
+      {(!isVideoEnabled || localStream?.getVideoTracks().length === 0) && (
+        <div className="absolute inset-0 flex items-center justify-center bg-gray-800/80 backdrop-blur-sm">
+          <div className="text-center">
+            <div className="w-20 h-20 mx-auto mb-2 rounded-full bg-gray-700 flex items-center justify-center">
+              <span className="text-2xl font-bold text-white">{nickname.substring(0, 1)}</span>
+            </div>
+            <span className="text-white font-medium px-4 py-2 rounded-lg bg-gray-900/50">카메라 꺼짐</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  /**
+   * 원격 참가자 비디오 타일
+   * @param peer - 원격 피어 정보
+   * @param isStage - 크게 표시하는 타일인지 여부 (영역을 꽉 채움)
+   */
+  const renderRemoteTile = ({ userId, stream, nickname }: RemotePeer, isStage: boolean) => {
+    // 트랙 유무와 상대가 알려준 켜짐 상태로 판단 (꺼진 트랙도 수신 측에서는 enabled로 보임)
+    const media = participantMedia[userId];
+    const hasVideo = stream.getVideoTracks().length > 0;
+    const hasAudio = stream.getAudioTracks().length > 0 && (media?.audioEnabled ?? true);
+    const isPeerCameraOn = hasVideo && (media?.videoEnabled ?? true);
+
+    return (
+      <div
+        className={`relative rounded-xl sm:rounded-2xl overflow-hidden bg-gray-200 dark:bg-gray-700 shadow-lg ${isStage ? 'w-full h-full' : 'aspect-video w-full'} transition-shadow ${getTileHighlightClass(userId)}`}
+        style={{ minHeight: '120px', maxHeight: '80vh', maxWidth: '100%' }}
+        onMouseEnter={() => setHoveredPeer(userId)}
+        onMouseLeave={() => setHoveredPeer(null)}
+      >
+        {/* 비디오 트랙이 있는 경우 비디오 요소 렌더링 */}
+        {hasVideo ? (
+          <video
+            ref={(video) => {
+              if (video && stream) {
+                if (video.srcObject !== stream) {
+                  video.srcObject = stream;
+                  video.onloadedmetadata = () => {
+                    video.play();
+                  };
+                }
+                // 선택한 스피커로 출력
+                deviceService.applyOutputDevice(video, outputDeviceId);
+              }
+            }}
+            data-peer-id={userId}
+            autoPlay
+            className={`w-full h-full object-${videoDisplayMode}`}
+            style={{ minWidth: '100%', minHeight: '100%', maxWidth: '100%' }}
+            onDoubleClick={handleVideoDoubleClick}
+          />
+        ) : (
+          <>
+            {/* ⬇︎ 오디오만 받는 경우 재생용 태그 */}
+            <audio
+              ref={(a) => {
+                if (a && a.srcObject !== stream) a.srcObject = stream;
+                if (a) deviceService.applyOutputDevice(a, outputDeviceId);
+              }}
+              autoPlay
+              playsInline
+            />
+            {/* 비디오 트랙이 없는 경우 아바타 표시 */}
+            <div className="absolute inset-0 flex items-center justify-center bg-gray-800/80 backdrop-blur-sm">
+              <div className="text-center">
+                <div className="w-20 h-20 mx-auto mb-2 rounded-full bg-gray-700 flex items-center justify-center">
+                  <span className="text-2xl font-bold text-white">{nickname.substring(0, 1)}</span>
+                </div>
+                <span className="text-white font-medium px-4 py-2 rounded-lg bg-gray-900/50">{nickname}</span>
+              </div>
+            </div>
+          </>
+        )}
+        {/* 사용자 이름 및 마이크 상태 표시 */}
+        <div className="absolute bottom-4 left-4 px-4 py-2 bg-black/50 backdrop-blur-md rounded-xl">
+          <div className="flex items-center space-x-2">
+            {hasAudio ? <div className="w-2 h-2 rounded-full bg-green-500" /> : <SpeakerXMarkIcon className="w-4 h-4 text-red-400" title="마이크 꺼짐" />}
+            <span className="text-sm text-white font-medium">{nickname}</span>
+            {hostId === userId && <StarIcon className="w-4 h-4 text-yellow-400" title="호스트" />}
+            {pinnedId === userId && <MapPinIcon className="w-4 h-4 text-indigo-300" title="고정됨" />}
+            {media?.isScreenSharing && <ComputerDesktopIcon className="w-4 h-4 text-indigo-300" title="화면 공유 중" />}
+          </div>
+        </div>
+
+        {/* 연결 품질 표시 */}
+        <div className="absolute top-2 left-2">
+          <ConnectionQuality userId={userId} />
+        </div>
+
+        {/* 스포트라이트 표시 */}
+        {spotlightId === userId && (
+          <div className="absolute top-2 left-1/2 -translate-x-1/2 px-3 py-1 flex items-center space-x-1 rounded-full bg-indigo-500/90 text-white text-xs font-medium shadow">
+            <SparklesIcon className="w-4 h-4" />
+            <span>스포트라이트</span>
+          </div>
+        )}
+
+        {/* 손 들기 및 이모지 반응 */}
+        <ParticipantSignals userId={userId} />
+
+        {/* 마우스 호버 시 나타나는 컨트롤 */}
+        {hoveredPeer === userId && (
+          <div className="absolute top-2 right-2 flex space-x-2 transition-opacity duration-300">
+            {/* 비디오 표시 모드 전환 버튼 */}
+            <button
+              onClick={toggleVideoDisplayMode}
+              className="p-2 bg-black/60 hover:bg-black/80 text-white rounded-full backdrop-blur-sm transition-colors"
+              title={videoDisplayMode === 'cover' ? '원본 비율로 보기' : '화면에 맞춰 보기'}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                {videoDisplayMode === 'cover' ? (
+                  <path d="M3 4a1 1 0 011-1h12a1 1 0 011 1v2a1 1 0 01-1 1H4a1 1 0 01-1-1V4zM3 10a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H4a1 1 0 01-1-1v-6zM14 9a1 1 0 00-1 1v6a1 1 0 001 1h2a1 1 0 001-1v-6a1 1 0 00-1-1h-2z" />
+                ) : (
+                  <path d="M5 3a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 11a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2v-2a2 2 0 00-2-2H5zM11 5a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V5zM14 11a1 1 0 011 1v1h1a1 1 0 110 2h-1v1a1 1 0 11-2 0v-1h-1a1 1 0 110-2h1v-1a1 1 0 011-1z" />
+                )}
+              </svg>
+            </button>
+            {/* 화면 고정 버튼 */}
+            <button
+              onClick={() => dispatch(togglePinned(userId))}
+              className="p-2 bg-black/60 hover:bg-black/80 text-white rounded-full backdrop-blur-sm transition-colors"
+              title={pinnedId === userId ? '고정 해제' : '화면에 고정'}
+            >
+              <MapPinIcon className="h-5 w-5" />
+            </button>
+            {/* 전체화면 도움말 */}
+            <div className="p-2 bg-black/60 text-white text-xs rounded-full backdrop-blur-sm flex items-center">더블클릭: 전체화면</div>
+            {/* 호스트 전용 참가자 관리 메뉴 */}
+            {isHost && (
+              <ParticipantMenu
+                nickname={nickname}
+                onMute={() => socketService.moderate('mute-participant', roomId!, userId)}
+                onDisableCamera={() => socketService.moderate('disable-camera', roomId!, userId)}
+                isSpotlighted={spotlightId === userId}
+                onToggleSpotlight={() => socketService.setSpotlight(roomId!, spotlightId === userId ? null : userId)}
+                onTransferHost={() => socketService.moderate('transfer-host', roomId!, userId)}
+                onRemove={() => socketService.moderate('remove-participant', roomId!, userId)}
+              />
+            )}
+          </div>
+        )}
+
+        {/* 비디오 트랙이 있지만 상대가 카메라를 끈 경우 */}
+        {hasVideo && !isPeerCameraOn && (
+          <div className="absolute inset-0 flex items-center justify-center bg-gray-800/80 backdrop-blur-sm">
+            <div className="text-center">
+              <div className="w-20 h-20 mx-auto mb-2 rounded-full bg-gray-700 flex items-center justify-center">
+                <span className="text-2xl font-bold text-white">{nickname.substring(0, 1)}</span>
+              </div>
+              <span className="text-white font-medium px-4 py-2 rounded-lg bg-gray-900/50">{nickname}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  /**
+   * 참가자 ID에 해당하는 비디오 타일
+   * @param id - 참가자 ID
+   * @param isStage - 크게 표시하는 타일인지 여부
+   */
+  const renderTile = (id: string, isStage: boolean) => {
+    if (id === userId) return renderLocalTile(isStage);
+    const peer = remotePeers.find((remotePeer) => remotePeer.userId === id);
+    return peer ? renderRemoteTile(peer, isStage) : null;
+  };
+
   // 방 ID 복사 함수 추가
   const copyRoomId = () => {
     navigator.clipboard.writeText(roomId || '');
@@ -612,175 +1059,52 @@ export default function Room() {
         <div className="flex-1 flex overflow-hidden min-w-[320px]">
           {/* 비디오 그리드 */}
           <div className="flex-1 p-1 sm:p-2 md:p-4 overflow-auto">
-            <div
-              className={`grid grid-cols-1 sm:grid-cols-1 ${
-                showChat ? 'md:grid-cols-1 lg:grid-cols-2 xl:grid-cols-2 2xl:grid-cols-4' : 'md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4'
-              } gap-2 sm:gap-4`}
-            >
-              {/* 로컬 비디오 컨테이너 */}
-              <div
-                className="relative rounded-xl sm:rounded-2xl overflow-hidden bg-gray-200 dark:bg-gray-700 shadow-lg aspect-video w-full"
-                style={{ minHeight: '120px', maxHeight: '80vh', maxWidth: '100%' }}
-                onMouseEnter={() => setShowLocalControls(true)}
-                onMouseLeave={() => setShowLocalControls(false)}
-              >
-                {/* 로컬 비디오 요소 */}
-                <video
-                  ref={(video) => {
-                    if (video && localStream) {
-                      if (video.srcObject !== localStream) {
-                        video.srcObject = localStream;
-                        video.muted = true; // 로컬 비디오는 항상 음소거
-                      }
-                    }
+            <VideoLayout
+              mode={tileLayout.mode}
+              presentation={
+                hasPresentation ? (
+                  <>
+                    {/* 화면 공유 프레젠테이션 타일 (발표자 카메라는 썸네일로 표시) */}
+                    {isScreenSharing && screenStream && (
+                      <PresentationView screenStream={screenStream} cameraStream={isVideoEnabled ? localStream : null} presenterName={nickname} isLocal onDoubleClick={handleVideoDoubleClick} />
+                    )}
+                    {remotePeers
+                      .filter((peer) => peer.screenStream)
+                      .map((peer) => (
+                        <PresentationView
+                          key={`screen-${peer.userId}`}
+                          screenStream={peer.screenStream!}
+                          cameraStream={participantMedia[peer.userId]?.videoEnabled === false ? null : peer.stream}
+                          presenterName={peer.nickname}
+                          isLocal={false}
+                          onDoubleClick={handleVideoDoubleClick}
+                        />
+                      ))}
+                  </>
+                ) : null
+              }
+              stage={tileLayout.stageId ? renderTile(tileLayout.stageId, true) : null}
+              tiles={tileLayout.pageIds.map((id) => ({ id, element: renderTile(id, false) }))}
+              page={tileLayout.page}
+              pageCount={tileLayout.pageCount}
+              onPageChange={(page) => dispatch(setPage(page))}
+              maxColumns={Math.max(1, Math.floor((windowWidth - (showChat ? 300 : 0)) / 320))}
+            />
+
+            {/* 화면에 표시하지 않는 참가자의 음성 재생 (다른 페이지의 참가자) */}
+            {remotePeers
+              .filter((peer) => peer.userId !== tileLayout.stageId && !tileLayout.pageIds.includes(peer.userId))
+              .map((peer) => (
+                <audio
+                  key={`audio-${peer.userId}`}
+                  ref={(audio) => {
+                    if (audio && audio.srcObject !== peer.stream) audio.srcObject = peer.stream;
+                    if (audio) deviceService.applyOutputDevice(audio, outputDeviceId);
                   }}
                   autoPlay
-                  muted
-                  className={`w-full h-full object-${videoDisplayMode}`}
-                  style={{ minWidth: '100%', minHeight: '100%', maxWidth: '100%' }}
-                  onDoubleClick={handleVideoDoubleClick}
+                  playsInline
                 />
-                {/* 사용자 이름 및 마이크 상태 표시 */}
-                <div className="absolute bottom-4 left-4 px-4 py-2 bg-black/50 backdrop-blur-md rounded-xl">
-                  <div className="flex items-center space-x-2">
-                    <div className={`w-2 h-2 rounded-full ${isMicOn ? 'bg-green-500' : 'bg-red-500'}`} />
-                    <span className="text-sm text-white font-medium">{nickname} (나)</span>
-                  </div>
-                </div>
-
-                {/* 마우스 호버 시 나타나는 컨트롤 */}
-                {showLocalControls && (
-                  <div className="absolute top-2 right-2 flex space-x-2 transition-opacity duration-300">
-                    {/* 비디오 표시 모드 전환 버튼 */}
-                    <button
-                      onClick={toggleVideoDisplayMode}
-                      className="p-2 bg-black/60 hover:bg-black/80 text-white rounded-full backdrop-blur-sm transition-colors"
-                      title={videoDisplayMode === 'cover' ? '원본 비율로 보기' : '화면에 맞춰 보기'}
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                        {videoDisplayMode === 'cover' ? (
-                          <path d="M3 4a1 1 0 011-1h12a1 1 0 011 1v2a1 1 0 01-1 1H4a1 1 0 01-1-1V4zM3 10a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H4a1 1 0 01-1-1v-6zM14 9a1 1 0 00-1 1v6a1 1 0 001 1h2a1 1 0 001-1v-6a1 1 0 00-1-1h-2z" />
-                        ) : (
-                          <path d="M5 3a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 11a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2v-2a2 2 0 00-2-2H5zM11 5a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V5zM14 11a1 1 0 011 1v1h1a1 1 0 110 2h-1v1a1 1 0 11-2 0v-1h-1a1 1 0 110-2h1v-1a1 1 0 011-1z" />
-                        )}
-                      </svg>
-                    </button>
-                    {/* 전체화면 도움말 */}
-                    <div className="p-2 bg-black/60 text-white text-xs rounded-full backdrop-blur-sm flex items-center">더블클릭: 전체화면</div>
-                  </div>
-                )}
-
-                {/* 카메라가 꺼져있거나 사용 불가능한 경우 보여줄 오버레이 */}
-                {(!isCameraOn || localStream?.getVideoTracks().length === 0) && !isScreenSharing && (
-                  <div className="absolute inset-0 flex items-center justify-center bg-gray-800/80 backdrop-blur-sm">
-                    <div className="text-center">
-                      <div className="w-20 h-20 mx-auto mb-2 rounded-full bg-gray-700 flex items-center justify-center">
-                        <span className="text-2xl font-bold text-white">{nickname.substring(0, 1)}</span>
-                      </div>
-                      <span className="text-white font-medium px-4 py-2 rounded-lg bg-gray-900/50">카메라 꺼짐</span>
-                    </div>
-                  </div>
-                )}
-              </div>
-
-              {/* 원격 피어 비디오 그리드 */}
-              {remotePeers.map(({ userId, stream, nickname }) => {
-                const hasVideo = stream.getVideoTracks().length > 0;
-                const hasAudio = stream.getAudioTracks().length > 0 && stream.getAudioTracks()[0].enabled;
-
-                return (
-                  <div
-                    key={userId}
-                    className="relative rounded-xl sm:rounded-2xl overflow-hidden bg-gray-200 dark:bg-gray-700 shadow-lg aspect-video w-full"
-                    style={{ minHeight: '120px', maxHeight: '80vh', maxWidth: '100%' }}
-                    onMouseEnter={() => setHoveredPeer(userId)}
-                    onMouseLeave={() => setHoveredPeer(null)}
-                  >
-                    {/* 비디오 트랙이 있는 경우 비디오 요소 렌더링 */}
-                    {hasVideo ? (
-                      <video
-                        ref={(video) => {
-                          if (video && stream) {
-                            if (video.srcObject !== stream) {
-                              video.srcObject = stream;
-                              video.onloadedmetadata = () => {
-                                video.play();
-                              };
-                            }
-                          }
-                        }}
-                        data-peer-id={userId}
-                        autoPlay
-                        className={`w-full h-full object-${videoDisplayMode}`}
-                        style={{ minWidth: '100%', minHeight: '100%', maxWidth: '100%' }}
-                        onDoubleClick={handleVideoDoubleClick}
-                      />
-                    ) : (
-                      <>
-                        {/* ⬇︎ 오디오만 받는 경우 재생용 태그 */}
-                        <audio
-                          ref={(a) => {
-                            if (a && a.srcObject !== stream) a.srcObject = stream;
-                          }}
-                          autoPlay
-                          playsInline
-                        />
-                        {/* 비디오 트랙이 없는 경우 아바타 표시 */}
-                        <div className="absolute inset-0 flex items-center justify-center bg-gray-800/80 backdrop-blur-sm">
-                          <div className="text-center">
-                            <div className="w-20 h-20 mx-auto mb-2 rounded-full bg-gray-700 flex items-center justify-center">
-                              <span className="text-2xl font-bold text-white">{nickname.substring(0, 1)}</span>
-                            </div>
-                            <span className="text-white font-medium px-4 py-2 rounded-lg bg-gray-900/50">{nickname}</span>
-                          </div>
-                        </div>
-                      </>
-                    )}
-                    {/* 사용자 이름 및 마이크 상태 표시 */}
-                    <div className="absolute bottom-4 left-4 px-4 py-2 bg-black/50 backdrop-blur-md rounded-xl">
-                      <div className="flex items-center space-x-2">
-                        <div className={`w-2 h-2 rounded-full ${hasAudio ? 'bg-green-500' : 'bg-red-500'}`} />
-                        <span className="text-sm text-white font-medium">{nickname}</span>
-                      </div>
-                    </div>
-
-                    {/* 마우스 호버 시 나타나는 컨트롤 */}
-                    {hoveredPeer === userId && (
-                      <div className="absolute top-2 right-2 flex space-x-2 transition-opacity duration-300">
-                        {/* 비디오 표시 모드 전환 버튼 */}
-                        <button
-                          onClick={toggleVideoDisplayMode}
-                          className="p-2 bg-black/60 hover:bg-black/80 text-white rounded-full backdrop-blur-sm transition-colors"
-                          title={videoDisplayMode === 'cover' ? '원본 비율로 보기' : '화면에 맞춰 보기'}
-                        >
-                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                            {videoDisplayMode === 'cover' ? (
-                              <path d="M3 4a1 1 0 011-1h12a1 1 0 011 1v2a1 1 0 01-1 1H4a1 1 0 01-1-1V4zM3 10a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H4a1 1 0 01-1-1v-6zM14 9a1 1 0 00-1 1v6a1 1 0 001 1h2a1 1 0 001-1v-6a1 1 0 00-1-1h-2z" />
-                            ) : (
-                              <path d="M5 3a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 11a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2v-2a2 2 0 00-2-2H5zM11 5a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V5zM14 11a1 1 0 011 1v1h1a1 1 0 110 2h-1v1a1 1 0 11-2 0v-1h-1a1 1 0 110-2h1v-1a1 1 0 011-1z" />
-                            )}
-                          </svg>
-                        </button>
-                        {/* 전체화면 도움말 */}
-                        <div className="p-2 bg-black/60 text-white text-xs rounded-full backdrop-blur-sm flex items-center">더블클릭: 전체화면</div>
-                      </div>
-                    )}
-
-                    {/* 비디오 트랙이 있지만 비활성화된 경우 */}
-                    {hasVideo && !stream.getVideoTracks()[0].enabled && (
-                      <div className="absolute inset-0 flex items-center justify-center bg-gray-800/80 backdrop-blur-sm">
-                        <div className="text-center">
-                          <div className="w-20 h-20 mx-auto mb-2 rounded-full bg-gray-700 flex items-center justify-center">
-                            <span className="text-2xl font-bold text-white">{nickname.substring(0, 1)}</span>
-                          </div>
-                          <span className="text-white font-medium px-4 py-2 rounded-lg bg-gray-900/50">{nickname}</span>
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                );
-              })}
-            </div>
+              ))}
           </div>
 
           {/* 채팅 패널 */}
@@ -803,24 +1127,24 @@ export default function Room() {
           <div className="max-w-7xl mx-auto flex justify-center space-x-4">
             {/* 카메라 제어 버튼 */}
             <button
-              onClick={() => setIsCameraOn(!isCameraOn)}
+              onClick={() => dispatch(setCameraEnabled(!isVideoEnabled))}
               className={`p-4 rounded-xl transition-all ${
-                isCameraOn ? 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600' : 'bg-red-500 hover:bg-red-600 text-white'
+                isVideoEnabled ? 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600' : 'bg-red-500 hover:bg-red-600 text-white'
               }`}
-              title={isCameraOn ? '카메라 끄기' : '카메라 켜기'}
+              title={isVideoEnabled ? '카메라 끄기' : '카메라 켜기'}
             >
-              {isCameraOn ? <VideoCameraIcon className="w-6 h-6 text-blue-500" /> : <VideoCameraSlashIcon className="w-6 h-6 text-blue-500" />}
+              {isVideoEnabled ? <VideoCameraIcon className="w-6 h-6 text-blue-500" /> : <VideoCameraSlashIcon className="w-6 h-6 text-blue-500" />}
             </button>
 
             {/* 마이크 제어 버튼 */}
             <button
-              onClick={() => setIsMicOn(!isMicOn)}
+              onClick={() => dispatch(setMicrophoneEnabled(!isAudioEnabled))}
               className={`p-4 rounded-xl transition-all ${
-                isMicOn ? 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600' : 'bg-red-500 hover:bg-red-600 text-white'
+                isAudioEnabled ? 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600' : 'bg-red-500 hover:bg-red-600 text-white'
               }`}
-              title={isMicOn ? '마이크 끄기' : '마이크 켜기'}
+              title={isAudioEnabled ? '마이크 끄기' : '마이크 켜기'}
             >
-              {isMicOn ? <MicrophoneIcon className="w-6 h-6 text-blue-500" /> : <SpeakerXMarkIcon className="w-6 h-6 text-blue-500" />}
+              {isAudioEnabled ? <MicrophoneIcon className="w-6 h-6 text-blue-500" /> : <SpeakerXMarkIcon className="w-6 h-6 text-blue-500" />}
             </button>
 
             {/* 화면 공유 버튼 */}
@@ -834,6 +1158,30 @@ export default function Room() {
               {isScreenSharing ? <ComputerDesktopIcon className="w-6 h-6 text-blue-500" /> : <PresentationChartLineIcon className="w-6 h-6 text-blue-500" />}
             </button>
 
+            {/* PIP 버튼 (지원하는 브라우저만) */}
+            {pictureInPictureService.isSupported() && (
+              <button
+                onClick={() => (pictureInPicture.mode ? pictureInPictureService.close() : openPictureInPicture())}
+                className={`p-4 rounded-xl transition-all ${
+                  pictureInPicture.mode ? 'bg-indigo-500 hover:bg-indigo-600 text-white' : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+                title={pictureInPicture.mode ? 'PIP 닫기' : 'PIP로 보기'}
+              >
+                <WindowIcon className={`w-6 h-6 ${pictureInPicture.mode ? 'text-white' : 'text-indigo-500'}`} />
+              </button>
+            )}
+
+            {/* 녹화 버튼 */}
+            <button
+              onClick={() => dispatch(isRecording ? stopRecording(roomId!) : startRecording(roomId!))}
+              className={`p-4 rounded-xl transition-all ${
+                isRecording ? 'bg-red-500 hover:bg-red-600 text-white' : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+              title={isRecording ? '녹화 중지' : '회의 녹화'}
+            >
+              {isRecording ? <StopIcon className="w-6 h-6 text-white" /> : <span className="block w-6 h-6 p-1"><span className="block w-full h-full rounded-full bg-red-500" /></span>}
+            </button>
+
             {/* 채팅 토글 버튼 */}
             <button
               onClick={handleToggleChat}
@@ -844,9 +1192,205 @@ export default function Room() {
             >
               <ChatBubbleLeftRightIcon className={`w-6 h-6 ${showChat ? 'text-white' : 'text-indigo-500'}`} />
             </button>
+
+            {/* 손 들기 버튼 */}
+            <button
+              onClick={() => socketService.raiseHand(roomId!, !isHandRaised)}
+              className={`p-4 rounded-xl transition-all ${
+                isHandRaised ? 'bg-yellow-400 hover:bg-yellow-500 text-gray-900' : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+              title={isHandRaised ? '손 내리기' : '손 들기'}
+            >
+              <HandRaisedIcon className={`w-6 h-6 ${isHandRaised ? 'text-gray-900' : 'text-indigo-500'}`} />
+            </button>
+
+            {/* 이모지 반응 버튼 */}
+            <ReactionPicker onSelect={(emoji) => socketService.sendReaction(roomId!, emoji)} />
+
+            {/* 레이아웃 선택 버튼 */}
+            <LayoutMenu />
+
+            {/* 대기실 토글 버튼 (호스트 전용) */}
+            {isHost && (
+              <button
+                onClick={() => socketService.setWaitingRoom(roomId!, !isWaitingRoomEnabled)}
+                className={`p-4 rounded-xl transition-all ${
+                  isWaitingRoomEnabled ? 'bg-indigo-500 hover:bg-indigo-600 text-white' : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+                title={isWaitingRoomEnabled ? '대기실 끄기 (대기 중인 사용자 모두 입장)' : '대기실 켜기 (입장 시 호스트 승인 필요)'}
+              >
+                <ShieldCheckIcon className={`w-6 h-6 ${isWaitingRoomEnabled ? 'text-white' : 'text-indigo-500'}`} />
+              </button>
+            )}
+
+            {/* 회의 잠금 토글 버튼 (호스트 전용) */}
+            {isHost && (
+              <button
+                onClick={() => socketService.setRoomLock(roomId!, !isLocked)}
+                className={`p-4 rounded-xl transition-all ${
+                  isLocked ? 'bg-indigo-500 hover:bg-indigo-600 text-white' : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+                title={isLocked ? '회의 잠금 해제' : '회의 잠금 (새 참가자 입장 차단)'}
+              >
+                {isLocked ? <LockClosedIcon className="w-6 h-6 text-white" /> : <LockOpenIcon className="w-6 h-6 text-indigo-500" />}
+              </button>
+            )}
+
+            {/* 회의 비밀번호 설정 버튼 (호스트 전용) */}
+            {isHost && (
+              <button
+                onClick={() => setShowPasscodeSettings(true)}
+                className={`p-4 rounded-xl transition-all ${
+                  hasPasscode ? 'bg-indigo-500 hover:bg-indigo-600 text-white' : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+                title={hasPasscode ? '회의 비밀번호 변경' : '회의 비밀번호 설정'}
+              >
+                <KeyIcon className={`w-6 h-6 ${hasPasscode ? 'text-white' : 'text-indigo-500'}`} />
+              </button>
+            )}
+
+            {/* 저대역폭 모드 토글 버튼 */}
+            <button
+              onClick={() => {
+                dispatch(setLowBandwidthMode(!isLowBandwidthMode));
+                toast.success(isLowBandwidthMode ? '화질 자동 조정으로 전환했습니다' : '저대역폭 모드를 켰습니다');
+              }}
+              className={`p-4 rounded-xl transition-all ${
+                isLowBandwidthMode ? 'bg-amber-500 hover:bg-amber-600 text-white' : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+              title={isLowBandwidthMode ? '저대역폭 모드 끄기 (화질 자동 조정)' : '저대역폭 모드 켜기'}
+            >
+              {isLowBandwidthMode ? <SignalSlashIcon className="w-6 h-6 text-white" /> : <SignalIcon className="w-6 h-6 text-indigo-500" />}
+            </button>
+
+            {/* 단축키 안내 버튼 */}
+            <button
+              onClick={() => setShowShortcutHelp(true)}
+              className="p-4 rounded-xl transition-all bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+              title="키보드 단축키"
+            >
+              <QuestionMarkCircleIcon className="w-6 h-6 text-indigo-500" />
+            </button>
+
+            {/* 장치 설정 버튼 */}
+            <button
+              onClick={() => setShowDeviceSettings(true)}
+              className="p-4 rounded-xl transition-all bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+              title="장치 설정"
+            >
+              <Cog6ToothIcon className="w-6 h-6 text-indigo-500" />
+            </button>
           </div>
         </div>
       </div>
+
+      {/* 장치 설정 패널 */}
+      {showDeviceSettings && <DeviceSettings onClose={() => setShowDeviceSettings(false)} onInputChange={handleInputChange} />}
+
+      {/* 단축키 안내 및 변경 */}
+      {showShortcutHelp && <ShortcutHelp onClose={() => setShowShortcutHelp(false)} />}
+
+      {/* 푸시 투 토크로 말하는 중 표시 */}
+      {isPushToTalkActive && (
+        <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 px-4 py-2 rounded-full shadow-lg bg-green-600 text-sm text-white">
+          <MicrophoneIcon className="h-4 w-4 animate-pulse" />
+          <span>말하는 중 (키를 떼면 마이크가 꺼집니다)</span>
+        </div>
+      )}
+
+      {/* 서버 연결이 끊긴 경우 재연결 안내 */}
+      {connectionState !== 'connected' && (
+        <div
+          className={`fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-2 rounded-lg shadow-lg text-sm text-white ${
+            connectionState === 'reconnecting' ? 'bg-amber-600' : 'bg-red-600'
+          }`}
+        >
+          {connectionState === 'reconnecting' ? (
+            <>
+              <ArrowPathIcon className="h-4 w-4 animate-spin" />
+              <span>연결이 끊어져 다시 연결하는 중입니다…</span>
+            </>
+          ) : (
+            <>
+              <span>서버에 다시 연결하지 못했습니다.</span>
+              <button onClick={() => window.location.reload()} className="px-2 py-1 rounded bg-white/20 hover:bg-white/30">
+                새로고침
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* PIP 창 (참가자 미니 그리드 및 제어 버튼, 말하는 참가자를 맨 앞에) */}
+      {pictureInPicture.window && (
+        <PictureInPictureView
+          pipWindow={pictureInPicture.window}
+          tiles={[
+            { id: userId, label: `${nickname} (나)`, stream: localStream, videoEnabled: isVideoEnabled, isSpeaking: voiceActivity.speakingIds.includes(userId) },
+            ...remotePeers.map(
+              (peer): PictureInPictureTile => ({
+                id: peer.userId,
+                label: peer.nickname,
+                stream: peer.stream,
+                videoEnabled: peer.stream.getVideoTracks().length > 0 && (participantMedia[peer.userId]?.videoEnabled ?? true),
+                isSpeaking: voiceActivity.speakingIds.includes(peer.userId),
+              })
+            ),
+          ].sort((a, b) => Number(b.id === activeSpeakerId) - Number(a.id === activeSpeakerId))}
+          isAudioEnabled={isAudioEnabled}
+          isVideoEnabled={isVideoEnabled}
+          onToggleMicrophone={() => dispatch(setMicrophoneEnabled(!isAudioEnabled))}
+          onToggleCamera={() => dispatch(setCameraEnabled(!isVideoEnabled))}
+          onLeave={handleLeaveRoom}
+        />
+      )}
+
+      {/* 녹화 상태 및 녹화 파일 저장 안내 */}
+      <RecordingStatus />
+
+      {/* 손 든 참가자 대기열 */}
+      <RaisedHands roomId={roomId!} userId={userId} isHost={isHost} />
+
+      {/* 호스트에게 표시되는 입장 요청 */}
+      {isHost && <JoinRequests roomId={roomId!} />}
+
+      {/* 회의 비밀번호 설정 (호스트 전용) */}
+      {isHost && showPasscodeSettings && (
+        <PasscodeDialog
+          title={hasPasscode ? '회의 비밀번호 변경' : '회의 비밀번호 설정'}
+          description="비밀번호를 설정하면 새로 입장하는 참가자는 비밀번호를 입력해야 합니다. 이미 참가 중인 사용자에게는 영향이 없습니다."
+          submitLabel="설정"
+          onSubmit={handleRoomPasscodeChange}
+          onCancel={() => setShowPasscodeSettings(false)}
+          onClear={hasPasscode ? () => handleRoomPasscodeChange(null) : undefined}
+        />
+      )}
+
+      {/* 입장 비밀번호 입력 (비밀번호가 걸린 방) */}
+      {passcodePrompt && (
+        <PasscodeDialog
+          title="비밀번호가 필요한 회의"
+          description="호스트에게 받은 회의 비밀번호를 입력하세요."
+          submitLabel="입장"
+          error={passcodePrompt.error}
+          onSubmit={handlePasscodeSubmit}
+          onCancel={handleLeaveRoom}
+        />
+      )}
+
+      {/* 대기실 화면 (호스트 승인 전) */}
+      {isWaitingForAdmission && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/90 backdrop-blur-md text-white">
+          <div className="text-center px-6">
+            <div className="w-12 h-12 mx-auto mb-4 border-4 border-indigo-400 border-t-transparent rounded-full animate-spin" />
+            <h2 className="text-xl font-semibold mb-2">호스트의 승인을 기다리고 있습니다</h2>
+            <p className="text-sm text-gray-300 mb-6">호스트가 입장을 수락하면 회의에 자동으로 참가합니다.</p>
+            <button onClick={handleLeaveRoom} className="px-4 py-2 rounded-xl bg-gray-700 hover:bg-gray-600 transition-colors">
+              나가기
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,136 @@
+/**
+ * ShortcutHelp.tsx - 키보드 단축키 안내 및 변경 컴포넌트
+ *
+ * 기능별 단축키를 보여 주고, 변경 버튼을 누른 뒤 새 키 조합을 누르면 단축키를 바꿉니다.
+ * 이미 다른 기능이 쓰고 있는 키 조합을 고르면 두 기능의 단축키를 서로 바꿉니다.
+ */
+import { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { CommandLineIcon, XMarkIcon } from '@heroicons/react/24/solid';
+import toast from 'react-hot-toast';
+import { AppDispatch, RootState } from '../store';
+import { resetShortcuts, setShortcut } from '../store/slices/shortcutSlice';
+import type { ShortcutAction } from '../store/slices/shortcutSlice';
+import { formatShortcut, getShortcutFromEvent } from '../hooks/useShortcuts';
+
+// 기능별 표시 이름 (표시 순서)
+const SHORTCUT_LABELS: { action: ShortcutAction; label: string }[] = [
+  { action: 'toggleMicrophone', label: '마이크 켜기/끄기' },
+  { action: 'toggleCamera', label: '카메라 켜기/끄기' },
+  { action: 'toggleChat', label: '채팅 열기/닫기' },
+  { action: 'toggleScreenShare', label: '화면 공유 시작/중지' },
+  { action: 'raiseHand', label: '손 들기/내리기' },
+  { action: 'leaveRoom', label: '회의 나가기' },
+  { action: 'pushToTalk', label: '누르는 동안 말하기 (마이크가 꺼져 있을 때)' },
+  { action: 'showHelp', label: '단축키 안내' },
+];
+
+/**
+ * 단축키 안내 Props 인터페이스
+ * @property onClose - 닫기 핸들러
+ */
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+/**
+ * 단축키 안내 대화상자
+ */
+export default function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  const dispatch = useDispatch<AppDispatch>();
+  const { bindings } = useSelector((state: RootState) => state.shortcut);
+  // 새 키 조합을 기다리는 기능 (변경 중이 아니면 null)
+  const [editing, setEditing] = useState<ShortcutAction | null>(null);
+
+  // 변경 중이면 다음 키 조합을 단축키로 저장, 아니면 Esc로 닫기
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.isComposing) return;
+      if (event.code === 'Escape') {
+        event.preventDefault();
+        if (editing) {
+          setEditing(null);
+        } else {
+          onClose();
+        }
+        return;
+      }
+      if (!editing) return;
+
+      event.preventDefault();
+      const shortcut = getShortcutFromEvent(event);
+      if (!shortcut) return;
+
+      const conflict = SHORTCUT_LABELS.find(({ action }) => action !== editing && bindings[action] === shortcut);
+      dispatch(setShortcut({ action: editing, binding: shortcut }));
+      if (conflict) toast(`'${conflict.label}' 기능과 단축키를 서로 바꿨습니다`);
+      setEditing(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editing, bindings, dispatch, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className="w-full max-w-md mx-4 bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6">
+        {/* 헤더 */}
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center space-x-2 text-lg font-semibold">
+            <CommandLineIcon className="w-5 h-5 text-indigo-500" />
+            <span>키보드 단축키</span>
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">채팅을 입력하는 중에는 단축키가 동작하지 않습니다.</p>
+
+        {/* 기능별 단축키 */}
+        <ul className="space-y-1 text-sm">
+          {SHORTCUT_LABELS.map(({ action, label }) => (
+            <li key={action} className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50">
+              <span>{label}</span>
+              <span className="flex items-center gap-2 shrink-0">
+                {editing === action ? (
+                  <span className="text-xs text-indigo-500">새 키 조합을 누르세요 (Esc 취소)</span>
+                ) : (
+                  <span className="flex gap-1">
+                    {formatShortcut(bindings[action]).map((key) => (
+                      <kbd key={key} className="min-w-6 px-1.5 py-0.5 rounded-md bg-gray-100 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-xs text-center font-mono">
+                        {key}
+                      </kbd>
+                    ))}
+                  </span>
+                )}
+                <button
+                  onClick={() => setEditing(editing === action ? null : action)}
+                  className="px-2 py-1 rounded-md text-xs text-indigo-500 hover:bg-indigo-50 dark:hover:bg-indigo-500/20"
+                >
+                  {editing === action ? '취소' : '변경'}
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end space-x-2 mt-6">
+          <button
+            onClick={() => {
+              dispatch(resetShortcuts());
+              setEditing(null);
+              toast.success('단축키를 기본값으로 되돌렸습니다');
+            }}
+            className="mr-auto px-4 py-2 text-sm rounded-xl text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            기본값으로 되돌리기
+          </button>
+          <button onClick={onClose} className="px-4 py-2 text-sm rounded-xl bg-indigo-500 hover:bg-indigo-600 text-white">
+            닫기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
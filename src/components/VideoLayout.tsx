@@ -0,0 +1,118 @@
+/**
+ * VideoLayout.tsx - 참가자 타일 배치 컴포넌트
+ *
+ * 레이아웃 종류에 따라 크게 표시할 타일(또는 화면 공유)과 나머지 타일을 배치하고,
+ * 타일이 한 페이지를 넘으면 페이지 이동 버튼을 표시합니다.
+ */
+import type { ReactNode } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/solid';
+import type { LayoutMode } from '../store/slices/layoutSlice';
+
+/**
+ * 타일 배치 Props 인터페이스
+ * @property mode - 적용할 레이아웃
+ * @property presentation - 화면 공유 타일 (공유 중인 참가자가 없으면 null)
+ * @property stage - 크게 표시할 참가자 타일 (없으면 null)
+ * @property tiles - 현재 페이지의 참가자 타일 (참가자 ID별)
+ * @property page - 현재 페이지 (0부터 시작)
+ * @property pageCount - 전체 페이지 수
+ * @property onPageChange - 페이지 이동 핸들러
+ * @property maxColumns - 갤러리 레이아웃의 최대 열 수 (화면 너비에 따라 결정)
+ */
+interface VideoLayoutProps {
+  mode: LayoutMode;
+  presentation: ReactNode | null;
+  stage: ReactNode | null;
+  tiles: { id: string; element: ReactNode }[];
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  maxColumns: number;
+}
+
+/**
+ * 페이지 이동 버튼 (페이지가 하나뿐이면 렌더링하지 않음)
+ */
+function Pagination({ page, pageCount, onPageChange }: Pick<VideoLayoutProps, 'page' | 'pageCount' | 'onPageChange'>) {
+  if (pageCount <= 1) return null;
+
+  const buttonClass = 'p-1.5 rounded-full bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed';
+  return (
+    <div className="flex items-center justify-center space-x-3 py-2 text-sm">
+      <button onClick={() => onPageChange(page - 1)} disabled={page === 0} className={buttonClass} title="이전 페이지">
+        <ChevronLeftIcon className="w-4 h-4" />
+      </button>
+      <span className="tabular-nums text-gray-600 dark:text-gray-300">
+        {page + 1} / {pageCount}
+      </span>
+      <button onClick={() => onPageChange(page + 1)} disabled={page >= pageCount - 1} className={buttonClass} title="다음 페이지">
+        <ChevronRightIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+/**
+ * 레이아웃별 타일 배치
+ * - gallery: 화면 공유 아래에 같은 크기의 그리드 (타일 수에 맞춰 열 수 결정)
+ * - speaker: 크게 표시할 타일 아래에 가로 줄
+ * - sidebar: 크게 표시할 타일 오른쪽에 세로 열
+ * - presentation: 화면 공유 오른쪽에 세로 열
+ */
+export default function VideoLayout({ mode, presentation, stage, tiles, page, pageCount, onPageChange, maxColumns }: VideoLayoutProps) {
+  const pagination = <Pagination page={page} pageCount={pageCount} onPageChange={onPageChange} />;
+
+  if (mode === 'gallery') {
+    const columns = Math.max(1, Math.min(Math.ceil(Math.sqrt(tiles.length)), maxColumns));
+    return (
+      <>
+        {presentation}
+        <div className="grid gap-2 sm:gap-4" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+          {tiles.map(({ id, element }) => (
+            <div key={id}>{element}</div>
+          ))}
+        </div>
+        {pagination}
+      </>
+    );
+  }
+
+  if (mode === 'speaker') {
+    return (
+      <div className="h-full flex flex-col">
+        {presentation}
+        <div className="flex-1 min-h-0">{stage}</div>
+        {tiles.length > 0 && (
+          <div className="flex justify-center-safe space-x-2 pt-2 overflow-x-auto">
+            {tiles.map(({ id, element }) => (
+              <div key={id} className="w-48 shrink-0">
+                {element}
+              </div>
+            ))}
+          </div>
+        )}
+        {pagination}
+      </div>
+    );
+  }
+
+  // 사이드바 및 프레젠테이션 레이아웃: 오른쪽 세로 열
+  return (
+    <div className="h-full flex flex-col">
+      {mode === 'sidebar' && presentation}
+      <div className="flex-1 min-h-0 flex space-x-2 sm:space-x-4">
+        <div className="flex-1 min-w-0 overflow-auto">{mode === 'presentation' ? presentation : stage}</div>
+        {tiles.length > 0 && (
+          <div className="w-40 sm:w-56 shrink-0 flex flex-col overflow-y-auto">
+            <div className="space-y-2">
+              {tiles.map(({ id, element }) => (
+                <div key={id}>{element}</div>
+              ))}
+            </div>
+            {pagination}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * 클라이언트 설정 모듈
+ *
+ * 같은 빌드를 개발/스테이징/운영 환경에서 사용할 수 있도록 앱 시작 시 페이지 오리진의 /config.json에서 실행 환경별 설정을 읽어옵니다.
+ * (EchoMeet 서버가 서버 설정의 client 항목으로 제공하며, 정적 파일을 따로 호스팅하면 같은 형식의 파일을 함께 배포)
+ * /config.json이 없거나 항목이 비어 있으면 기본값을 사용하고, 개발 모드에서는 Vite 환경 변수(VITE_*)를 대신 사용합니다.
+ */
+
+/**
+ * 클라이언트 설정
+ * @property signalingUrl - 시그널링(소켓.IO) 서버 URL
+ * @property maxFileSize - 채팅으로 공유할 수 있는 파일의 최대 크기 (bytes, 받는 쪽은 파일 전체를 메모리에 모은 뒤 저장)
+ */
+export interface ClientConfig {
+  signalingUrl: string;
+  maxFileSize: number;
+}
+
+/**
+ * /config.json 형식 (값이 null이면 기본값 사용)
+ * @property signalingUrl - 시그널링 서버 URL (null이면 현재 페이지 오리진)
+ * @property maxFileSizeMb - 파일 공유 최대 크기 (MB)
+ */
+interface RuntimeConfig {
+  signalingUrl?: string | null;
+  maxFileSizeMb?: number | null;
+}
+
+/**
+ * 시그널링 서버 URL 확인
+ * 잘못된 URL이면 연결을 시도하기 전에 바로 알 수 있도록 앱 시작 시 예외를 던집니다.
+ * @param value - 설정 값 (없으면 현재 페이지 오리진 사용)
+ * @param source - 오류 메시지에 표시할 설정 이름
+ */
+const resolveSignalingUrl = (value: string | null | undefined, source: string): string => {
+  if (!value) return window.location.origin;
+
+  try {
+    const url = new URL(value);
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      throw new Error(`지원하지 않는 프로토콜: ${url.protocol}`);
+    }
+    // 끝의 '/'는 제거하여 API 경로와 바로 이어 붙일 수 있게 함
+    return url.href.replace(/\/$/, '');
+  } catch (error) {
+    throw new Error(`${source} 설정이 잘못되었습니다 (${value}): ${(error as Error).message}`);
+  }
+};
+
+/**
+ * 채팅 파일 공유 최대 크기 확인 (MB 단위 값을 bytes로 변환)
+ * @param value - 설정 값 (없으면 100MB)
+ * @param source - 오류 메시지에 표시할 설정 이름
+ */
+const resolveMaxFileSize = (value: string | number | null | undefined, source: string): number => {
+  if (value === undefined || value === null || value === '') return 100 * 1024 * 1024;
+
+  const megabytes = Number(value);
+  if (!Number.isFinite(megabytes) || megabytes <= 0) {
+    throw new Error(`${source} 설정이 잘못되었습니다 (${value}): 0보다 큰 숫자여야 합니다.`);
+  }
+  return Math.floor(megabytes * 1024 * 1024);
+};
+
+/**
+ * /config.json 조회 (없거나 JSON이 아니면 null)
+ */
+const fetchRuntimeConfig = async (): Promise<RuntimeConfig | null> => {
+  try {
+    const response = await fetch('/config.json', { cache: 'no-store' });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return (await response.json()) as RuntimeConfig;
+  } catch (error) {
+    console.warn('실행 설정(/config.json)을 읽지 못해 기본 설정을 사용합니다:', error);
+    return null;
+  }
+};
+
+// 앱 시작 시 불러온 설정
+let config: ClientConfig | null = null;
+
+/**
+ * 실행 설정 불러오기 (앱을 렌더링하기 전에 한 번 호출)
+ * @throws 설정 값이 잘못된 경우
+ */
+export const loadConfig = async (): Promise<ClientConfig> => {
+  const runtime = await fetchRuntimeConfig();
+  // Vite 환경 변수는 빌드에 포함되므로 개발 모드에서만 사용
+  const env: Partial<ImportMetaEnv> = import.meta.env.DEV ? import.meta.env : {};
+
+  config = {
+    signalingUrl: runtime?.signalingUrl
+      ? resolveSignalingUrl(runtime.signalingUrl, 'config.json signalingUrl')
+      : resolveSignalingUrl(env.VITE_SIGNALING_URL, 'VITE_SIGNALING_URL'),
+    maxFileSize:
+      runtime?.maxFileSizeMb != null
+        ? resolveMaxFileSize(runtime.maxFileSizeMb, 'config.json maxFileSizeMb')
+        : resolveMaxFileSize(env.VITE_MAX_FILE_SIZE_MB, 'VITE_MAX_FILE_SIZE_MB'),
+  };
+  return config;
+};
+
+/**
+ * 불러온 클라이언트 설정
+ * @throws loadConfig 전에 호출한 경우
+ */
+export const getConfig = (): ClientConfig => {
+  if (!config) throw new Error('클라이언트 설정을 불러오기 전에 사용했습니다.');
+  return config;
+};
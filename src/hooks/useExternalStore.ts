@@ -0,0 +1,19 @@
+/**
+ * 외부 상태 저장소 구독 훅
+ *
+ * 서비스가 보관하는 ExternalStore를 useSyncExternalStore로 구독합니다.
+ * 일부 값만 필요하면 select로 골라 그 값이 바뀐 경우에만 다시 렌더링합니다.
+ */
+import { useSyncExternalStore } from 'react';
+import type { ExternalStore } from '../services/externalStore';
+
+/**
+ * 외부 상태 저장소의 현재 상태
+ * @param store - 구독할 저장소
+ * @param select - 상태에서 필요한 값을 고르는 함수 (상태가 같으면 같은 값을 반환해야 함)
+ */
+export function useExternalStore<T>(store: ExternalStore<T>): T;
+export function useExternalStore<T, S>(store: ExternalStore<T>, select: (state: T) => S): S;
+export function useExternalStore<T, S>(store: ExternalStore<T>, select?: (state: T) => S): T | S {
+  return useSyncExternalStore<T | S>(store.subscribe, select ? () => select(store.get()) : store.get);
+}
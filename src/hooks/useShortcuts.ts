@@ -0,0 +1,131 @@
+/**
+ * 키보드 단축키 훅
+ *
+ * 저장된 단축키 설정에 따라 회의 기능을 실행하고, 마이크가 꺼져 있을 때 누르고 있는 동안만 말하기(푸시 투 토크)를 처리합니다.
+ * 채팅 입력처럼 글자를 입력하는 중에는 단축키를 무시합니다.
+ */
+import { useEffect, useRef, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { RootState } from '../store';
+import type { ShortcutAction } from '../store/slices/shortcutSlice';
+
+// 단축키로 쓸 수 없는 키 (조합 키만 누른 경우)
+const MODIFIER_CODES = ['ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'ShiftLeft', 'ShiftRight', 'MetaLeft', 'MetaRight'];
+
+/**
+ * 키 입력을 단축키 문자열로 변환 (예: 'Alt+KeyM')
+ * @returns 조합 키만 누른 경우 null
+ */
+export const getShortcutFromEvent = (event: KeyboardEvent): string | null => {
+  if (!event.code || MODIFIER_CODES.includes(event.code)) return null;
+  const modifiers = [event.ctrlKey && 'Ctrl', event.altKey && 'Alt', event.shiftKey && 'Shift', event.metaKey && 'Meta'].filter(Boolean);
+  return [...modifiers, event.code].join('+');
+};
+
+/**
+ * 단축키 문자열을 화면 표시용 키 목록으로 변환 (예: 'Alt+KeyM' → ['Alt', 'M'])
+ */
+export const formatShortcut = (shortcut: string): string[] =>
+  shortcut.split('+').map((key) =>
+    key
+      .replace(/^Key/, '')
+      .replace(/^Digit/, '')
+      .replace(/^Numpad/, 'Num ')
+      .replace(/^Arrow/, '')
+      .replace(/^Slash$/, '/')
+  );
+
+/**
+ * 글자를 입력하는 중인지 여부 (입력창, 텍스트 영역, 선택 상자, 편집 가능한 요소)
+ */
+const isTyping = (event: KeyboardEvent) => {
+  const target = event.target as HTMLElement | null;
+  if (event.isComposing || !target) return true;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * 단축키 훅 옵션
+ * @property enabled - 단축키 사용 여부 (단축키 변경 중 등에는 false)
+ * @property isMuted - 마이크가 꺼져 있는지 여부 (꺼져 있을 때만 푸시 투 토크 동작)
+ * @property handlers - 기능별 실행 함수
+ * @property onPushToTalk - 푸시 투 토크 시작/종료 시 마이크를 켜고 끄는 함수
+ */
+interface UseShortcutsOptions {
+  enabled: boolean;
+  isMuted: boolean;
+  handlers: Partial<Record<Exclude<ShortcutAction, 'pushToTalk'>, () => void>>;
+  onPushToTalk: (active: boolean) => void;
+}
+
+/**
+ * 회의 화면 단축키 등록
+ * @returns 푸시 투 토크로 말하는 중인지 여부
+ */
+export function useShortcuts({ enabled, isMuted, handlers, onPushToTalk }: UseShortcutsOptions) {
+  const { bindings } = useSelector((state: RootState) => state.shortcut);
+  const [isTalking, setIsTalking] = useState(false);
+
+  // 렌더링마다 리스너를 다시 등록하지 않도록 최신 옵션을 ref로 보관
+  const optionsRef = useRef({ isMuted, handlers, onPushToTalk });
+  const isTalkingRef = useRef(false);
+  useEffect(() => {
+    optionsRef.current = { isMuted, handlers, onPushToTalk };
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // 푸시 투 토크 키의 코드 (키를 뗄 때는 조합 키를 먼저 뗄 수 있으므로 코드만 비교)
+    const pushToTalkCode = bindings.pushToTalk.split('+').pop();
+
+    const stopTalking = () => {
+      if (!isTalkingRef.current) return;
+      isTalkingRef.current = false;
+      setIsTalking(false);
+      optionsRef.current.onPushToTalk(false);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTyping(event)) return;
+      const shortcut = getShortcutFromEvent(event);
+      if (!shortcut) return;
+
+      if (shortcut === bindings.pushToTalk && (optionsRef.current.isMuted || isTalkingRef.current)) {
+        // 버튼에 포커스가 있을 때 스페이스로 버튼이 눌리거나 화면이 스크롤되지 않도록 기본 동작 취소
+        event.preventDefault();
+        if (event.repeat || isTalkingRef.current) return;
+        isTalkingRef.current = true;
+        setIsTalking(true);
+        optionsRef.current.onPushToTalk(true);
+        return;
+      }
+
+      const action = (Object.keys(bindings) as ShortcutAction[]).find((key) => key !== 'pushToTalk' && bindings[key] === shortcut);
+      const handler = action && action !== 'pushToTalk' ? optionsRef.current.handlers[action] : undefined;
+      if (!handler) return;
+      event.preventDefault();
+      if (!event.repeat) handler();
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (!isTalkingRef.current || event.code !== pushToTalkCode) return;
+      event.preventDefault();
+      stopTalking();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    // 키를 누른 채 다른 창으로 이동하면 keyup을 받지 못하므로 말하기 종료
+    window.addEventListener('blur', stopTalking);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', stopTalking);
+      stopTalking();
+    };
+  }, [enabled, bindings]);
+
+  return isTalking;
+}
@@ -0,0 +1,100 @@
+/**
+ * 참가자 타일 배치 훅
+ *
+ * 선택한 레이아웃과 스포트라이트 대상, 고정한 참가자, 주 발화자를 바탕으로 크게 표시할 타일과
+ * 현재 페이지에 표시할 타일을 계산하고, 화면에 없는 참가자의 카메라 영상 수신을 멈춥니다.
+ */
+import { useEffect, useRef } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import { setPage } from '../store/slices/layoutSlice';
+import type { LayoutMode } from '../store/slices/layoutSlice';
+import { webRTCService } from '../services/webrtc';
+
+/**
+ * 타일 배치 입력
+ * @property tileIds - 전체 참가자 ID (내 ID가 맨 앞, 이후 입장 순서)
+ * @property localId - 내 사용자 ID
+ * @property dominantSpeakerId - 주 발화자 ID
+ * @property hasPresentation - 화면 공유 중인 참가자가 있는지 여부
+ * @property pauseHiddenVideo - 화면에 없는 참가자의 영상 수신을 멈출지 여부 (PIP 창에 표시 중이면 false)
+ */
+interface TileLayoutInput {
+  tileIds: string[];
+  localId: string;
+  dominantSpeakerId: string | null;
+  hasPresentation: boolean;
+  pauseHiddenVideo: boolean;
+}
+
+/**
+ * 타일 배치 결과
+ * @property mode - 실제로 적용할 레이아웃 (스포트라이트 중이거나 화면 공유가 없으면 선택한 레이아웃과 다를 수 있음)
+ * @property stageId - 크게 표시할 참가자 ID (갤러리 레이아웃이거나 화면 공유를 크게 표시하는 경우 null)
+ * @property pageIds - 현재 페이지에 표시할 참가자 ID
+ * @property page - 현재 페이지 (0부터 시작)
+ * @property pageCount - 전체 페이지 수
+ */
+export interface TileLayout {
+  mode: LayoutMode;
+  stageId: string | null;
+  pageIds: string[];
+  page: number;
+  pageCount: number;
+}
+
+/**
+ * 현재 레이아웃에 따른 타일 배치
+ */
+export function useTileLayout({ tileIds, localId, dominantSpeakerId, hasPresentation, pauseHiddenVideo }: TileLayoutInput): TileLayout {
+  const dispatch = useDispatch<AppDispatch>();
+  const { mode: selectedMode, tilesPerPage, pinnedId, page: selectedPage } = useSelector((state: RootState) => state.layout);
+  const { spotlightId } = useSelector((state: RootState) => state.room);
+
+  // 마지막으로 말한 다른 참가자 (내가 말하거나 아무도 말하지 않을 때도 크게 표시하던 참가자 유지)
+  const lastSpeakerRef = useRef<string | null>(null);
+  if (dominantSpeakerId && dominantSpeakerId !== localId && tileIds.includes(dominantSpeakerId)) {
+    lastSpeakerRef.current = dominantSpeakerId;
+  }
+
+  const spotlight = spotlightId && tileIds.includes(spotlightId) ? spotlightId : null;
+  const pinned = pinnedId && tileIds.includes(pinnedId) ? pinnedId : null;
+
+  // 호스트가 스포트라이트를 지정하면 해제될 때까지 대상을 크게 표시 (사이드바가 아니면 스피커 레이아웃으로 전환)
+  let mode: LayoutMode = selectedMode === 'presentation' && !hasPresentation ? 'sidebar' : selectedMode;
+  if (spotlight) mode = selectedMode === 'sidebar' ? 'sidebar' : 'speaker';
+
+  // 크게 표시할 참가자: 스포트라이트 대상 → 고정한 참가자 → 마지막으로 말한 참가자 → 첫 번째 원격 참가자 → 나
+  let stageId: string | null = null;
+  if (mode === 'speaker' || mode === 'sidebar') {
+    const lastSpeaker = lastSpeakerRef.current && tileIds.includes(lastSpeakerRef.current) ? lastSpeakerRef.current : null;
+    stageId = spotlight ?? pinned ?? lastSpeaker ?? tileIds.find((id) => id !== localId) ?? localId;
+  }
+
+  // 나머지 타일 (고정한 참가자는 맨 앞으로)
+  const restIds = tileIds.filter((id) => id !== stageId);
+  if (pinned && pinned !== stageId) restIds.unshift(...restIds.splice(restIds.indexOf(pinned), 1));
+
+  const pageCount = Math.max(1, Math.ceil(restIds.length / tilesPerPage));
+  const page = Math.min(selectedPage, pageCount - 1);
+  const pageIds = restIds.slice(page * tilesPerPage, (page + 1) * tilesPerPage);
+
+  // 참가자가 나가서 페이지가 줄어든 경우 마지막 페이지로 이동
+  useEffect(() => {
+    if (selectedPage !== page) dispatch(setPage(page));
+  }, [selectedPage, page, dispatch]);
+
+  // 화면에 없는 원격 참가자의 카메라 영상 수신 중지
+  const hiddenKey = (pauseHiddenVideo ? tileIds : [])
+    .filter((id) => id !== localId && id !== stageId && !pageIds.includes(id))
+    .sort()
+    .join(',');
+  useEffect(() => {
+    webRTCService.setPausedVideo(hiddenKey ? hiddenKey.split(',') : []);
+  }, [hiddenKey]);
+
+  // 회의 화면을 벗어나면 모든 영상 다시 수신
+  useEffect(() => () => webRTCService.setPausedVideo([]), []);
+
+  return { mode, stageId, pageIds, page, pageCount };
+}
@@ -2,9 +2,18 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { loadConfig } from './config'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// 실행 설정(/config.json)을 불러온 뒤 렌더링
+loadConfig()
+  .then(() => {
+    createRoot(document.getElementById('root')!).render(
+      <StrictMode>
+        <App />
+      </StrictMode>,
+    )
+  })
+  .catch((error: Error) => {
+    console.error('클라이언트 설정 오류:', error)
+    document.getElementById('root')!.textContent = error.message
+  })
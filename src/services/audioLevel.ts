@@ -0,0 +1,73 @@
+/**
+ * 오디오 레벨 측정 모듈
+ *
+ * WebAudio AnalyserNode를 이용해 미디어 스트림의 현재 음량을 0~1 범위로 계산합니다.
+ * 입장 전 마이크 테스트와 발화자 감지에 사용됩니다.
+ */
+
+// 레벨 계산에 사용하는 최소 데시벨 (이보다 작으면 무음으로 취급)
+const MIN_DECIBELS = -60;
+
+/**
+ * 오디오 레벨 측정기 클래스
+ *
+ * 하나의 스트림에 대한 AnalyserNode를 만들고 호출 시점의 음량을 반환합니다.
+ * 여러 스트림을 측정할 때는 AudioContext를 공유할 수 있습니다.
+ */
+export class AudioLevelMeter {
+  private readonly context: AudioContext;
+  private readonly ownsContext: boolean;
+  private readonly source: MediaStreamAudioSourceNode;
+  private readonly analyser: AnalyserNode;
+  private readonly samples: Float32Array<ArrayBuffer>;
+
+  /**
+   * @param stream - 측정할 미디어 스트림 (오디오 트랙 필요)
+   * @param context - 공유할 AudioContext (없으면 새로 생성하고 close 시 함께 종료)
+   */
+  constructor(stream: MediaStream, context?: AudioContext) {
+    this.ownsContext = !context;
+    this.context = context ?? new AudioContext();
+    this.source = this.context.createMediaStreamSource(stream);
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 512;
+    this.analyser.smoothingTimeConstant = 0.3;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    // 출력 없이 분석만 수행 (destination에 연결하지 않음)
+    this.source.connect(this.analyser);
+  }
+
+  /**
+   * 현재 음량 반환
+   * @returns 0(무음) ~ 1(최대) 범위의 레벨
+   */
+  getLevel(): number {
+    // 자동 재생 정책으로 일시 중지된 경우 재개 시도
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+
+    this.analyser.getFloatTimeDomainData(this.samples);
+
+    let sum = 0;
+    for (const sample of this.samples) {
+      sum += sample * sample;
+    }
+    const rms = Math.sqrt(sum / this.samples.length);
+    if (rms === 0) return 0;
+
+    const decibels = 20 * Math.log10(rms);
+    return Math.min(1, Math.max(0, (decibels - MIN_DECIBELS) / -MIN_DECIBELS));
+  }
+
+  /**
+   * 측정 종료 및 오디오 노드 정리
+   */
+  close() {
+    this.source.disconnect();
+    this.analyser.disconnect();
+    if (this.ownsContext) {
+      this.context.close().catch(() => {});
+    }
+  }
+}
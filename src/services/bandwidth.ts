@@ -0,0 +1,173 @@
+/**
+ * 송신 대역폭 관리 모듈
+ *
+ * 메시 구조에서는 참가자 수만큼 영상을 따로 업로드하므로, 전체 업로드 예산을 피어별로 나누고
+ * 측정된 손실률과 왕복 지연에 따라 해상도와 프레임 레이트를 단계적으로 낮추거나 회복합니다.
+ */
+import type { PeerStats } from './stats';
+
+/**
+ * 송신 품질 단계
+ * @property scaleResolutionDownBy - 해상도 축소 비율 (1: 원본)
+ * @property maxFramerate - 최대 프레임 레이트
+ * @property maxBitrate - 최대 비트레이트 (bps)
+ */
+export interface SendQualityLevel {
+  scaleResolutionDownBy: number;
+  maxFramerate: number;
+  maxBitrate: number;
+}
+
+// 품질 단계 (0이 최고 품질, 마지막이 최저 품질)
+const QUALITY_LEVELS: SendQualityLevel[] = [
+  { scaleResolutionDownBy: 1, maxFramerate: 30, maxBitrate: 1_500_000 }, // 720p
+  { scaleResolutionDownBy: 1.5, maxFramerate: 24, maxBitrate: 800_000 }, // 480p
+  { scaleResolutionDownBy: 2, maxFramerate: 15, maxBitrate: 400_000 }, // 360p
+  { scaleResolutionDownBy: 4, maxFramerate: 10, maxBitrate: 150_000 }, // 180p
+];
+
+// 저대역폭 모드에서 사용할 최소 단계
+const LOW_BANDWIDTH_LEVEL = QUALITY_LEVELS.length - 1;
+// 모든 피어가 나눠 쓰는 전체 업로드 예산 (bps)
+const UPLOAD_BUDGET = 3_000_000;
+// 피어당 최소 보장 비트레이트 (bps)
+const MIN_PEER_BITRATE = 100_000;
+
+// 단계를 낮추는 조건 (하나라도 넘으면 즉시 한 단계 하향)
+const DEGRADE_LOSS = 5; // 송신 손실률 (%)
+const DEGRADE_RTT = 400; // 왕복 지연 (ms)
+// 단계를 올리는 조건 (모두 만족하는 샘플이 연속으로 쌓여야 한 단계 상향)
+const RECOVER_LOSS = 2;
+const RECOVER_RTT = 250;
+const RECOVER_SAMPLES = 5;
+
+/**
+ * 피어별 조정 상태
+ * @property level - 현재 품질 단계 (QUALITY_LEVELS 인덱스)
+ * @property goodSamples - 연속으로 양호했던 샘플 수
+ */
+interface PeerBandwidthState {
+  level: number;
+  goodSamples: number;
+}
+
+/**
+ * 대역폭 관리자 클래스
+ *
+ * 통계 샘플을 받아 피어별 송신 품질 단계를 결정합니다. 실제 인코딩 적용은 WebRTCService가 담당합니다.
+ */
+export class BandwidthManager {
+  private peers: Map<string, PeerBandwidthState> = new Map();
+  // 피어별 최신 추정 가용 대역폭 (kbps)
+  private availableBitrates: Map<string, number> = new Map();
+  private lowBandwidthMode = false;
+
+  /**
+   * 저대역폭 모드 설정
+   * 켜져 있는 동안 네트워크 상태와 무관하게 최저 단계로 전송합니다.
+   */
+  setLowBandwidthMode(enabled: boolean) {
+    this.lowBandwidthMode = enabled;
+  }
+
+  isLowBandwidthMode() {
+    return this.lowBandwidthMode;
+  }
+
+  /**
+   * 최신 통계로 피어별 단계를 갱신하고 적용할 송신 품질 계산
+   * @param stats - 모든 피어의 최신 통계
+   * @param peerIds - 현재 연결된 피어 ID 목록 (통계가 아직 없는 피어 포함)
+   * @returns 피어 ID별 송신 품질
+   */
+  update(stats: PeerStats[], peerIds: string[]): Map<string, SendQualityLevel> {
+    const statsById = new Map(stats.map((peerStats) => [peerStats.userId, peerStats]));
+
+    // 사라진 피어 상태 정리
+    for (const userId of this.peers.keys()) {
+      if (!peerIds.includes(userId)) {
+        this.peers.delete(userId);
+        this.availableBitrates.delete(userId);
+      }
+    }
+
+    for (const userId of peerIds) {
+      const state = this.peers.get(userId) ?? { level: 0, goodSamples: 0 };
+      const peerStats = statsById.get(userId);
+      if (peerStats) {
+        this.adjust(state, peerStats);
+        if (peerStats.availableOutgoingBitrate !== null) {
+          this.availableBitrates.set(userId, peerStats.availableOutgoingBitrate);
+        }
+      }
+      this.peers.set(userId, state);
+    }
+
+    return this.current(peerIds);
+  }
+
+  /**
+   * 현재 단계에 업로드 예산과 추정 가용 대역폭 상한을 적용한 송신 품질 계산
+   * 통계 갱신 없이 다시 계산할 때(저대역폭 모드 전환 등)도 사용합니다.
+   * @param peerIds - 현재 연결된 피어 ID 목록
+   */
+  current(peerIds: string[]): Map<string, SendQualityLevel> {
+    const plan = new Map<string, SendQualityLevel>();
+    if (peerIds.length === 0) return plan;
+
+    // 전체 예산을 피어 수로 균등 분배
+    const budgetPerPeer = Math.max(MIN_PEER_BITRATE, Math.floor(UPLOAD_BUDGET / peerIds.length));
+
+    for (const userId of peerIds) {
+      const level = this.lowBandwidthMode ? LOW_BANDWIDTH_LEVEL : (this.peers.get(userId)?.level ?? 0);
+      const quality = QUALITY_LEVELS[level];
+
+      let maxBitrate = Math.min(quality.maxBitrate, budgetPerPeer);
+      // 브라우저가 추정한 가용 대역폭이 더 낮으면 여유분(10%)을 남기고 맞춤
+      const available = this.availableBitrates.get(userId);
+      if (available) {
+        maxBitrate = Math.max(MIN_PEER_BITRATE, Math.min(maxBitrate, Math.floor(available * 1000 * 0.9)));
+      }
+
+      plan.set(userId, { ...quality, maxBitrate });
+    }
+
+    return plan;
+  }
+
+  /**
+   * 모든 피어 상태 초기화
+   */
+  clear() {
+    this.peers.clear();
+    this.availableBitrates.clear();
+  }
+
+  /**
+   * 손실률과 왕복 지연으로 단계 조정 (빠르게 낮추고 천천히 회복)
+   */
+  private adjust(state: PeerBandwidthState, stats: PeerStats) {
+    const loss = stats.outboundPacketLoss ?? 0;
+    const rtt = stats.roundTripTime ?? 0;
+
+    if (loss > DEGRADE_LOSS || rtt > DEGRADE_RTT) {
+      if (state.level < QUALITY_LEVELS.length - 1) {
+        state.level++;
+        console.log(`${stats.userId} 송신 품질 하향: 단계 ${state.level} (손실률 ${loss}%, 지연 ${rtt}ms)`);
+      }
+      state.goodSamples = 0;
+      return;
+    }
+
+    if (loss < RECOVER_LOSS && rtt < RECOVER_RTT) {
+      state.goodSamples++;
+      if (state.goodSamples >= RECOVER_SAMPLES && state.level > 0) {
+        state.level--;
+        state.goodSamples = 0;
+        console.log(`${stats.userId} 송신 품질 상향: 단계 ${state.level}`);
+      }
+    } else {
+      state.goodSamples = 0;
+    }
+  }
+}
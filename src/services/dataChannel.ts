@@ -0,0 +1,325 @@
+/**
+ * 피어 간 데이터 채널 메시지 모듈
+ *
+ * 피어 연결마다 협상된(negotiated) 데이터 채널을 열어 회의 중 제어 메시지를 서버를 거치지 않고 주고받습니다.
+ * 메시지는 { type, payload } 형태의 JSON으로 보내며, 수신한 메시지는 종류별 스키마로 검사한 뒤 구독자에게 전달합니다.
+ * 채널이 열리지 않은 피어에게는 소켓 서버 중계로 같은 메시지를 보냅니다.
+ */
+import { TypedEmitter } from './emitter';
+
+/**
+ * 전송 방식
+ * - reliable: 순서 보장, 유실 시 재전송 (상태 변경, 파일 등)
+ * - realtime: 순서 무시, 재전송 없음 (지연이 중요한 일회성 신호)
+ */
+export type Delivery = 'reliable' | 'realtime';
+
+/**
+ * 메시지 스키마
+ * @property delivery - 기본 전송 방식
+ * @property validate - 수신한 데이터가 이 메시지 형식인지 검사
+ */
+export interface MessageSchema<T> {
+  delivery: Delivery;
+  validate: (payload: unknown) => payload is T;
+}
+
+/**
+ * 채팅으로 공유한 파일 정보
+ * @property transferId - 전송 고유 ID
+ * @property name - 파일 이름
+ * @property size - 파일 크기 (bytes)
+ * @property mimeType - 파일 형식
+ * @property sha256 - 파일 전체의 SHA-256 해시 (16진수, 받은 뒤 무결성 검사용)
+ * @property chunkSize - 조각 크기 (bytes)
+ * @property totalChunks - 전체 조각 수
+ * @property senderNickname - 보낸 사용자 닉네임
+ * @property sentAt - 공유한 시각 (ms)
+ */
+export interface FileOffer {
+  transferId: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  sha256: string;
+  chunkSize: number;
+  totalChunks: number;
+  senderNickname: string;
+  sentAt: number;
+}
+
+/**
+ * 파일 전송 제어
+ * - pause / resume / cancel: 한 참가자와의 전송 일시 정지, 재개, 중단 (보낸 쪽과 받는 쪽 모두 보낼 수 있음)
+ * - withdraw: 보낸 사람이 파일 공유를 취소함 (더 이상 받을 수 없음)
+ */
+export type FileControlAction = 'pause' | 'resume' | 'cancel' | 'withdraw';
+
+/**
+ * 메시지 종류별 데이터 타입 (메시지를 추가하면 MESSAGE_SCHEMAS에도 스키마를 등록)
+ * - ping / pong: 채널이 열렸을 때 왕복 지연 확인
+ * - file-*: 채팅 파일 공유 (공유 알림 → 받기 요청 → 조각 전송, 조각은 base64 문자열)
+ */
+export type DataMessages = {
+  ping: { sentAt: number };
+  pong: { sentAt: number };
+  'file-offer': FileOffer;
+  'file-request': { transferId: string };
+  'file-chunk': { transferId: string; index: number; data: string };
+  'file-control': { transferId: string; action: FileControlAction };
+};
+
+/**
+ * 수신한 메시지
+ * @property from - 보낸 사용자 ID
+ * @property payload - 메시지 데이터
+ * @property relayed - 소켓 서버 중계로 받은 메시지인지 여부
+ */
+export interface DataMessage<T> {
+  from: string;
+  payload: T;
+  relayed: boolean;
+}
+
+// 메시지 종류별 수신 이벤트
+type ReceivedMessages = { [K in keyof DataMessages]: DataMessage<DataMessages[K]> };
+
+/**
+ * 전송 옵션
+ * @property delivery - 전송 방식 (지정하지 않으면 메시지 스키마의 기본값)
+ */
+export interface SendOptions {
+  delivery?: Delivery;
+}
+
+// 일반 객체인지 확인
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 시각 값만 담은 메시지 검사
+const hasSentAt = (payload: unknown): payload is { sentAt: number } => isRecord(payload) && typeof payload.sentAt === 'number';
+
+// 0 이상의 정수인지 확인
+const isIndex = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// 파일 공유 알림 검사 (조각 수가 파일 크기와 조각 크기에 맞아야 함)
+const isFileOffer = (payload: unknown): payload is FileOffer =>
+  isRecord(payload) &&
+  typeof payload.transferId === 'string' &&
+  typeof payload.name === 'string' &&
+  isIndex(payload.size) &&
+  typeof payload.mimeType === 'string' &&
+  typeof payload.sha256 === 'string' &&
+  isIndex(payload.chunkSize) &&
+  payload.chunkSize > 0 &&
+  isIndex(payload.totalChunks) &&
+  payload.totalChunks === Math.ceil(payload.size / payload.chunkSize) &&
+  typeof payload.senderNickname === 'string' &&
+  typeof payload.sentAt === 'number';
+
+const FILE_CONTROL_ACTIONS: FileControlAction[] = ['pause', 'resume', 'cancel', 'withdraw'];
+
+// 메시지 종류별 스키마
+const MESSAGE_SCHEMAS: { [K in keyof DataMessages]: MessageSchema<DataMessages[K]> } = {
+  ping: { delivery: 'realtime', validate: hasSentAt },
+  pong: { delivery: 'realtime', validate: hasSentAt },
+  'file-offer': { delivery: 'reliable', validate: isFileOffer },
+  'file-request': {
+    delivery: 'reliable',
+    validate: (payload): payload is DataMessages['file-request'] => isRecord(payload) && typeof payload.transferId === 'string',
+  },
+  'file-chunk': {
+    delivery: 'reliable',
+    validate: (payload): payload is DataMessages['file-chunk'] =>
+      isRecord(payload) && typeof payload.transferId === 'string' && isIndex(payload.index) && typeof payload.data === 'string',
+  },
+  'file-control': {
+    delivery: 'reliable',
+    validate: (payload): payload is DataMessages['file-control'] =>
+      isRecord(payload) && typeof payload.transferId === 'string' && FILE_CONTROL_ACTIONS.includes(payload.action as FileControlAction),
+  },
+};
+
+// 전송 방식별 채널 설정 (양쪽이 같은 ID로 채널을 만들어 별도 협상 없이 연결)
+const CHANNEL_OPTIONS: Record<Delivery, RTCDataChannelInit> = {
+  reliable: { negotiated: true, id: 0, ordered: true },
+  realtime: { negotiated: true, id: 1, ordered: false, maxRetransmits: 0 },
+};
+
+// 송신 버퍼가 이 크기를 넘으면 reliable 메시지는 대기하고 realtime 메시지는 버림 (bytes)
+const MAX_BUFFERED_AMOUNT = 1024 * 1024;
+// 대기 중인 전송을 다시 시작하는 송신 버퍼 크기 (bytes)
+const BUFFERED_AMOUNT_LOW = 256 * 1024;
+
+/**
+ * 데이터 채널 메시지 버스 클래스
+ *
+ * 피어별 채널 생성/정리, 송신 버퍼 관리, 수신 메시지 검사를 담당합니다.
+ * 피어 연결 관리는 WebRTCService가 담당합니다.
+ */
+export class DataChannelBus {
+  // 사용자 ID별 전송 방식별 데이터 채널
+  private channels: Map<string, Record<Delivery, RTCDataChannel>> = new Map();
+  private messages = new TypedEmitter<ReceivedMessages>();
+
+  /**
+   * @param relay - 채널이 열리지 않은 피어에게 소켓 서버 중계로 메시지를 보내는 함수
+   */
+  constructor(private relay: (to: string, message: string) => void) {
+    // 채널 상태 확인용 ping에는 바로 응답
+    this.messages.on('ping', ({ from, payload }) => this.send(from, 'pong', payload));
+    this.messages.on('pong', ({ from, payload }) => console.log(`데이터 채널 왕복 지연 (${from}): ${Date.now() - payload.sentAt}ms`));
+  }
+
+  /**
+   * 피어 연결에 데이터 채널 생성 (offer/answer 생성 전에 호출해야 SDP에 포함됨)
+   * @param userId - 원격 사용자 ID
+   * @param connection - 피어 연결
+   */
+  attach(userId: string, connection: RTCPeerConnection) {
+    this.detach(userId);
+
+    const create = (delivery: Delivery) => {
+      const channel = connection.createDataChannel(`echomeet-${delivery}`, CHANNEL_OPTIONS[delivery]);
+      channel.bufferedAmountLowThreshold = BUFFERED_AMOUNT_LOW;
+      channel.onmessage = (event) => {
+        if (typeof event.data === 'string') this.receive(userId, event.data, false);
+      };
+      return channel;
+    };
+
+    const channels = { reliable: create('reliable'), realtime: create('realtime') };
+    channels.reliable.onopen = () => {
+      console.log(`데이터 채널 열림 (${userId})`);
+      this.send(userId, 'ping', { sentAt: Date.now() }, { delivery: 'reliable' });
+    };
+    channels.reliable.onclose = () => console.log(`데이터 채널 닫힘 (${userId})`);
+    this.channels.set(userId, channels);
+  }
+
+  /**
+   * 피어의 데이터 채널 정리 (연결 종료 시)
+   * @param userId - 원격 사용자 ID
+   */
+  detach(userId: string) {
+    const channels = this.channels.get(userId);
+    if (!channels) return;
+
+    Object.values(channels).forEach((channel) => {
+      channel.onopen = channel.onclose = channel.onmessage = null;
+      channel.close();
+    });
+    this.channels.delete(userId);
+  }
+
+  /**
+   * 모든 데이터 채널 정리
+   */
+  clear() {
+    Array.from(this.channels.keys()).forEach((userId) => this.detach(userId));
+  }
+
+  /**
+   * 데이터 채널로 직접 주고받을 수 있는지 여부
+   * @param userId - 원격 사용자 ID
+   */
+  isOpen(userId: string): boolean {
+    return this.channels.get(userId)?.reliable.readyState === 'open';
+  }
+
+  /**
+   * 메시지 전송
+   * 채널이 열려 있으면 채널로, 아니면 소켓 서버 중계로 보냅니다. (중계로 보낸 메시지와 채널로 보낸 메시지 간 순서는 보장되지 않음)
+   * reliable 메시지는 송신 버퍼가 비워질 때까지 기다리고, realtime 메시지는 버퍼가 가득 차 있으면 버립니다.
+   * @param userId - 받을 사용자 ID
+   * @param type - 메시지 종류
+   * @param payload - 메시지 데이터
+   * @param options - 전송 옵션
+   * @returns 전송 여부 (버퍼가 가득 차 버렸거나 대기 중 채널이 닫히면 false)
+   */
+  async send<K extends keyof DataMessages>(userId: string, type: K, payload: DataMessages[K], options: SendOptions = {}): Promise<boolean> {
+    const message = JSON.stringify({ type, payload });
+    const delivery = options.delivery ?? MESSAGE_SCHEMAS[type].delivery;
+    const channel = this.channels.get(userId)?.[delivery];
+
+    if (channel?.readyState !== 'open') {
+      this.relay(userId, message);
+      return true;
+    }
+
+    if (channel.bufferedAmount > MAX_BUFFERED_AMOUNT) {
+      if (delivery === 'realtime' || !(await this.waitForBuffer(channel))) return false;
+    }
+
+    try {
+      channel.send(message);
+      return true;
+    } catch (error) {
+      console.error(`데이터 채널 전송 실패 (${userId}):`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 송신 버퍼가 비워질 때까지 대기
+   * @returns 전송을 계속할 수 있으면 true, 그 사이 채널이 닫히면 false
+   */
+  private waitForBuffer(channel: RTCDataChannel): Promise<boolean> {
+    return new Promise((resolve) => {
+      const done = (result: boolean) => {
+        channel.removeEventListener('bufferedamountlow', onLow);
+        channel.removeEventListener('close', onClose);
+        resolve(result);
+      };
+      const onLow = () => done(channel.readyState === 'open');
+      const onClose = () => done(false);
+      channel.addEventListener('bufferedamountlow', onLow);
+      channel.addEventListener('close', onClose);
+    });
+  }
+
+  /**
+   * 수신한 메시지 처리 (형식이 맞지 않으면 무시)
+   * @param from - 보낸 사용자 ID
+   * @param raw - JSON 문자열
+   * @param relayed - 소켓 서버 중계로 받은 메시지인지 여부
+   */
+  receive(from: string, raw: string, relayed: boolean) {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      console.warn(`잘못된 데이터 채널 메시지 (${from})`);
+      return;
+    }
+
+    if (!isRecord(message) || typeof message.type !== 'string' || !Object.prototype.hasOwnProperty.call(MESSAGE_SCHEMAS, message.type)) {
+      console.warn(`알 수 없는 데이터 채널 메시지 (${from}):`, isRecord(message) ? message.type : message);
+      return;
+    }
+
+    this.deliver(message.type as keyof DataMessages, from, message.payload, relayed);
+  }
+
+  /**
+   * 메시지 종류의 스키마로 데이터를 검사한 뒤 구독자에게 전달
+   */
+  private deliver<K extends keyof DataMessages>(type: K, from: string, payload: unknown, relayed: boolean) {
+    const schema: MessageSchema<DataMessages[K]> = MESSAGE_SCHEMAS[type];
+    if (!schema.validate(payload)) {
+      console.warn(`형식이 맞지 않는 데이터 채널 메시지 (${from}): ${type}`);
+      return;
+    }
+
+    this.messages.emit(type, { from, payload, relayed } as ReceivedMessages[K]);
+  }
+
+  /**
+   * 메시지 종류별 구독
+   * @param type - 메시지 종류
+   * @param listener - 메시지를 받으면 호출되는 함수
+   * @returns 구독 해제 함수
+   */
+  on<K extends keyof DataMessages>(type: K, listener: (message: DataMessage<DataMessages[K]>) => void): () => void {
+    return this.messages.on(type, listener);
+  }
+}
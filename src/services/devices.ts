@@ -0,0 +1,119 @@
+/**
+ * 미디어 장치 서비스 모듈
+ *
+ * 마이크, 카메라, 스피커 장치 목록 조회와 특정 장치의 트랙 획득,
+ * 장치 연결/해제(devicechange) 감지 기능을 제공합니다.
+ */
+import type { MediaDeviceOption } from '../store/slices/deviceSlice';
+
+// 카메라 기본 해상도/프레임 설정
+const VIDEO_CONSTRAINTS: MediaTrackConstraints = {
+  width: { ideal: 1280 },
+  height: { ideal: 720 },
+  frameRate: { ideal: 30 },
+};
+
+/**
+ * 미디어 장치 서비스 클래스
+ *
+ * navigator.mediaDevices를 감싸 장치 선택 UI와 WebRTC 트랙 교체에 필요한 기능을 제공합니다.
+ */
+class DeviceService {
+  /**
+   * 사용 가능한 미디어 장치 목록 조회
+   * 권한이 없어 레이블이 비어 있는 경우 종류별 기본 이름을 붙입니다.
+   * @returns 마이크/카메라/스피커 장치 목록
+   */
+  async listDevices(): Promise<MediaDeviceOption[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      console.warn('enumerateDevices를 지원하지 않는 브라우저입니다.');
+      return [];
+    }
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const counters: Record<MediaDeviceKind, number> = { audioinput: 0, videoinput: 0, audiooutput: 0 };
+    const defaultLabels: Record<MediaDeviceKind, string> = { audioinput: '마이크', videoinput: '카메라', audiooutput: '스피커' };
+
+    return devices
+      .filter((device) => device.deviceId)
+      .map((device) => {
+        counters[device.kind] += 1;
+        return {
+          deviceId: device.deviceId,
+          kind: device.kind,
+          label: device.label || `${defaultLabels[device.kind]} ${counters[device.kind]}`,
+        };
+      });
+  }
+
+  /**
+   * 장치 ID에 맞는 getUserMedia 제약 조건 생성
+   * @param kind - 트랙 종류 (audio/video)
+   * @param deviceId - 장치 ID (빈 문자열이면 기본 장치)
+   */
+  getConstraints(kind: 'audio' | 'video', deviceId: string): MediaTrackConstraints | true {
+    if (kind === 'video') {
+      return deviceId ? { ...VIDEO_CONSTRAINTS, deviceId: { exact: deviceId } } : { ...VIDEO_CONSTRAINTS };
+    }
+    return deviceId ? { deviceId: { exact: deviceId } } : true;
+  }
+
+  /**
+   * 특정 장치의 미디어 트랙 획득
+   * @param kind - 트랙 종류 (audio/video)
+   * @param deviceId - 장치 ID (빈 문자열이면 기본 장치)
+   * @returns 새로 획득한 트랙
+   */
+  async getTrack(kind: 'audio' | 'video', deviceId: string): Promise<MediaStreamTrack> {
+    const stream = await navigator.mediaDevices.getUserMedia({ [kind]: this.getConstraints(kind, deviceId) });
+    const track = kind === 'audio' ? stream.getAudioTracks()[0] : stream.getVideoTracks()[0];
+    if (!track) {
+      throw new Error(`${kind} 트랙을 획득하지 못했습니다.`);
+    }
+    return track;
+  }
+
+  /**
+   * 트랙이 사용 중인 장치 ID 반환
+   * @param track - 미디어 트랙
+   */
+  getTrackDeviceId(track: MediaStreamTrack | undefined): string {
+    return track?.getSettings().deviceId ?? '';
+  }
+
+  /**
+   * 출력 장치(스피커) 선택 지원 여부
+   */
+  supportsOutputSelection(): boolean {
+    return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+  }
+
+  /**
+   * 미디어 요소의 출력 장치 변경
+   * 지원하지 않는 브라우저이거나 이미 같은 장치인 경우 무시합니다.
+   * @param element - 오디오/비디오 요소
+   * @param deviceId - 출력 장치 ID (빈 문자열이면 기본 장치)
+   */
+  applyOutputDevice(element: HTMLMediaElement, deviceId: string) {
+    if (!this.supportsOutputSelection() || element.sinkId === deviceId) return;
+
+    element.setSinkId(deviceId).catch((error) => {
+      console.error('출력 장치 변경 실패:', error);
+    });
+  }
+
+  /**
+   * 장치 연결/해제 이벤트 구독
+   * @param listener - 장치 목록이 바뀌었을 때 호출되는 함수
+   * @returns 구독 해제 함수
+   */
+  onDeviceChange(listener: () => void): () => void {
+    if (!navigator.mediaDevices) return () => {};
+
+    navigator.mediaDevices.addEventListener('devicechange', listener);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', listener);
+  }
+}
+
+// 장치 서비스의 싱글톤 인스턴스 생성 및 내보내기
+export const deviceService = new DeviceService();
@@ -0,0 +1,39 @@
+/**
+ * 타입 지정 이벤트 발행기
+ *
+ * 이벤트 이름별 데이터 타입을 지정해 구독/발행하는 간단한 이벤트 발행기입니다.
+ * 서비스가 React 컴포넌트에 상태 변경을 알릴 때 사용합니다.
+ */
+export class TypedEmitter<Events> {
+  // 이벤트별 구독 함수 목록
+  private listeners: { [K in keyof Events]?: Set<(payload: Events[K]) => void> } = {};
+
+  /**
+   * 이벤트 구독
+   * @param event - 이벤트 이름
+   * @param listener - 이벤트 발생 시 호출되는 함수
+   * @returns 구독 해제 함수
+   */
+  on<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): () => void {
+    const listeners = (this.listeners[event] ??= new Set());
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 이벤트 발행 (구독 함수의 오류가 다른 구독자에게 영향을 주지 않도록 개별 처리)
+   * @param event - 이벤트 이름
+   * @param payload - 이벤트 데이터
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners[event]?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`이벤트 처리 중 오류 (${String(event)}):`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * 외부 상태 저장소
+ *
+ * MediaStream처럼 Redux에 넣을 수 없는 서비스 상태를 보관하고,
+ * useExternalStore 훅으로 React 컴포넌트가 구독할 수 있게 합니다.
+ * 상태는 바뀐 경우에만 새 객체로 교체해야 하며, 같은 객체가 유지되는 동안은 다시 렌더링하지 않습니다.
+ */
+import { TypedEmitter } from './emitter';
+
+export class ExternalStore<T> {
+  private snapshot: T;
+  private emitter = new TypedEmitter<{ change: T }>();
+
+  constructor(initial: T) {
+    this.snapshot = initial;
+  }
+
+  /**
+   * 현재 상태 조회 (useSyncExternalStore의 스냅샷으로 바로 넘길 수 있도록 화살표 함수로 고정)
+   */
+  get = (): T => this.snapshot;
+
+  /**
+   * 상태 변경 구독
+   * @param listener - 상태가 바뀔 때 호출되는 함수
+   * @returns 구독 해제 함수
+   */
+  subscribe = (listener: () => void): (() => void) => this.emitter.on('change', listener);
+
+  /**
+   * 상태 교체 후 구독자에게 알림 (같은 객체면 무시)
+   * @param snapshot - 새 상태
+   */
+  set(snapshot: T) {
+    if (Object.is(snapshot, this.snapshot)) return;
+    this.snapshot = snapshot;
+    this.emitter.emit('change', snapshot);
+  }
+}
@@ -0,0 +1,513 @@
+/**
+ * 채팅 파일 공유 서비스
+ *
+ * 보낸 사람이 파일을 공유하면 참가자들에게 공유 알림만 보내고, 받기를 요청한 참가자에게만
+ * 피어별 데이터 채널로 파일을 조각내어 전송합니다. (채널이 없으면 소켓 서버 중계로 천천히 전송)
+ * 받는 쪽은 모든 조각을 모은 뒤 SHA-256 해시로 무결성을 검사하고 다운로드 URL을 만듭니다.
+ * File/Blob은 직렬화할 수 없으므로 Redux가 아닌 이 서비스가 보관합니다.
+ */
+import { toast } from 'react-hot-toast';
+import { v4 as uuidv4 } from 'uuid';
+import { socketService } from './socket';
+import { webRTCService } from './webrtc';
+import { ExternalStore } from './externalStore';
+import type { DataMessage, DataMessages, FileControlAction, FileOffer } from './dataChannel';
+import { getConfig } from '../config';
+
+/**
+ * 전송 상태
+ * - offered: 받기 전 (보낸 쪽은 공유만 하고 전송 중인 참가자가 없음)
+ * - transferring / paused: 전송 중 / 일시 정지
+ * - verifying: 받은 파일 무결성 검사 중
+ * - completed: 받기 완료
+ * - failed: 전송 중단 또는 무결성 검사 실패 (다시 받을 수 있음)
+ * - cancelled: 받기 취소 또는 보낸 사람이 공유를 취소함
+ */
+export type TransferStatus = 'offered' | 'transferring' | 'paused' | 'verifying' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * 화면에 표시할 파일 전송 상태
+ * @property direction - 보내는 파일(outgoing)인지 받는 파일(incoming)인지
+ * @property status - 전송 상태
+ * @property progress - 진행률 (0~1, 보내는 파일은 전송 중인 참가자들의 평균)
+ * @property url - 저장할 수 있는 파일 URL (받기 완료 전에는 null)
+ * @property error - 실패 또는 취소 사유
+ * @property available - 다시 받을 수 있는지 여부 (보낸 사람이 공유를 취소하거나 퇴장하면 false)
+ * @property recipients - 전송을 마친 참가자 수 (보내는 파일)
+ */
+export interface FileTransferState {
+  direction: 'incoming' | 'outgoing';
+  status: TransferStatus;
+  progress: number;
+  url: string | null;
+  error: string | null;
+  available: boolean;
+  recipients: number;
+}
+
+/**
+ * 받는 참가자 한 명에게 보내는 전송 흐름
+ * @property nextIndex - 다음에 보낼 조각 번호
+ * @property paused - 받는 쪽이 일시 정지했는지 여부
+ * @property running - 조각 전송 루프가 실행 중인지 여부
+ */
+interface OutgoingStream {
+  nextIndex: number;
+  paused: boolean;
+  running: boolean;
+}
+
+/**
+ * 보내는 파일
+ * @property paused - 보낸 사람이 모든 전송을 일시 정지했는지 여부
+ * @property streams - 받는 참가자별 전송 흐름
+ * @property completed - 전송을 마친 참가자 ID
+ */
+interface OutgoingTransfer {
+  offer: FileOffer;
+  file: File;
+  paused: boolean;
+  streams: Map<string, OutgoingStream>;
+  completed: Set<string>;
+}
+
+/**
+ * 받는 파일
+ * @property from - 보낸 사용자 ID
+ * @property chunks - 조각 번호별로 받은 데이터
+ * @property received - 받은 조각 수
+ */
+interface IncomingTransfer {
+  offer: FileOffer;
+  from: string;
+  chunks: (Uint8Array | undefined)[];
+  received: number;
+}
+
+// 조각 크기 (브라우저 간 데이터 채널 메시지 크기 제한을 넘지 않도록 16KB)
+const CHUNK_SIZE = 16 * 1024;
+// 소켓 서버 중계로 보낼 때 조각 사이 대기 시간 (서버 부하 방지, ms)
+const RELAY_CHUNK_INTERVAL = 50;
+
+// ArrayBuffer 조각 ↔ base64 문자열 변환 (데이터 채널 메시지는 JSON이므로)
+const encodeChunk = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const decodeChunk = (data: string) => Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+
+// SHA-256 해시 (16진수 문자열)
+const sha256 = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 파일 전송 서비스 클래스
+ */
+class FileTransferService {
+  private outgoing: Map<string, OutgoingTransfer> = new Map();
+  private incoming: Map<string, IncomingTransfer> = new Map();
+  // 전송 ID별 화면 표시 상태 (바뀐 전송만 새 객체로 교체)
+  readonly transfers = new ExternalStore<Record<string, FileTransferState>>({});
+
+  /**
+   * 데이터 채널 메시지 및 참가자 퇴장 구독 (회의 입장 시)
+   * @param onOffer - 다른 참가자가 파일을 공유했을 때 호출되는 함수 (채팅 메시지 추가용)
+   * @returns 구독 해제 및 전송 정리 함수
+   */
+  initialize(onOffer: (from: string, offer: FileOffer) => void): () => void {
+    const handleUserLeft = ({ userId }: { userId: string }) => this.handlePeerLeft(userId);
+    const socket = socketService.getSocket();
+    socket?.on('userLeft', handleUserLeft);
+
+    const unsubscribes = [
+      webRTCService.onData('file-offer', ({ from, payload }) => {
+        if (this.incoming.has(payload.transferId) || this.outgoing.has(payload.transferId)) return;
+        // 받을 수 있는 크기를 넘는 파일은 조각을 모두 메모리에 모으게 되므로 공유 알림부터 무시
+        if (payload.size > getConfig().maxFileSize) {
+          console.warn(`최대 크기를 넘는 파일 공유 무시: ${payload.name} (${payload.size} bytes)`);
+          return;
+        }
+        this.incoming.set(payload.transferId, { offer: payload, from, chunks: [], received: 0 });
+        this.setTransfer(payload.transferId, { direction: 'incoming', status: 'offered', progress: 0, url: null, error: null, available: true, recipients: 0 });
+        onOffer(from, payload);
+      }),
+      webRTCService.onData('file-request', (message) => this.handleRequest(message)),
+      webRTCService.onData('file-chunk', (message) => this.handleChunk(message)),
+      webRTCService.onData('file-control', (message) => this.handleControl(message)),
+    ];
+
+    return () => {
+      socket?.off('userLeft', handleUserLeft);
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      this.reset();
+    };
+  }
+
+  /**
+   * 전송 상태 조회 (회의를 나가 전송 정보가 정리되면 undefined)
+   * @param transferId - 전송 ID
+   */
+  getTransfer(transferId: string): FileTransferState | undefined {
+    return this.transfers.get()[transferId];
+  }
+
+  private setTransfer(transferId: string, state: FileTransferState) {
+    this.transfers.set({ ...this.transfers.get(), [transferId]: state });
+  }
+
+  private updateTransfer(transferId: string, changes: Partial<FileTransferState>) {
+    const current = this.getTransfer(transferId);
+    if (current) this.setTransfer(transferId, { ...current, ...changes });
+  }
+
+  /**
+   * 파일 공유 (참가자들에게 공유 알림 전송)
+   * 크기 제한을 넘거나 해시 계산에 실패하면 안내 메시지를 표시하고 null을 반환합니다.
+   * @param file - 공유할 파일
+   * @param senderNickname - 내 닉네임
+   * @returns 채팅 메시지에 표시할 공유 정보
+   */
+  async shareFile(file: File, senderNickname: string): Promise<FileOffer | null> {
+    const { maxFileSize } = getConfig();
+    if (file.size > maxFileSize) {
+      toast.error(`${Math.floor(maxFileSize / 1024 / 1024)}MB보다 큰 파일은 보낼 수 없습니다.`);
+      return null;
+    }
+
+    let hash: string;
+    try {
+      hash = await sha256(file);
+    } catch (error) {
+      console.error('파일 해시 계산 실패:', error);
+      toast.error('파일을 읽을 수 없습니다.');
+      return null;
+    }
+
+    const offer: FileOffer = {
+      transferId: uuidv4(),
+      name: file.name,
+      size: file.size,
+      mimeType: file.type || 'application/octet-stream',
+      sha256: hash,
+      chunkSize: CHUNK_SIZE,
+      totalChunks: Math.ceil(file.size / CHUNK_SIZE),
+      senderNickname,
+      sentAt: Date.now(),
+    };
+
+    const url = URL.createObjectURL(file);
+    this.outgoing.set(offer.transferId, { offer, file, paused: false, streams: new Map(), completed: new Set() });
+    this.setTransfer(offer.transferId, { direction: 'outgoing', status: 'offered', progress: 0, url, error: null, available: true, recipients: 0 });
+
+    console.log(`파일 공유: ${file.name} (${file.size} bytes, ${offer.totalChunks}개 조각)`);
+    webRTCService.sendData(null, 'file-offer', offer);
+    return offer;
+  }
+
+  /**
+   * 공유받은 파일 받기 (실패하거나 취소한 경우 처음부터 다시 받기)
+   * @param transferId - 전송 ID
+   */
+  accept(transferId: string) {
+    const transfer = this.incoming.get(transferId);
+    const state = this.getTransfer(transferId);
+    if (!transfer || !state?.available || !['offered', 'failed', 'cancelled'].includes(state.status)) return;
+
+    transfer.chunks = [];
+    transfer.received = 0;
+    this.updateTransfer(transferId, { status: transfer.offer.totalChunks === 0 ? 'verifying' : 'transferring', progress: 0, error: null });
+
+    // 빈 파일은 조각 없이 바로 완료
+    if (transfer.offer.totalChunks === 0) {
+      this.assemble(transferId, transfer);
+      return;
+    }
+    webRTCService.sendData(transfer.from, 'file-request', { transferId });
+  }
+
+  /**
+   * 전송 일시 정지 (보내는 파일이면 모든 참가자에게 보내는 전송을 멈춤)
+   * @param transferId - 전송 ID
+   */
+  pause(transferId: string) {
+    if (this.getTransfer(transferId)?.status !== 'transferring') return;
+
+    const outgoing = this.outgoing.get(transferId);
+    if (outgoing) {
+      outgoing.paused = true;
+      outgoing.streams.forEach((_stream, userId) => this.sendControl(userId, transferId, 'pause'));
+      this.refreshOutgoing(transferId);
+      return;
+    }
+
+    const incoming = this.incoming.get(transferId);
+    if (!incoming) return;
+    this.sendControl(incoming.from, transferId, 'pause');
+    this.updateTransfer(transferId, { status: 'paused' });
+  }
+
+  /**
+   * 일시 정지한 전송 재개
+   * @param transferId - 전송 ID
+   */
+  resume(transferId: string) {
+    if (this.getTransfer(transferId)?.status !== 'paused') return;
+
+    const outgoing = this.outgoing.get(transferId);
+    if (outgoing) {
+      outgoing.paused = false;
+      outgoing.streams.forEach((_stream, userId) => {
+        this.sendControl(userId, transferId, 'resume');
+        this.pump(transferId, userId);
+      });
+      this.refreshOutgoing(transferId);
+      return;
+    }
+
+    const incoming = this.incoming.get(transferId);
+    if (!incoming) return;
+    this.sendControl(incoming.from, transferId, 'resume');
+    this.updateTransfer(transferId, { status: 'transferring' });
+  }
+
+  /**
+   * 전송 취소
+   * 보내는 파일이면 공유 자체를 취소하여 더 이상 받을 수 없고, 받는 파일이면 받던 조각을 버립니다.
+   * @param transferId - 전송 ID
+   */
+  cancel(transferId: string) {
+    const outgoing = this.outgoing.get(transferId);
+    if (outgoing) {
+      outgoing.streams.clear();
+      webRTCService.sendData(null, 'file-control', { transferId, action: 'withdraw' });
+      this.updateTransfer(transferId, { status: 'cancelled', progress: 0, available: false });
+      return;
+    }
+
+    const incoming = this.incoming.get(transferId);
+    const status = this.getTransfer(transferId)?.status;
+    if (!incoming || (status !== 'transferring' && status !== 'paused')) return;
+
+    this.sendControl(incoming.from, transferId, 'cancel');
+    incoming.chunks = [];
+    incoming.received = 0;
+    this.updateTransfer(transferId, { status: 'cancelled', progress: 0, error: null });
+  }
+
+  private sendControl(userId: string, transferId: string, action: FileControlAction) {
+    webRTCService.sendData(userId, 'file-control', { transferId, action });
+  }
+
+  /**
+   * 받기 요청 처리 (요청한 참가자에게 처음부터 전송 시작)
+   */
+  private handleRequest({ from, payload }: DataMessage<DataMessages['file-request']>) {
+    const transfer = this.outgoing.get(payload.transferId);
+    if (!transfer || this.getTransfer(payload.transferId)?.status === 'cancelled') {
+      this.sendControl(from, payload.transferId, 'withdraw');
+      return;
+    }
+
+    console.log(`파일 전송 시작: ${transfer.offer.name} → ${from}`);
+    transfer.completed.delete(from);
+    transfer.streams.set(from, { nextIndex: 0, paused: false, running: false });
+    if (transfer.paused) this.sendControl(from, payload.transferId, 'pause');
+    this.pump(payload.transferId, from);
+  }
+
+  /**
+   * 한 참가자에게 조각을 차례로 전송
+   * 데이터 채널의 송신 버퍼가 가득 차면 sendData가 비워질 때까지 기다리므로 메모리에 조각이 쌓이지 않습니다.
+   */
+  private async pump(transferId: string, userId: string) {
+    const transfer = this.outgoing.get(transferId);
+    const stream = transfer?.streams.get(userId);
+    if (!transfer || !stream || stream.running) return;
+
+    const { chunkSize, totalChunks } = transfer.offer;
+    stream.running = true;
+    try {
+      while (stream.nextIndex < totalChunks) {
+        // 일시 정지, 취소, 같은 참가자의 새 요청으로 교체된 경우 중단
+        if (transfer.paused || stream.paused || transfer.streams.get(userId) !== stream) return;
+
+        const index = stream.nextIndex;
+        const bytes = new Uint8Array(await transfer.file.slice(index * chunkSize, (index + 1) * chunkSize).arrayBuffer());
+        const direct = webRTCService.isDataChannelOpen(userId);
+        const sent = await webRTCService.sendData(userId, 'file-chunk', { transferId, index, data: encodeChunk(bytes) });
+        if (transfer.streams.get(userId) !== stream) return;
+
+        if (!sent) {
+          console.warn(`파일 조각 전송 실패: ${transfer.offer.name} → ${userId}`);
+          transfer.streams.delete(userId);
+          this.sendControl(userId, transferId, 'cancel');
+          return;
+        }
+
+        stream.nextIndex++;
+        this.refreshOutgoing(transferId);
+        if (!direct) await delay(RELAY_CHUNK_INTERVAL);
+      }
+
+      console.log(`파일 전송 완료: ${transfer.offer.name} → ${userId}`);
+      transfer.streams.delete(userId);
+      transfer.completed.add(userId);
+    } catch (error) {
+      console.error(`파일 전송 오류: ${transfer.offer.name} → ${userId}`, error);
+      transfer.streams.delete(userId);
+      this.sendControl(userId, transferId, 'cancel');
+    } finally {
+      stream.running = false;
+      this.refreshOutgoing(transferId);
+    }
+  }
+
+  /**
+   * 보내는 파일의 표시 상태 갱신 (전송 중인 참가자들의 평균 진행률)
+   */
+  private refreshOutgoing(transferId: string) {
+    const transfer = this.outgoing.get(transferId);
+    const state = this.getTransfer(transferId);
+    if (!transfer || !state || state.status === 'cancelled') return;
+
+    const streams = Array.from(transfer.streams.values());
+    const progress = streams.length
+      ? streams.reduce((sum, stream) => sum + stream.nextIndex, 0) / (streams.length * Math.max(transfer.offer.totalChunks, 1))
+      : 0;
+    const status: TransferStatus = streams.length === 0 ? 'offered' : transfer.paused ? 'paused' : 'transferring';
+    this.updateTransfer(transferId, { status, progress, recipients: transfer.completed.size });
+  }
+
+  /**
+   * 받은 조각 저장 (모두 받으면 파일로 합침)
+   */
+  private handleChunk({ from, payload }: DataMessage<DataMessages['file-chunk']>) {
+    const transfer = this.incoming.get(payload.transferId);
+    const status = this.getTransfer(payload.transferId)?.status;
+    if (!transfer || transfer.from !== from || (status !== 'transferring' && status !== 'paused')) return;
+    if (payload.index >= transfer.offer.totalChunks || transfer.chunks[payload.index]) return;
+
+    let chunk: Uint8Array;
+    try {
+      chunk = decodeChunk(payload.data);
+    } catch {
+      console.warn(`잘못된 파일 조각 (${payload.transferId}, ${payload.index})`);
+      return;
+    }
+    // 알린 조각 크기보다 큰 조각은 버림 (받은 크기가 파일 크기를 넘지 않도록)
+    if (chunk.length > transfer.offer.chunkSize) {
+      console.warn(`조각 크기 초과 (${payload.transferId}, ${payload.index}): ${chunk.length} bytes`);
+      return;
+    }
+    transfer.chunks[payload.index] = chunk;
+
+    transfer.received++;
+    this.updateTransfer(payload.transferId, { progress: transfer.received / transfer.offer.totalChunks });
+    if (transfer.received === transfer.offer.totalChunks) {
+      this.updateTransfer(payload.transferId, { status: 'verifying' });
+      this.assemble(payload.transferId, transfer);
+    }
+  }
+
+  /**
+   * 받은 조각을 파일로 합치고 SHA-256 해시로 무결성 검사
+   */
+  private async assemble(transferId: string, transfer: IncomingTransfer) {
+    const blob = new Blob(transfer.chunks as Uint8Array<ArrayBuffer>[], { type: transfer.offer.mimeType });
+    transfer.chunks = [];
+    transfer.received = 0;
+
+    try {
+      const hash = await sha256(blob);
+      if (this.incoming.get(transferId) !== transfer) return;
+
+      if (blob.size !== transfer.offer.size || hash !== transfer.offer.sha256) {
+        console.warn(`파일 무결성 검사 실패: ${transfer.offer.name}`);
+        this.updateTransfer(transferId, { status: 'failed', progress: 0, error: '받은 파일이 손상되었습니다. 다시 받아 주세요.' });
+        return;
+      }
+
+      this.updateTransfer(transferId, { status: 'completed', progress: 1, url: URL.createObjectURL(blob) });
+      toast.success(`${transfer.offer.name} 파일을 받았습니다.`);
+    } catch (error) {
+      console.error('파일 무결성 검사 오류:', error);
+      this.updateTransfer(transferId, { status: 'failed', progress: 0, error: '받은 파일을 확인할 수 없습니다.' });
+    }
+  }
+
+  /**
+   * 전송 제어 메시지 처리
+   * 보내는 파일이면 받는 참가자의 요청, 받는 파일이면 보낸 사람의 요청입니다.
+   */
+  private handleControl({ from, payload }: DataMessage<DataMessages['file-control']>) {
+    const { transferId, action } = payload;
+
+    const outgoing = this.outgoing.get(transferId);
+    if (outgoing) {
+      const stream = outgoing.streams.get(from);
+      if (!stream) return;
+
+      if (action === 'pause') {
+        stream.paused = true;
+      } else if (action === 'resume') {
+        stream.paused = false;
+        this.pump(transferId, from);
+      } else if (action === 'cancel') {
+        outgoing.streams.delete(from);
+      }
+      this.refreshOutgoing(transferId);
+      return;
+    }
+
+    const incoming = this.incoming.get(transferId);
+    const state = this.getTransfer(transferId);
+    if (!incoming || incoming.from !== from || !state || state.status === 'completed') return;
+
+    if (action === 'withdraw') {
+      incoming.chunks = [];
+      incoming.received = 0;
+      this.updateTransfer(transferId, { status: 'cancelled', progress: 0, available: false, error: '보낸 사람이 공유를 취소했습니다.' });
+    } else if (state.status === 'transferring' || state.status === 'paused') {
+      if (action === 'pause') {
+        this.updateTransfer(transferId, { status: 'paused' });
+      } else if (action === 'resume') {
+        this.updateTransfer(transferId, { status: 'transferring' });
+      } else {
+        incoming.chunks = [];
+        incoming.received = 0;
+        this.updateTransfer(transferId, { status: 'failed', progress: 0, error: '전송이 중단되었습니다.' });
+      }
+    }
+  }
+
+  /**
+   * 참가자 퇴장 시 그 참가자와의 전송 정리
+   */
+  private handlePeerLeft(userId: string) {
+    this.outgoing.forEach((transfer, transferId) => {
+      if (transfer.streams.delete(userId)) this.refreshOutgoing(transferId);
+    });
+
+    this.incoming.forEach((transfer, transferId) => {
+      if (transfer.from !== userId || this.getTransfer(transferId)?.status === 'completed') return;
+      transfer.chunks = [];
+      transfer.received = 0;
+      this.updateTransfer(transferId, { status: 'cancelled', progress: 0, available: false, error: '보낸 사람이 회의에서 나갔습니다.' });
+    });
+  }
+
+  /**
+   * 모든 전송 정리 및 파일 URL 해제 (회의 종료 시)
+   */
+  private reset() {
+    this.outgoing.forEach((transfer) => transfer.streams.clear());
+    Object.values(this.transfers.get()).forEach(({ url }) => url && URL.revokeObjectURL(url));
+    this.outgoing.clear();
+    this.incoming.clear();
+    this.transfers.set({});
+  }
+}
+
+// 파일 전송 서비스의 싱글톤 인스턴스 생성 및 내보내기
+export const fileTransferService = new FileTransferService();
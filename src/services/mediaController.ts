@@ -0,0 +1,245 @@
+/**
+ * 로컬 미디어 컨트롤러
+ *
+ * 카메라/마이크 스트림과 화면 공유 스트림의 획득, 장치 전환, 정리를 담당하고
+ * 바뀐 스트림을 WebRTC 서비스에 전달합니다.
+ * MediaStream은 직렬화할 수 없으므로 Redux가 아닌 이 서비스가 보관하며,
+ * 켜짐/꺼짐 같은 상태 값은 mediaSlice가 관리합니다.
+ */
+import { toast } from 'react-hot-toast';
+import { webRTCService } from './webrtc';
+import { deviceService } from './devices';
+import { ExternalStore } from './externalStore';
+
+/**
+ * 로컬 미디어 스냅샷
+ * @property localStream - 카메라/마이크 스트림
+ * @property screenStream - 화면 공유 스트림
+ */
+export interface LocalMedia {
+  localStream: MediaStream | null;
+  screenStream: MediaStream | null;
+}
+
+/**
+ * 로컬 미디어 컨트롤러 클래스
+ */
+class MediaController {
+  // 현재 로컬 미디어 (스트림이 바뀐 경우에만 새 객체로 교체)
+  readonly media = new ExternalStore<LocalMedia>({ localStream: null, screenStream: null });
+
+  /**
+   * 현재 로컬 미디어 조회
+   */
+  getMedia(): LocalMedia {
+    return this.media.get();
+  }
+
+  private update(changes: Partial<LocalMedia>) {
+    this.media.set({ ...this.getMedia(), ...changes });
+  }
+
+  /**
+   * 로컬 스트림 교체 및 WebRTC 송신 트랙 반영
+   */
+  private async setLocalStream(stream: MediaStream) {
+    this.update({ localStream: stream });
+    await webRTCService.setLocalStream(stream);
+  }
+
+  /**
+   * 카메라/마이크 스트림 획득
+   * 선택한 장치 → 기본 설정 → 오디오만 → 빈 스트림 순서로 시도하므로 항상 스트림을 설정합니다.
+   * @param audioInputId - 선택한 마이크 ID (빈 문자열이면 기본 장치)
+   * @param videoInputId - 선택한 카메라 ID (빈 문자열이면 기본 장치)
+   * @returns 설정된 로컬 스트림
+   */
+  async start(audioInputId: string, videoInputId: string): Promise<MediaStream> {
+    try {
+      // 선택한 장치 기준의 비디오/오디오 설정 (장치가 없으면 OverconstrainedError → 기본 설정으로 재시도)
+      const constraints: MediaStreamConstraints = {
+        video: deviceService.getConstraints('video', videoInputId),
+        audio: deviceService.getConstraints('audio', audioInputId),
+      };
+
+      console.log('미디어 장치 접근 시도 중...');
+      const stream = await navigator.mediaDevices.getUserMedia(constraints);
+      console.log('미디어 장치 접근 성공!');
+
+      // 카메라 설정 정보 로깅
+      console.log('카메라 정보:', {
+        비디오트랙: stream.getVideoTracks().length > 0 ? stream.getVideoTracks()[0].label : '없음',
+        오디오트랙: stream.getAudioTracks().length > 0 ? stream.getAudioTracks()[0].label : '없음',
+      });
+
+      await this.setLocalStream(stream);
+      toast.success('카메라와 마이크가 연결되었습니다.');
+      return stream;
+    } catch (error: unknown) {
+      console.error('미디어 장치 접근 오류:', error);
+
+      // 상세한 오류 메시지 출력
+      if (error instanceof Error) {
+        if (error.name === 'NotFoundError') {
+          toast.error('카메라나 마이크를 찾을 수 없습니다. 장치가 연결되어 있는지 확인하세요.');
+        } else if (error.name === 'NotAllowedError') {
+          toast.error('카메라와 마이크 접근 권한이 거부되었습니다. 브라우저 권한을 확인하세요.');
+        } else if (error.name === 'NotReadableError') {
+          toast.error('카메라나 마이크에 접근할 수 없습니다. 다른 앱이 사용 중인지 확인하세요.');
+        } else if (error.name === 'OverconstrainedError') {
+          console.warn('고급 설정이 지원되지 않음, 기본 설정으로 재시도합니다.');
+          try {
+            // 기본 설정으로 재시도
+            const basicStream = await navigator.mediaDevices.getUserMedia({
+              video: true,
+              audio: true,
+            });
+
+            await this.setLocalStream(basicStream);
+            toast.success('기본 설정으로 카메라와 마이크가 연결되었습니다.');
+            return basicStream;
+          } catch (fallbackError: unknown) {
+            console.error('기본 설정도 실패:', fallbackError);
+            const errorMessage = fallbackError instanceof Error ? fallbackError.message || fallbackError.name : '알 수 없는 오류';
+            toast.error(`미디어 장치 접근 실패: ${errorMessage}`);
+          }
+        } else {
+          toast.error(`미디어 장치 오류: ${error.message || error.name}`);
+        }
+      } else {
+        toast.error('알 수 없는 미디어 장치 오류가 발생했습니다.');
+      }
+    }
+
+    // 오디오만 시도
+    try {
+      console.log('오디오만 접근 시도 중...');
+      const audioOnlyStream = await navigator.mediaDevices.getUserMedia({
+        video: false,
+        audio: true,
+      });
+
+      await this.setLocalStream(audioOnlyStream);
+      toast.success('오디오만 연결되었습니다. 카메라는 사용할 수 없습니다.');
+      return audioOnlyStream;
+    } catch (audioError) {
+      // 빈 스트림으로 접속
+      console.error('오디오 접근도 실패:', audioError);
+      const emptyStream = new MediaStream();
+      await this.setLocalStream(emptyStream);
+      toast.error('미디어 장치 없이 접속합니다.');
+      return emptyStream;
+    }
+  }
+
+  /**
+   * 카메라/마이크 트랙 활성화 상태 변경
+   * @param kind - 트랙 종류 (audio/video)
+   * @param enabled - 활성화 여부
+   */
+  setTrackEnabled(kind: 'audio' | 'video', enabled: boolean) {
+    const { localStream } = this.getMedia();
+    const tracks = kind === 'audio' ? localStream?.getAudioTracks() : localStream?.getVideoTracks();
+    tracks?.forEach((track) => (track.enabled = enabled));
+  }
+
+  /**
+   * 입력 장치(마이크/카메라) 전환
+   * 새 장치의 트랙으로 로컬 스트림을 구성하고 WebRTC 송신 트랙을 교체합니다. (재입장 없음)
+   * @param kind - 트랙 종류 (audio/video)
+   * @param deviceId - 전환할 장치 ID (빈 문자열이면 기본 장치)
+   * @param enabled - 새 트랙의 활성화 여부 (기존 켜짐/꺼짐 상태 유지)
+   */
+  async switchInput(kind: 'audio' | 'video', deviceId: string, enabled: boolean) {
+    const label = kind === 'audio' ? '마이크' : '카메라';
+
+    try {
+      const newTrack = await deviceService.getTrack(kind, deviceId);
+      newTrack.enabled = enabled;
+
+      const currentTracks = this.getMedia().localStream?.getTracks() ?? [];
+      currentTracks.filter((track) => track.kind === kind).forEach((track) => track.stop());
+
+      await this.setLocalStream(new MediaStream([...currentTracks.filter((track) => track.kind !== kind), newTrack]));
+
+      console.log(`${label} 전환 완료:`, newTrack.label);
+      toast.success(`${label}를 ${newTrack.label || '기본 장치'}(으)로 전환했습니다.`);
+    } catch (error) {
+      console.error(`${label} 전환 실패:`, error);
+      toast.error(`${label}를 전환할 수 없습니다.`);
+    }
+  }
+
+  /**
+   * 화면 공유 스트림 획득
+   * 실패하거나 사용자가 취소하면 안내 메시지를 표시하고 null을 반환합니다.
+   * @param onEnded - 사용자가 브라우저 UI에서 공유를 중단했을 때 호출되는 함수
+   */
+  async captureScreen(onEnded: () => void): Promise<MediaStream | null> {
+    try {
+      // 간소화된 화면 공유 설정
+      const displayStream = await navigator.mediaDevices.getDisplayMedia({
+        video: {
+          width: { ideal: 1920 },
+          height: { ideal: 1080 },
+          frameRate: { ideal: 30 },
+          displaySurface: 'monitor',
+        },
+        audio: false,
+      });
+
+      console.log('화면 공유 스트림 획득:', displayStream.getVideoTracks()[0]?.label);
+
+      displayStream.getVideoTracks()[0].onended = () => {
+        console.log('사용자가 화면 공유를 중단함');
+        onEnded();
+      };
+      return displayStream;
+    } catch (error) {
+      // 화면 공유 권한 거부 또는 지원 불가 오류 처리
+      console.error('화면 공유 액세스 오류:', error);
+
+      if (error instanceof DOMException) {
+        if (error.name === 'NotAllowedError') {
+          toast.error('화면 공유 권한이 거부되었습니다.');
+        } else if (error.name === 'NotFoundError') {
+          toast.error('공유할 화면을 찾을 수 없습니다.');
+        } else if (error.name === 'NotReadableError') {
+          toast.error('화면을 읽을 수 없습니다. 다른 앱이 사용 중인지 확인하세요.');
+        } else if (error.name === 'AbortError') {
+          toast.error('화면 공유가 취소되었습니다.');
+        } else {
+          toast.error(`화면 공유 오류: ${error.name}`);
+        }
+      } else {
+        toast.error('화면 공유 권한이 거부되었거나 지원되지 않습니다.');
+      }
+      return null;
+    }
+  }
+
+  /**
+   * 화면 공유 스트림 설정 및 WebRTC 송신 반영 (null이면 기존 공유 트랙 중지)
+   * @param stream - 화면 공유 스트림
+   */
+  async setScreenStream(stream: MediaStream | null) {
+    if (!stream) {
+      this.getMedia().screenStream?.getTracks().forEach((track) => track.stop());
+    }
+    this.update({ screenStream: stream });
+    await webRTCService.setScreenStream(stream);
+  }
+
+  /**
+   * 모든 로컬 미디어 트랙 중지 및 스트림 해제 (회의 종료 시)
+   */
+  stopAll() {
+    const { localStream, screenStream } = this.getMedia();
+    localStream?.getTracks().forEach((track) => track.stop());
+    screenStream?.getTracks().forEach((track) => track.stop());
+    this.update({ localStream: null, screenStream: null });
+  }
+}
+
+// 미디어 컨트롤러의 싱글톤 인스턴스 생성 및 내보내기
+export const mediaController = new MediaController();
@@ -0,0 +1,223 @@
+/**
+ * PIP(Picture-in-Picture) 서비스 모듈
+ *
+ * 다른 탭으로 이동해도 회의를 볼 수 있도록 작은 항상 위 창을 엽니다.
+ * Document Picture-in-Picture API를 지원하면 React로 그린 미니 그리드와 제어 버튼을 창에 표시하고,
+ * 지원하지 않으면 말하는 참가자의 <video> 요소를 브라우저 기본 PIP로 띄웁니다.
+ */
+import { ExternalStore } from './externalStore';
+
+/**
+ * PIP 종류
+ * - document: Document Picture-in-Picture 창 (미니 그리드 및 제어 버튼)
+ * - video: <video> 요소의 기본 PIP (영상 하나만 표시)
+ */
+export type PictureInPictureMode = 'document' | 'video';
+
+/**
+ * PIP 상태
+ * @property mode - 열려 있는 PIP 종류 (닫혀 있으면 null)
+ * @property window - Document PIP 창 (document 모드가 아니면 null)
+ */
+export interface PictureInPictureState {
+  mode: PictureInPictureMode | null;
+  window: Window | null;
+}
+
+// Document PIP 창 크기
+const WINDOW_SIZE = { width: 360, height: 320 };
+
+/**
+ * PIP 서비스 클래스
+ */
+class PictureInPictureService {
+  // 현재 PIP 상태 (바뀐 경우에만 새 객체로 교체)
+  readonly state = new ExternalStore<PictureInPictureState>({ mode: null, window: null });
+  // 기본 PIP로 띄운 영상 요소
+  private video: HTMLVideoElement | null = null;
+  // 여는 중인 요청 (자동 열기와 버튼이 겹쳐도 한 번만 열기)
+  private opening: Promise<boolean> | null = null;
+  // 탭을 벗어나 자동으로 열었는지 여부 (탭으로 돌아오면 닫음)
+  private autoOpened = false;
+
+  /**
+   * 브라우저가 PIP를 지원하는지 여부
+   */
+  isSupported(): boolean {
+    return !!window.documentPictureInPicture || !!document.pictureInPictureEnabled;
+  }
+
+  /**
+   * PIP 열기
+   * Document PIP 창을 먼저 시도하고, 지원하지 않거나 실패하면 영상 요소의 기본 PIP를 사용합니다.
+   * 두 방식 모두 사용자 활성화(클릭 등)가 필요합니다.
+   * @param getFallbackVideo - 기본 PIP로 띄울 영상 요소를 반환하는 함수 (말하는 참가자)
+   * @returns PIP를 열었는지 여부
+   */
+  open(getFallbackVideo: () => HTMLVideoElement | null): Promise<boolean> {
+    if (this.state.get().mode) return Promise.resolve(true);
+    if (!this.opening) {
+      this.opening = this.request(getFallbackVideo).finally(() => (this.opening = null));
+    }
+    return this.opening;
+  }
+
+  /**
+   * PIP 닫기
+   */
+  close() {
+    this.autoOpened = false;
+    const { mode, window: pipWindow } = this.state.get();
+    if (mode === 'document') {
+      // 창이 닫히면 pagehide에서 상태 초기화
+      pipWindow?.close();
+    } else if (mode === 'video' && document.pictureInPictureElement) {
+      document.exitPictureInPicture().catch((error) => console.warn('PIP 종료 실패:', error));
+    }
+  }
+
+  /**
+   * 기본 PIP로 표시 중인 영상 교체 (말하는 참가자가 바뀐 경우)
+   * 이미 PIP가 열려 있으면 사용자 활성화 없이 다른 영상으로 바꿀 수 있습니다.
+   * @param video - 새로 표시할 영상 요소
+   */
+  switchVideo(video: HTMLVideoElement | null) {
+    if (this.state.get().mode !== 'video' || !video || video === this.video) return;
+    this.showVideo(video).catch((error) => console.warn('PIP 영상 교체 실패:', error));
+  }
+
+  /**
+   * 탭을 벗어날 때 자동으로 PIP 열기
+   * Chrome은 카메라/마이크를 사용하는 페이지가 가려지면 미디어 세션의 enterpictureinpicture 동작을 호출해
+   * 사용자 활성화 없이 PIP를 열 수 있게 합니다. 지원하지 않는 브라우저에서는 탭이 가려질 때 열기를 시도하며,
+   * 사용자 활성화가 없어 거부되면 무시합니다. 자동으로 연 PIP는 탭으로 돌아오면 닫습니다.
+   * @param open - PIP를 여는 함수
+   * @returns 자동 열기 해제 함수
+   */
+  enableAutoEnter(open: () => Promise<boolean>): () => void {
+    const autoOpen = () => {
+      if (this.state.get().mode) return;
+      open().then((opened) => {
+        if (!opened) return;
+        // 여는 동안 탭으로 돌아왔으면 사용자가 원하지 않은 PIP이므로 바로 닫음
+        if (document.visibilityState === 'visible') {
+          this.close();
+        } else {
+          this.autoOpened = true;
+        }
+      });
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        autoOpen();
+      } else if (this.autoOpened) {
+        this.close();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    this.setMediaSessionHandler(autoOpen);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      this.setMediaSessionHandler(null);
+    };
+  }
+
+  /**
+   * PIP 열기 요청 (Document PIP → 기본 PIP 순서)
+   */
+  private async request(getFallbackVideo: () => HTMLVideoElement | null): Promise<boolean> {
+    if (window.documentPictureInPicture) {
+      try {
+        const pipWindow = await window.documentPictureInPicture.requestWindow(WINDOW_SIZE);
+        this.copyStyles(pipWindow.document);
+        pipWindow.addEventListener('pagehide', () => this.setState({ mode: null, window: null }), { once: true });
+        this.setState({ mode: 'document', window: pipWindow });
+        console.log('PIP 창 열림 (Document Picture-in-Picture)');
+        return true;
+      } catch (error) {
+        console.warn('Document PIP 창 열기 실패, 영상 PIP로 시도:', error);
+      }
+    }
+
+    const video = getFallbackVideo();
+    if (!video || !document.pictureInPictureEnabled) return false;
+
+    try {
+      await this.showVideo(video);
+      this.setState({ mode: 'video', window: null });
+      console.log('PIP 열림 (영상 PIP)');
+      return true;
+    } catch (error) {
+      console.warn('영상 PIP 열기 실패:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 영상 요소를 기본 PIP로 표시 (PIP가 닫히면 상태 초기화)
+   */
+  private async showVideo(video: HTMLVideoElement) {
+    await video.requestPictureInPicture();
+    this.video = video;
+    video.addEventListener(
+      'leavepictureinpicture',
+      () => {
+        // 다른 영상으로 교체된 경우에는 PIP가 계속 열려 있음
+        if (this.video !== video) return;
+        this.video = null;
+        this.setState({ mode: null, window: null });
+      },
+      { once: true }
+    );
+  }
+
+  /**
+   * 미디어 세션의 enterpictureinpicture 동작 설정 (TypeScript DOM 타입에 없는 동작이라 문자열로 등록)
+   * @param handler - 동작 핸들러 (null이면 해제)
+   */
+  private setMediaSessionHandler(handler: (() => void) | null) {
+    if (!('mediaSession' in navigator)) return;
+    try {
+      (navigator.mediaSession.setActionHandler as (action: string, handler: (() => void) | null) => void).call(navigator.mediaSession, 'enterpictureinpicture', handler);
+    } catch {
+      // 지원하지 않는 동작이면 탭 가림 감지만 사용
+    }
+  }
+
+  /**
+   * 현재 문서의 스타일시트를 PIP 창 문서로 복사 (Tailwind 클래스 사용)
+   */
+  private copyStyles(target: Document) {
+    Array.from(document.styleSheets).forEach((sheet) => {
+      try {
+        const style = target.createElement('style');
+        style.textContent = Array.from(sheet.cssRules)
+          .map((rule) => rule.cssText)
+          .join('\n');
+        target.head.appendChild(style);
+      } catch {
+        // 다른 오리진의 스타일시트는 규칙을 읽을 수 없으므로 링크로 추가
+        if (!sheet.href) return;
+        const link = target.createElement('link');
+        link.rel = 'stylesheet';
+        link.href = sheet.href;
+        target.head.appendChild(link);
+      }
+    });
+    target.documentElement.className = document.documentElement.className;
+  }
+
+  /**
+   * 상태 변경 후 구독자에게 알림
+   */
+  private setState(state: PictureInPictureState) {
+    if (!state.mode) this.autoOpened = false;
+    this.state.set(state);
+  }
+}
+
+// PIP 서비스의 싱글톤 인스턴스 생성 및 내보내기
+export const pictureInPictureService = new PictureInPictureService();
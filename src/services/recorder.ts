@@ -0,0 +1,278 @@
+/**
+ * 회의 녹화 서비스
+ *
+ * 참가자 타일(영상, 이름, 말하는 참가자 표시)을 그리드 형태로 캔버스에 합성하고,
+ * 모든 참가자의 음성을 WebAudio로 섞은 뒤 MediaRecorder로 WebM 파일을 만듭니다.
+ * 녹화는 녹화를 시작한 참가자의 브라우저에서만 이루어지며 서버에는 저장되지 않습니다.
+ */
+import { webRTCService } from './webrtc';
+import type { VoiceActivityState } from './voiceActivity';
+
+/**
+ * 녹화 화면에 그릴 타일
+ * @property id - 타일 고유 ID (화면 공유 타일은 참가자 ID와 구분)
+ * @property userId - 참가자 ID (말하는 참가자 표시용)
+ * @property label - 타일에 표시할 이름
+ * @property stream - 영상/음성 스트림 (없으면 이름만 표시)
+ * @property videoEnabled - 카메라가 켜져 있는지 여부 (꺼져 있으면 영상 대신 이름 첫 글자 표시)
+ */
+export interface RecordingTile {
+  id: string;
+  userId: string;
+  label: string;
+  stream: MediaStream | null;
+  videoEnabled: boolean;
+}
+
+// 녹화 해상도 및 프레임 레이트
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FRAME_RATE = 30;
+// 타일 사이 간격 (px)
+const GAP = 8;
+// 녹화 데이터를 나눠 받는 주기 (ms, 녹화 중 오류가 나도 그때까지의 데이터는 남음)
+const TIMESLICE = 1000;
+// 브라우저가 지원하는 첫 번째 형식으로 녹화
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+/**
+ * 회의 녹화 서비스 클래스
+ */
+class MeetingRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private canvas: HTMLCanvasElement | null = null;
+  private drawTimer: ReturnType<typeof setInterval> | null = null;
+  private getTiles: () => RecordingTile[] = () => [];
+  // 타일 ID별 영상 재생 요소 (캔버스에 프레임을 그리기 위해 화면에 붙이지 않고 재생)
+  private videos: Map<string, HTMLVideoElement> = new Map();
+  // 음성 합성 (트랙 ID별 입력 노드)
+  private audioContext: AudioContext | null = null;
+  private audioDestination: MediaStreamAudioDestinationNode | null = null;
+  private audioSources: Map<string, MediaStreamAudioSourceNode> = new Map();
+  // 말하는 참가자 표시
+  private voiceActivity: VoiceActivityState = { speakingIds: [], dominantSpeakerId: null };
+  private stopVoiceActivity: (() => void) | null = null;
+
+  /**
+   * 녹화 중인지 여부
+   */
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  /**
+   * 녹화 시작
+   * 참가자가 들어오고 나가거나 카메라를 켜고 끄는 변화를 반영하도록 프레임마다 타일 목록을 다시 조회합니다.
+   * @param getTiles - 현재 화면에 표시 중인 타일 목록을 반환하는 함수
+   * @throws 브라우저가 녹화를 지원하지 않는 경우
+   */
+  start(getTiles: () => RecordingTile[]) {
+    if (this.recorder) return;
+
+    const mimeType = typeof MediaRecorder === 'undefined' ? undefined : MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) throw new Error('이 브라우저는 회의 녹화를 지원하지 않습니다.');
+
+    this.getTiles = getTiles;
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = WIDTH;
+    this.canvas.height = HEIGHT;
+
+    this.audioContext = new AudioContext();
+    this.audioDestination = this.audioContext.createMediaStreamDestination();
+
+    this.stopVoiceActivity = webRTCService.onVoiceActivity((state) => (this.voiceActivity = state));
+
+    // 첫 프레임을 그린 뒤 녹화 시작 (타이머는 탭이 가려져도 requestAnimationFrame처럼 멈추지 않음)
+    this.draw();
+    this.drawTimer = setInterval(() => this.draw(), 1000 / FRAME_RATE);
+
+    const stream = new MediaStream([...this.canvas.captureStream(FRAME_RATE).getVideoTracks(), ...this.audioDestination.stream.getAudioTracks()]);
+    this.chunks = [];
+    this.recorder = new MediaRecorder(stream, { mimeType });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    this.recorder.start(TIMESLICE);
+    console.log(`녹화 시작 (${mimeType})`);
+  }
+
+  /**
+   * 녹화 종료
+   * @returns 녹화 파일 (녹화 중이 아니었거나 데이터가 없으면 null)
+   */
+  stop(): Promise<Blob | null> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.resolve(null);
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        const blob = this.chunks.length ? new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' }) : null;
+        console.log(`녹화 종료 (${blob?.size ?? 0} bytes)`);
+        this.cleanup();
+        resolve(blob);
+      };
+      recorder.stop();
+    });
+  }
+
+  /**
+   * 녹화에 사용한 자원 정리
+   */
+  private cleanup() {
+    if (this.drawTimer) clearInterval(this.drawTimer);
+    this.drawTimer = null;
+    this.stopVoiceActivity?.();
+    this.stopVoiceActivity = null;
+
+    this.videos.forEach((video) => (video.srcObject = null));
+    this.videos.clear();
+    this.audioSources.forEach((source) => source.disconnect());
+    this.audioSources.clear();
+    this.audioContext?.close();
+    this.audioContext = null;
+    this.audioDestination = null;
+
+    this.recorder?.stream.getTracks().forEach((track) => track.stop());
+    this.recorder = null;
+    this.canvas = null;
+    this.chunks = [];
+    this.getTiles = () => [];
+  }
+
+  /**
+   * 현재 타일 목록을 캔버스에 한 프레임 그리기
+   */
+  private draw() {
+    const context = this.canvas?.getContext('2d');
+    if (!context) return;
+
+    const tiles = this.getTiles();
+    this.syncVideos(tiles);
+    this.syncAudio(tiles);
+
+    context.fillStyle = '#111827';
+    context.fillRect(0, 0, WIDTH, HEIGHT);
+    if (tiles.length === 0) return;
+
+    // 화면 비율에 맞춰 열 수를 정하고 타일을 가운데 정렬
+    const columns = Math.ceil(Math.sqrt(tiles.length));
+    const rows = Math.ceil(tiles.length / columns);
+    const tileWidth = (WIDTH - GAP * (columns + 1)) / columns;
+    const tileHeight = (HEIGHT - GAP * (rows + 1)) / rows;
+
+    tiles.forEach((tile, index) => {
+      const row = Math.floor(index / columns);
+      const tilesInRow = Math.min(columns, tiles.length - row * columns);
+      const offsetX = (WIDTH - (tilesInRow * tileWidth + (tilesInRow - 1) * GAP)) / 2;
+      const x = offsetX + (index % columns) * (tileWidth + GAP);
+      const y = GAP + row * (tileHeight + GAP);
+      this.drawTile(context, tile, x, y, tileWidth, tileHeight);
+    });
+  }
+
+  /**
+   * 타일 하나 그리기 (영상 또는 이름 첫 글자, 이름표, 말하는 참가자 테두리)
+   */
+  private drawTile(context: CanvasRenderingContext2D, tile: RecordingTile, x: number, y: number, width: number, height: number) {
+    context.save();
+    context.beginPath();
+    context.rect(x, y, width, height);
+    context.clip();
+
+    context.fillStyle = '#1f2937';
+    context.fillRect(x, y, width, height);
+
+    const video = this.videos.get(tile.id);
+    if (tile.videoEnabled && video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0) {
+      // 타일을 꽉 채우도록 영상 비율 유지하며 확대 (넘치는 부분은 잘라냄)
+      const scale = Math.max(width / video.videoWidth, height / video.videoHeight);
+      const drawWidth = video.videoWidth * scale;
+      const drawHeight = video.videoHeight * scale;
+      context.drawImage(video, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+    } else {
+      const radius = Math.min(width, height) / 6;
+      context.fillStyle = '#4f46e5';
+      context.beginPath();
+      context.arc(x + width / 2, y + height / 2, radius, 0, Math.PI * 2);
+      context.fill();
+      context.fillStyle = '#ffffff';
+      context.font = `600 ${Math.round(radius)}px sans-serif`;
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.fillText(tile.label.charAt(0).toUpperCase(), x + width / 2, y + height / 2);
+    }
+
+    // 이름표
+    context.font = '500 16px sans-serif';
+    context.textAlign = 'left';
+    context.textBaseline = 'middle';
+    const labelWidth = Math.min(context.measureText(tile.label).width + 16, width - 16);
+    context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    context.fillRect(x + 8, y + height - 36, labelWidth, 28);
+    context.fillStyle = '#ffffff';
+    context.fillText(tile.label, x + 16, y + height - 22, labelWidth - 16);
+
+    context.restore();
+
+    // 말하는 참가자 테두리
+    if (this.voiceActivity.speakingIds.includes(tile.userId)) {
+      context.strokeStyle = '#4ade80';
+      context.lineWidth = 4;
+      context.strokeRect(x + 2, y + 2, width - 4, height - 4);
+    }
+  }
+
+  /**
+   * 타일별 영상 재생 요소를 현재 타일 목록과 맞춤
+   */
+  private syncVideos(tiles: RecordingTile[]) {
+    const tileIds = new Set(tiles.map((tile) => tile.id));
+    this.videos.forEach((video, id) => {
+      if (tileIds.has(id)) return;
+      video.srcObject = null;
+      this.videos.delete(id);
+    });
+
+    tiles.forEach((tile) => {
+      let video = this.videos.get(tile.id);
+      if (!video) {
+        video = document.createElement('video');
+        video.muted = true; // 음성은 WebAudio로 따로 녹음
+        video.playsInline = true;
+        this.videos.set(tile.id, video);
+      }
+      if (video.srcObject !== tile.stream) {
+        video.srcObject = tile.stream;
+        if (tile.stream) video.play().catch((error) => console.warn(`녹화용 영상 재생 실패 (${tile.id}):`, error));
+      }
+    });
+  }
+
+  /**
+   * 모든 타일의 음성 트랙을 녹음 대상에 연결 (새 트랙은 추가하고 사라진 트랙은 제거)
+   */
+  private syncAudio(tiles: RecordingTile[]) {
+    const { audioContext, audioDestination } = this;
+    if (!audioContext || !audioDestination) return;
+
+    const tracks = new Map<string, MediaStreamTrack>();
+    tiles.forEach((tile) => tile.stream?.getAudioTracks().forEach((track) => tracks.set(track.id, track)));
+
+    this.audioSources.forEach((source, trackId) => {
+      if (tracks.has(trackId)) return;
+      source.disconnect();
+      this.audioSources.delete(trackId);
+    });
+
+    tracks.forEach((track, trackId) => {
+      if (this.audioSources.has(trackId) || track.readyState === 'ended') return;
+      const source = audioContext.createMediaStreamSource(new MediaStream([track]));
+      source.connect(audioDestination);
+      this.audioSources.set(trackId, source);
+    });
+  }
+}
+
+// 회의 녹화 서비스의 싱글톤 인스턴스 생성 및 내보내기
+export const meetingRecorder = new MeetingRecorder();
@@ -5,6 +5,163 @@
  * 화상 회의에 필요한 시그널링, 채팅, 사용자 참여 등의 이벤트를 처리합니다.
  */
 import { io, Socket } from 'socket.io-client';
+import { getConfig } from '../config';
+
+/**
+ * 참가자 역할 (방을 만든 사용자가 호스트)
+ */
+export type ParticipantRole = 'host' | 'guest';
+
+/**
+ * 시그널링 서버 연결 상태
+ * - connected: 연결됨
+ * - reconnecting: 연결이 끊겨 자동으로 다시 연결하는 중
+ * - failed: 재연결 시도를 모두 실패함
+ */
+export type ConnectionState = 'connected' | 'reconnecting' | 'failed';
+
+/**
+ * 방 입장 세션 정보
+ * @property roomId - 방 ID
+ * @property resumeToken - 연결이 끊겼을 때 같은 자리로 복구하기 위한 재연결 토큰
+ * @property resumed - 기존 세션을 복구한 경우 true (새로 입장한 경우 false)
+ */
+export interface Session {
+  roomId: string;
+  resumeToken: string;
+  resumed: boolean;
+}
+
+// 재연결 토큰을 보관하는 sessionStorage 키 (탭 단위로 유지되어 새로고침 후에도 세션 복구 가능)
+const getResumeTokenKey = (roomId: string) => `resumeToken:${roomId}`;
+
+/**
+ * 호스트 기능 요청 데이터
+ * @property roomId - 방 ID
+ * @property targetUserId - 대상 참가자 ID
+ */
+interface ModerationRequest {
+  roomId: string;
+  targetUserId: string;
+}
+
+/**
+ * 대기실에서 승인을 기다리는 사용자 정보
+ * @property userId - 사용자 ID
+ * @property nickname - 사용자 닉네임
+ */
+export interface PendingParticipant {
+  userId: string;
+  nickname: string;
+}
+
+/**
+ * 방 입장 거부 사유
+ * - ROOM_FULL: 최대 인원 초과, REMOVED: 내보내진 사용자, DENIED: 대기실에서 거절됨, ROOM_CLOSED: 대기 중 회의 종료
+ * - ROOM_LOCKED: 호스트가 회의를 잠금, PASSCODE_REQUIRED / PASSCODE_INVALID: 비밀번호 필요 / 틀림
+ * - TOO_MANY_ATTEMPTS: 비밀번호를 너무 많이 틀려 일시적으로 차단됨
+ * - USER_ID_IN_USE: 재연결 토큰 없이 이미 참가 중인 사용자 ID로 입장 (다른 창에서 참가 중 등)
+ * - ROOM_NOT_FOUND: 새 회의를 만들지 않고 없는 방에 입장 (회의가 끝난 방의 링크 등)
+ */
+export type JoinErrorCode =
+  | 'ROOM_FULL'
+  | 'REMOVED'
+  | 'DENIED'
+  | 'ROOM_CLOSED'
+  | 'ROOM_LOCKED'
+  | 'PASSCODE_REQUIRED'
+  | 'PASSCODE_INVALID'
+  | 'TOO_MANY_ATTEMPTS'
+  | 'USER_ID_IN_USE'
+  | 'ROOM_NOT_FOUND';
+
+/**
+ * 방 입장 거부 정보
+ * @property code - 거부 사유
+ * @property message - 사용자에게 표시할 메시지
+ * @property retryAfter - 다시 시도할 수 있을 때까지 남은 시간 (초, TOO_MANY_ATTEMPTS인 경우)
+ */
+export interface JoinError {
+  code: JoinErrorCode;
+  message: string;
+  retryAfter?: number;
+}
+
+/**
+ * 방 설정 (호스트가 변경하면 모든 참가자에게 전송)
+ * @property waitingRoom - 대기실 사용 여부
+ * @property locked - 회의 잠금 여부
+ * @property hasPasscode - 비밀번호 사용 여부
+ * @property spotlightId - 호스트가 모두에게 크게 표시하도록 지정한 참가자 ID (없으면 null)
+ */
+export interface RoomSettings {
+  waitingRoom: boolean;
+  locked: boolean;
+  hasPasscode: boolean;
+  spotlightId: string | null;
+}
+
+/**
+ * ICE 서버 설정 (방에 입장한 참가자가 요청하면 서버가 전송)
+ * @property iceServers - STUN/TURN 서버 목록 (TURN은 임시 자격 증명 포함)
+ * @property iceTransportPolicy - 전송 정책 (relay면 TURN 릴레이만 사용)
+ * @property ttl - TURN 자격 증명 유효 시간 (초)
+ */
+export interface IceServerConfig {
+  iceServers: RTCIceServer[];
+  iceTransportPolicy: RTCIceTransportPolicy;
+  ttl: number;
+}
+
+/**
+ * 손 들기 상태 변경 알림
+ * @property userId - 대상 사용자 ID
+ * @property nickname - 대상 사용자 닉네임
+ * @property raisedAt - 손 든 시각 (ms, 손을 내리면 null)
+ * @property loweredBy - 호스트가 손을 내린 경우 호스트 ID
+ */
+export interface HandChange {
+  userId: string;
+  nickname: string;
+  raisedAt: number | null;
+  loweredBy: string | null;
+}
+
+/**
+ * 참가자 마이크/카메라 상태
+ * @property userId - 사용자 ID
+ * @property audioEnabled - 마이크 켜짐 여부
+ * @property videoEnabled - 카메라 켜짐 여부
+ */
+export interface MediaStateChange {
+  userId: string;
+  audioEnabled: boolean;
+  videoEnabled: boolean;
+}
+
+/**
+ * 참가자 녹화 상태
+ * @property userId - 녹화하는 사용자 ID
+ * @property nickname - 녹화하는 사용자 닉네임
+ * @property recording - 녹화 중 여부
+ */
+export interface RecordingChange {
+  userId: string;
+  nickname: string;
+  recording: boolean;
+}
+
+/**
+ * 이모지 반응
+ * @property id - 반응 고유 ID (서버에서 생성)
+ * @property userId - 보낸 사용자 ID
+ * @property emoji - 이모지
+ */
+export interface Reaction {
+  id: string;
+  userId: string;
+  emoji: string;
+}
 
 /**
  * 서버에서 클라이언트로 전송되는 이벤트 인터페이스
@@ -15,9 +172,40 @@ interface ServerToClientEvents {
   userJoined: (data: { userId: string; socketId: string; nickname: string }) => void; // 사용자 입장
   userRejoined: (data: { userId: string; socketId: string; nickname: string }) => void; // 사용자 재접속
   userLeft: (data: { userId: string }) => void; // 사용자 퇴장
+  userResumed: (data: { userId: string }) => void; // 연결이 끊겼던 사용자가 기존 피어 연결을 유지한 채 세션 복구
+  session: (session: Session) => void; // 입장 또는 세션 복구 완료 (재연결 토큰 전달)
   'participant-count': (count: number) => void; // 참가자 수 업데이트
-  'existing-participants': (participants: { userId: string; socketId: string; nickname: string }[]) => void; // 기존 참가자 목록
+  'existing-participants': (
+    participants: {
+      userId: string;
+      socketId: string;
+      nickname: string;
+      screenStreamId?: string | null;
+      role?: ParticipantRole;
+      handRaisedAt?: number | null;
+      audioEnabled?: boolean;
+      videoEnabled?: boolean;
+      isRecording?: boolean;
+    }[]
+  ) => void; // 기존 참가자 목록 (역할, 손 들기, 마이크/카메라, 녹화 상태 포함)
+  'screen-share': (data: { userId: string; streamId: string | null }) => void; // 화면 공유 시작/종료 (화면 공유 스트림 ID)
+  'join-error': (error: JoinError) => void; // 방 입장 거부 (최대 인원 초과, 잠금, 비밀번호 필요 등)
+  'waiting-for-admission': (data: { roomId: string }) => void; // 대기실에서 호스트 승인 대기
+  'pending-participants': (participants: PendingParticipant[]) => void; // 승인 대기 중인 사용자 목록 (호스트에게만 전송)
+  'room-settings': (settings: RoomSettings) => void; // 방 설정 변경
+  'host-changed': (data: { hostId: string }) => void; // 호스트 변경
+  'force-mute': (data: { by: string }) => void; // 호스트가 내 마이크를 끔
+  'force-camera-off': (data: { by: string }) => void; // 호스트가 내 카메라를 끔
+  'removed-from-room': (data: { roomId: string }) => void; // 호스트가 나를 내보냄
+  'moderation-error': (data: { message: string }) => void; // 호스트 기능 요청 거부
+  'hand-changed': (data: HandChange) => void; // 참가자 손 들기/내리기
+  reaction: (reaction: Reaction) => void; // 이모지 반응
+  'media-state': (data: MediaStateChange) => void; // 참가자 마이크/카메라 상태 변경
+  'peer-message': (data: { from: string; message: string }) => void; // 데이터 채널 대신 서버가 중계한 피어 메시지
+  'ice-servers': (config: IceServerConfig) => void; // ICE 서버 목록 (TURN 임시 자격 증명 포함)
+  'recording-state': (data: RecordingChange) => void; // 참가자 녹화 시작/종료
   receiveMessage: (message: { id: string; senderId: string; senderNickname: string; content: string; timestamp: number }) => void; // 채팅 메시지 수신
+  'chat-history': (data: { roomId: string; messages: { id: string; senderId: string; senderNickname: string; content: string; timestamp: number }[]; hasMore: boolean; before: string | null; error?: string }) => void; // 채팅 기록 (입장 시 최근 기록, 요청 시 이전 기록, 불러오지 못하면 error)
   connect: () => void; // 소켓 연결 완료
   connect_error: (err: Error) => void; // 소켓 연결 오류
   disconnect: () => void; // 소켓 연결 해제
@@ -30,16 +218,41 @@ interface ServerToClientEvents {
  * 클라이언트가 서버에게 보내는 이벤트 타입을 정의합니다.
  */
 interface ClientToServerEvents {
-  'join-room': (data: { roomId: string; userId: string; nickname: string }) => void; // 방 입장
+  'join-room': (data: {
+    roomId: string;
+    userId: string;
+    nickname: string;
+    isCreating?: boolean;
+    passcode?: string;
+    resumeToken?: string;
+    keepConnections?: boolean;
+  }) => void; // 방 입장 (방을 만든 사용자는 호스트가 됨, 재연결 토큰이 맞으면 세션 복구)
   'leave-room': (data: { roomId: string; userId: string }) => void; // 방 퇴장
-  signal: (data: { to: string; from: string; signal: RTCSessionDescriptionInit | RTCIceCandidateInit }) => void; // WebRTC 시그널링 전송
+  signal: (data: { roomId: string; to: string; signal: RTCSessionDescriptionInit | RTCIceCandidateInit }) => void; // WebRTC 시그널링 전송 (보낸 사람은 서버가 소켓으로 확인)
   'chat-message': (data: { roomId: string; id: string; senderId: string; senderNickname: string; content: string; timestamp: number }) => void; // 채팅 메시지 전송
   'request-participants': (data: { roomId: string }) => void; // 기존 참가자 요청
+  'request-ice-servers': (data: { roomId: string }) => void; // ICE 서버 목록 요청 (방에 입장한 참가자만)
+  'request-chat-history': (data: { roomId: string; before: string | null }) => void; // 이전 채팅 기록 요청
+  'mute-participant': (data: ModerationRequest) => void; // 참가자 음소거 (호스트 전용)
+  'disable-camera': (data: ModerationRequest) => void; // 참가자 카메라 끄기 (호스트 전용)
+  'remove-participant': (data: ModerationRequest) => void; // 참가자 내보내기 (호스트 전용)
+  'transfer-host': (data: ModerationRequest) => void; // 호스트 넘기기 (호스트 전용)
+  'admit-participant': (data: ModerationRequest) => void; // 대기 중인 사용자 승인 (호스트 전용)
+  'deny-participant': (data: ModerationRequest) => void; // 대기 중인 사용자 거절 (호스트 전용)
+  'admit-all': (data: { roomId: string }) => void; // 대기 중인 사용자 모두 승인 (호스트 전용)
+  'set-waiting-room': (data: { roomId: string; enabled: boolean }) => void; // 대기실 사용 설정 (호스트 전용)
+  'set-room-lock': (data: { roomId: string; locked: boolean }) => void; // 회의 잠금 설정 (호스트 전용)
+  'set-room-passcode': (data: { roomId: string; passcode: string | null }) => void; // 회의 비밀번호 설정, null이면 해제 (호스트 전용)
+  'set-spotlight': (data: { roomId: string; targetUserId: string | null }) => void; // 모두에게 스포트라이트 설정, null이면 해제 (호스트 전용)
+  'raise-hand': (data: { roomId: string; raised: boolean }) => void; // 손 들기/내리기
+  'lower-hand': (data: ModerationRequest) => void; // 다른 참가자의 손 내리기 (호스트 전용)
+  'send-reaction': (data: { roomId: string; emoji: string }) => void; // 이모지 반응 전송
+  'media-state': (data: { roomId: string; audioEnabled: boolean; videoEnabled: boolean }) => void; // 내 마이크/카메라 상태 알림
+  'screen-share': (data: { roomId: string; userId: string; streamId: string | null }) => void; // 화면 공유 시작/종료 알림
+  'peer-message': (data: { roomId: string; to: string; message: string }) => void; // 데이터 채널이 열리지 않은 피어에게 메시지 중계 요청
+  'recording-state': (data: { roomId: string; recording: boolean }) => void; // 내 녹화 시작/종료 알림
 }
 
-// Vite 환경 변수에서 서버 URL 가져오기 (기본값 설정)
-const API_URL = window.location.origin;
-
 /**
  * 소켓 서비스 클래스
  *
@@ -51,6 +264,11 @@ class SocketService {
   private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
   // 현재 사용자의 ID 저장
   private userId: string = '';
+  // 현재 참여 중인 방 (재연결되면 같은 방에 다시 입장)
+  private activeJoin: { roomId: string; userId: string; nickname: string } | null = null;
+  // 시그널링 서버 연결 상태 및 구독 함수
+  private connectionState: ConnectionState = 'connected';
+  private connectionListeners: Set<(state: ConnectionState) => void> = new Set();
 
   /**
    * 소켓 서버에 연결하는 메서드
@@ -64,12 +282,13 @@ class SocketService {
         return this.socket;
       }
 
-      console.log(`소켓 서버에 연결 중: ${API_URL}`);
+      const { signalingUrl } = getConfig();
+      console.log(`소켓 서버에 연결 중: ${signalingUrl}`);
 
       // 소켓 연결
-      this.socket = io(API_URL, {
+      this.socket = io(signalingUrl, {
         transports: ['websocket', 'polling'], // polling 추가하여 fallback 제공
-        reconnectionAttempts: 5, // 재연결 시도 횟수
+        reconnectionAttempts: 10, // 재연결 시도 횟수 (서버의 재연결 유예 시간보다 길게 시도)
         reconnectionDelay: 1000,
         timeout: 20000, // 타임아웃 시간
         forceNew: true, // 새로운 연결 강제 (문제 해결 위해)
@@ -85,6 +304,28 @@ class SocketService {
         console.error('소켓 연결 오류:', err.message);
       });
 
+      // 새로고침 후에도 세션을 복구할 수 있도록 재연결 토큰을 탭 단위 저장소에 보관
+      this.socket.on('session', ({ roomId, resumeToken }) => {
+        sessionStorage.setItem(getResumeTokenKey(roomId), resumeToken);
+      });
+
+      // 연결이 끊기면 socket.io가 자동으로 재연결하며, 재연결되면 같은 방에 다시 입장
+      this.socket.on('disconnect', (reason) => {
+        console.warn('소켓 연결 끊김:', reason);
+        // 직접 연결을 끊은 경우(퇴장)는 재연결하지 않고, 서버가 끊은 경우는 자동 재연결되지 않음
+        if (reason === 'io client disconnect') return;
+        this.setConnectionState(reason === 'io server disconnect' ? 'failed' : 'reconnecting');
+      });
+      this.socket.io.on('reconnect', (attempt) => {
+        console.log(`소켓 재연결 성공 (${attempt}번째 시도):`, this.socket?.id);
+        this.setConnectionState('connected');
+        this.resumeSession();
+      });
+      this.socket.io.on('reconnect_failed', () => {
+        console.error('소켓 재연결 실패');
+        this.setConnectionState('failed');
+      });
+
       return this.socket;
     } catch (error) {
       console.error('소켓 초기화 중 오류:', error);
@@ -105,16 +346,34 @@ class SocketService {
    * @param roomId - 입장할 방의 ID
    * @param userId - 사용자 ID
    * @param nickname - 사용자 닉네임
+   * @param isCreating - 방을 새로 만드는 경우 true (방을 만든 사용자가 호스트가 됨)
+   * @param passcode - 회의 비밀번호 (비밀번호가 걸린 방인 경우)
    */
-  joinRoom(roomId: string, userId: string, nickname: string) {
+  joinRoom(roomId: string, userId: string, nickname: string, isCreating = false, passcode?: string) {
     if (!this.socket) {
       console.error('소켓이 연결되지 않았습니다. 방 입장 실패.');
       return;
     }
     // 사용자 ID 저장
     this.userId = userId;
+    this.activeJoin = { roomId, userId, nickname };
     console.log(`방 입장 시도: ${roomId}, 사용자: ${nickname}(${userId})`);
-    this.socket.emit('join-room', { roomId, userId, nickname });
+    // 새로고침 전에 받은 재연결 토큰이 있으면 함께 보내 같은 자리로 복구 (피어 연결은 새로 생성)
+    const resumeToken = sessionStorage.getItem(getResumeTokenKey(roomId)) ?? undefined;
+    this.socket.emit('join-room', { roomId, userId, nickname, isCreating, passcode, resumeToken, keepConnections: false });
+  }
+
+  /**
+   * 소켓 재연결 후 참여 중이던 방의 세션 복구
+   * 소켓만 끊겼던 경우이므로 기존 피어 연결은 유지하고 ICE 재시작으로 복구합니다.
+   */
+  private resumeSession() {
+    if (!this.socket || !this.activeJoin) return;
+
+    const { roomId, userId, nickname } = this.activeJoin;
+    const resumeToken = sessionStorage.getItem(getResumeTokenKey(roomId)) ?? undefined;
+    console.log(`세션 복구 시도: ${roomId}`);
+    this.socket.emit('join-room', { roomId, userId, nickname, resumeToken, keepConnections: true });
   }
 
   /**
@@ -129,6 +388,9 @@ class SocketService {
     }
     console.log(`방 퇴장: ${roomId}, 사용자 ID: ${userId}`);
     this.socket.emit('leave-room', { roomId, userId });
+    // 직접 나간 방은 복구하지 않음
+    sessionStorage.removeItem(getResumeTokenKey(roomId));
+    this.activeJoin = null;
   }
 
   /**
@@ -137,11 +399,12 @@ class SocketService {
    * @param signal - 전송할 시그널링 데이터 (Offer, Answer, ICE Candidate)
    */
   sendSignal(to: string, signal: RTCSessionDescriptionInit | RTCIceCandidateInit) {
-    if (!this.socket) {
+    const roomId = this.getRoomId();
+    if (!this.socket || !roomId) {
       console.error('소켓이 연결되지 않았습니다. 시그널링 실패.');
       return;
     }
-    this.socket.emit('signal', { to, from: this.socket.id!, signal });
+    this.socket.emit('signal', { roomId, to, signal });
   }
 
   /**
@@ -163,6 +426,210 @@ class SocketService {
     return { id, senderId, senderNickname, content, timestamp };
   }
 
+  /**
+   * 이전 채팅 기록을 요청하는 메서드
+   * 결과는 'chat-history' 이벤트로 수신합니다.
+   * @param roomId - 방 ID
+   * @param before - 기준 메시지 ID (이 메시지보다 이전 기록 요청)
+   */
+  requestChatHistory(roomId: string, before: string | null) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 채팅 기록 요청 실패.');
+      return;
+    }
+    console.log(`이전 채팅 기록 요청: ${roomId}, 기준 메시지: ${before}`);
+    this.socket.emit('request-chat-history', { roomId, before });
+  }
+
+  /**
+   * 호스트 기능 요청 메서드 (서버에서 호스트 권한을 확인)
+   * @param action - 요청 종류 (음소거, 카메라 끄기, 내보내기, 호스트 넘기기, 입장 승인/거절)
+   * @param roomId - 방 ID
+   * @param targetUserId - 대상 참가자 ID
+   */
+  moderate(
+    action: 'mute-participant' | 'disable-camera' | 'remove-participant' | 'transfer-host' | 'admit-participant' | 'deny-participant',
+    roomId: string,
+    targetUserId: string
+  ) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 호스트 기능 요청 실패.');
+      return;
+    }
+    console.log(`호스트 기능 요청: ${action}, 대상: ${targetUserId}`);
+    this.socket.emit(action, { roomId, targetUserId });
+  }
+
+  /**
+   * 대기 중인 사용자를 모두 승인하는 메서드 (호스트 전용)
+   * @param roomId - 방 ID
+   */
+  admitAll(roomId: string) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 입장 승인 실패.');
+      return;
+    }
+    console.log(`대기 중인 사용자 모두 승인: ${roomId}`);
+    this.socket.emit('admit-all', { roomId });
+  }
+
+  /**
+   * 대기실 사용 여부를 설정하는 메서드 (호스트 전용)
+   * @param roomId - 방 ID
+   * @param enabled - 대기실 사용 여부
+   */
+  setWaitingRoom(roomId: string, enabled: boolean) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 대기실 설정 실패.');
+      return;
+    }
+    console.log(`대기실 ${enabled ? '켜기' : '끄기'}: ${roomId}`);
+    this.socket.emit('set-waiting-room', { roomId, enabled });
+  }
+
+  /**
+   * 회의 잠금 여부를 설정하는 메서드 (호스트 전용)
+   * 잠긴 회의에는 이미 참가 중인 사용자 외에는 입장할 수 없습니다.
+   * @param roomId - 방 ID
+   * @param locked - 잠금 여부
+   */
+  setRoomLock(roomId: string, locked: boolean) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 회의 잠금 설정 실패.');
+      return;
+    }
+    console.log(`회의 ${locked ? '잠금' : '잠금 해제'}: ${roomId}`);
+    this.socket.emit('set-room-lock', { roomId, locked });
+  }
+
+  /**
+   * 회의 비밀번호를 설정하는 메서드 (호스트 전용)
+   * @param roomId - 방 ID
+   * @param passcode - 새 비밀번호 (null이면 비밀번호 해제)
+   */
+  setRoomPasscode(roomId: string, passcode: string | null) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 회의 비밀번호 설정 실패.');
+      return;
+    }
+    console.log(`회의 비밀번호 ${passcode ? '설정' : '해제'}: ${roomId}`);
+    this.socket.emit('set-room-passcode', { roomId, passcode });
+  }
+
+  /**
+   * 모두의 화면에 크게 표시할 참가자를 지정하는 메서드 (호스트 전용)
+   * 지정하면 모든 참가자의 레이아웃이 해제될 때까지 스포트라이트 대상 중심으로 바뀝니다.
+   * @param roomId - 방 ID
+   * @param targetUserId - 스포트라이트 대상 ID (null이면 해제)
+   */
+  setSpotlight(roomId: string, targetUserId: string | null) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 스포트라이트 설정 실패.');
+      return;
+    }
+    console.log(`스포트라이트 ${targetUserId ? `지정: ${targetUserId}` : '해제'}: ${roomId}`);
+    this.socket.emit('set-spotlight', { roomId, targetUserId });
+  }
+
+  /**
+   * 손 들기/내리기 메서드
+   * @param roomId - 방 ID
+   * @param raised - 손을 들면 true, 내리면 false
+   */
+  raiseHand(roomId: string, raised: boolean) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 손 들기 실패.');
+      return;
+    }
+    console.log(`손 ${raised ? '들기' : '내리기'}: ${roomId}`);
+    this.socket.emit('raise-hand', { roomId, raised });
+  }
+
+  /**
+   * 다른 참가자의 손을 내리는 메서드 (호스트 전용)
+   * @param roomId - 방 ID
+   * @param targetUserId - 대상 참가자 ID
+   */
+  lowerHand(roomId: string, targetUserId: string) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 손 내리기 실패.');
+      return;
+    }
+    console.log(`참가자 손 내리기: ${targetUserId}`);
+    this.socket.emit('lower-hand', { roomId, targetUserId });
+  }
+
+  /**
+   * 이모지 반응을 전송하는 메서드
+   * @param roomId - 방 ID
+   * @param emoji - 보낼 이모지
+   */
+  sendReaction(roomId: string, emoji: string) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 반응 전송 실패.');
+      return;
+    }
+    this.socket.emit('send-reaction', { roomId, emoji });
+  }
+
+  /**
+   * 내 마이크/카메라 켜짐 상태를 알리는 메서드
+   * 송신 측에서 트랙을 꺼도 수신 측 트랙에는 반영되지 않으므로 다른 참가자에게 직접 알립니다.
+   * @param roomId - 방 ID
+   * @param audioEnabled - 마이크 켜짐 여부
+   * @param videoEnabled - 카메라 켜짐 여부
+   */
+  sendMediaState(roomId: string, audioEnabled: boolean, videoEnabled: boolean) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 미디어 상태 전송 실패.');
+      return;
+    }
+    this.socket.emit('media-state', { roomId, audioEnabled, videoEnabled });
+  }
+
+  /**
+   * 내 녹화 시작/종료를 알리는 메서드
+   * 녹화는 내 브라우저에서 하지만 모든 참가자가 녹화 중임을 알 수 있도록 서버를 통해 알립니다.
+   * @param roomId - 방 ID
+   * @param recording - 녹화 중 여부
+   */
+  sendRecordingState(roomId: string, recording: boolean) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 녹화 상태 전송 실패.');
+      return;
+    }
+    this.socket.emit('recording-state', { roomId, recording });
+  }
+
+  /**
+   * 화면 공유 상태를 알리는 메서드
+   * 원격 참가자는 전달된 스트림 ID로 카메라 트랙과 화면 공유 트랙을 구분합니다.
+   * @param roomId - 방 ID
+   * @param userId - 사용자 ID
+   * @param streamId - 화면 공유 스트림 ID (공유 종료 시 null)
+   */
+  shareScreen(roomId: string, userId: string, streamId: string | null) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 화면 공유 알림 실패.');
+      return;
+    }
+    this.socket.emit('screen-share', { roomId, userId, streamId });
+  }
+
+  /**
+   * 데이터 채널이 열리지 않은 피어에게 서버 중계로 메시지를 보내는 메서드
+   * @param roomId - 방 ID
+   * @param to - 받을 사용자 ID
+   * @param message - 데이터 채널 메시지 (JSON 문자열)
+   */
+  sendPeerMessage(roomId: string, to: string, message: string) {
+    if (!this.socket) {
+      console.error('소켓이 연결되지 않았습니다. 피어 메시지 중계 실패.');
+      return;
+    }
+    this.socket.emit('peer-message', { roomId, to, message });
+  }
+
   /**
    * 현재 방 참가자 목록 요청 메서드
    * @param roomId - 정보를 요청할 방 ID
@@ -181,8 +648,29 @@ class SocketService {
    * 모든 리스너를 정리하고 연결을 해제합니다.
    */
   disconnect() {
+    this.activeJoin = null;
     this.socket?.disconnect();
     this.socket = null;
+    this.setConnectionState('connected');
+  }
+
+  /**
+   * 시그널링 서버 연결 상태 변경 구독
+   * @param listener - 상태가 바뀔 때 호출되는 함수 (구독 즉시 현재 상태로 한 번 호출)
+   * @returns 구독 해제 함수
+   */
+  onConnectionStateChange(listener: (state: ConnectionState) => void): () => void {
+    this.connectionListeners.add(listener);
+    listener(this.connectionState);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  private setConnectionState(state: ConnectionState) {
+    if (this.connectionState === state) return;
+    this.connectionState = state;
+    this.connectionListeners.forEach((listener) => listener(state));
   }
 
   /**
@@ -192,6 +680,14 @@ class SocketService {
   getUserId(): string {
     return this.userId;
   }
+
+  /**
+   * 현재 참여 중인 방 ID를 반환하는 메서드
+   * @returns 방 ID 또는 참여 중이 아니면 null
+   */
+  getRoomId(): string | null {
+    return this.activeJoin?.roomId ?? null;
+  }
 }
 
 // 소켓 서비스의 싱글톤 인스턴스 생성 및 내보내기
@@ -0,0 +1,214 @@
+/**
+ * 연결 품질 통계 수집 모듈
+ *
+ * RTCPeerConnection.getStats() 결과를 주기적으로 샘플링하여 왕복 지연, 패킷 손실, 지터,
+ * 송수신 비트레이트, 프레임 레이트, 해상도 등 참가자별 연결 품질 지표를 계산합니다.
+ */
+
+/**
+ * 연결 품질 단계 (신호 막대 개수)
+ * 0: 측정 불가, 1: 나쁨, 2: 보통, 3: 좋음
+ */
+export type ConnectionQuality = 0 | 1 | 2 | 3;
+
+/**
+ * 참가자별 연결 통계 인터페이스 (Redux에 저장 가능한 직렬화 값만 사용)
+ * @property userId - 원격 사용자 ID
+ * @property timestamp - 측정 시각 (ms)
+ * @property roundTripTime - 왕복 지연 시간 (ms)
+ * @property packetLoss - 수신 패킷 손실률 (%)
+ * @property outboundPacketLoss - 상대방이 보고한 송신 패킷 손실률 (%)
+ * @property jitter - 수신 지터 (ms)
+ * @property inboundBitrate - 수신 비트레이트 (kbps)
+ * @property outboundBitrate - 송신 비트레이트 (kbps)
+ * @property availableOutgoingBitrate - 추정 가용 송신 대역폭 (kbps)
+ * @property frameRate - 수신 비디오 프레임 레이트 (fps)
+ * @property resolution - 수신 비디오 해상도
+ * @property quality - 종합 연결 품질 단계
+ */
+export interface PeerStats {
+  userId: string;
+  timestamp: number;
+  roundTripTime: number | null;
+  packetLoss: number | null;
+  outboundPacketLoss: number | null;
+  jitter: number | null;
+  inboundBitrate: number | null;
+  outboundBitrate: number | null;
+  availableOutgoingBitrate: number | null;
+  frameRate: number | null;
+  resolution: { width: number; height: number } | null;
+  quality: ConnectionQuality;
+}
+
+/**
+ * remote-inbound-rtp 통계 (상대방이 RTCP로 보고한 내 송신 스트림 정보)
+ * TypeScript DOM 타입에 정의되어 있지 않아 필요한 필드만 선언합니다.
+ */
+interface RemoteInboundRtpStats extends RTCStats {
+  fractionLost?: number;
+  roundTripTime?: number;
+}
+
+/**
+ * 이전 샘플의 누적 값 (구간 비트레이트/손실률 계산용)
+ */
+interface CounterSnapshot {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+/**
+ * 왕복 지연과 손실률로 연결 품질 단계 계산
+ */
+const getQuality = (roundTripTime: number | null, packetLoss: number | null): ConnectionQuality => {
+  if (roundTripTime === null && packetLoss === null) return 0;
+
+  const rtt = roundTripTime ?? 0;
+  const loss = packetLoss ?? 0;
+
+  if (rtt < 150 && loss < 2) return 3;
+  if (rtt < 300 && loss < 5) return 2;
+  return 1;
+};
+
+/**
+ * 구간 값 차이로 kbps 계산
+ */
+const toKbps = (bytesDelta: number, intervalMs: number): number => Math.round((bytesDelta * 8) / intervalMs);
+
+/**
+ * 연결 통계 수집기 클래스
+ *
+ * 누적 카운터의 이전 값을 참가자별로 보관하여 구간 비트레이트와 손실률을 계산합니다.
+ */
+export class StatsCollector {
+  private previous: Map<string, CounterSnapshot> = new Map();
+
+  /**
+   * 특정 피어 연결의 통계 샘플링
+   * @param userId - 원격 사용자 ID
+   * @param connection - 피어 연결 객체
+   * @returns 계산된 연결 통계
+   */
+  async collect(userId: string, connection: RTCPeerConnection): Promise<PeerStats> {
+    const report = await connection.getStats();
+
+    let selectedPair: RTCIceCandidatePairStats | undefined;
+    let selectedPairId: string | undefined;
+    let jitter: number | null = null;
+    let frameRate: number | null = null;
+    let resolution: PeerStats['resolution'] = null;
+    let remoteFractionLost: number | null = null;
+    let remoteRoundTripTime: number | null = null;
+    const counters: CounterSnapshot = { timestamp: Date.now(), bytesReceived: 0, bytesSent: 0, packetsReceived: 0, packetsLost: 0 };
+
+    for (const stat of report.values() as IterableIterator<RTCStats>) {
+      switch (stat.type) {
+        case 'transport':
+          selectedPairId = (stat as RTCTransportStats).selectedCandidatePairId ?? selectedPairId;
+          break;
+        case 'candidate-pair': {
+          const pair = stat as RTCIceCandidatePairStats;
+          if (pair.nominated && pair.state === 'succeeded' && !selectedPair) {
+            selectedPair = pair;
+          }
+          break;
+        }
+        case 'inbound-rtp': {
+          const inbound = stat as RTCInboundRtpStreamStats;
+          counters.bytesReceived += inbound.bytesReceived ?? 0;
+          counters.packetsReceived += inbound.packetsReceived ?? 0;
+          counters.packetsLost += Math.max(0, inbound.packetsLost ?? 0);
+          if (inbound.jitter !== undefined) {
+            jitter = Math.max(jitter ?? 0, inbound.jitter * 1000);
+          }
+          // 화면 공유 등 여러 비디오 스트림이 있으면 가장 큰 해상도 기준
+          if (inbound.kind === 'video' && inbound.frameWidth && inbound.frameHeight) {
+            if (!resolution || inbound.frameWidth * inbound.frameHeight > resolution.width * resolution.height) {
+              resolution = { width: inbound.frameWidth, height: inbound.frameHeight };
+              frameRate = inbound.framesPerSecond ?? frameRate;
+            }
+          }
+          break;
+        }
+        case 'outbound-rtp':
+          counters.bytesSent += (stat as RTCOutboundRtpStreamStats).bytesSent ?? 0;
+          break;
+        case 'remote-inbound-rtp': {
+          const remoteInbound = stat as RemoteInboundRtpStats;
+          if (remoteInbound.fractionLost !== undefined) {
+            remoteFractionLost = Math.max(remoteFractionLost ?? 0, remoteInbound.fractionLost * 100);
+          }
+          if (remoteInbound.roundTripTime !== undefined) {
+            remoteRoundTripTime = remoteInbound.roundTripTime * 1000;
+          }
+          break;
+        }
+      }
+    }
+
+    // transport에 선택된 후보 쌍이 명시된 경우 우선 사용
+    if (selectedPairId && report.has(selectedPairId)) {
+      selectedPair = report.get(selectedPairId) as RTCIceCandidatePairStats;
+    }
+
+    const roundTripTime =
+      selectedPair?.currentRoundTripTime !== undefined ? Math.round(selectedPair.currentRoundTripTime * 1000) : remoteRoundTripTime !== null ? Math.round(remoteRoundTripTime) : null;
+
+    // 이전 샘플과의 차이로 구간 값 계산
+    const previous = this.previous.get(userId);
+    this.previous.set(userId, counters);
+
+    let inboundBitrate: number | null = null;
+    let outboundBitrate: number | null = null;
+    let packetLoss: number | null = null;
+
+    if (previous) {
+      const interval = counters.timestamp - previous.timestamp;
+      if (interval > 0) {
+        inboundBitrate = toKbps(Math.max(0, counters.bytesReceived - previous.bytesReceived), interval);
+        outboundBitrate = toKbps(Math.max(0, counters.bytesSent - previous.bytesSent), interval);
+      }
+
+      const lost = Math.max(0, counters.packetsLost - previous.packetsLost);
+      const received = Math.max(0, counters.packetsReceived - previous.packetsReceived);
+      if (lost + received > 0) {
+        packetLoss = Math.round((lost / (lost + received)) * 1000) / 10;
+      }
+    }
+
+    return {
+      userId,
+      timestamp: counters.timestamp,
+      roundTripTime,
+      packetLoss,
+      outboundPacketLoss: remoteFractionLost !== null ? Math.round(remoteFractionLost * 10) / 10 : null,
+      jitter: jitter !== null ? Math.round(jitter) : null,
+      inboundBitrate,
+      outboundBitrate,
+      availableOutgoingBitrate: selectedPair?.availableOutgoingBitrate !== undefined ? Math.round(selectedPair.availableOutgoingBitrate / 1000) : null,
+      frameRate: frameRate !== null ? Math.round(frameRate) : null,
+      resolution,
+      quality: getQuality(roundTripTime, packetLoss),
+    };
+  }
+
+  /**
+   * 참가자의 이전 샘플 삭제 (연결 종료 시)
+   * @param userId - 원격 사용자 ID
+   */
+  forget(userId: string) {
+    this.previous.delete(userId);
+  }
+
+  /**
+   * 모든 이전 샘플 삭제
+   */
+  clear() {
+    this.previous.clear();
+  }
+}
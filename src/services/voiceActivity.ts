@@ -0,0 +1,135 @@
+/**
+ * 음성 활동 감지 모듈
+ *
+ * 여러 참가자의 오디오 레벨을 주기적으로 측정하여 현재 말하고 있는 참가자와
+ * 주 발화자(dominant speaker)를 판별합니다.
+ */
+import { AudioLevelMeter } from './audioLevel';
+
+// 말하는 중으로 판단하는 최소 레벨 (0~1)
+const SPEAKING_THRESHOLD = 0.35;
+// 말하기 종료로 판단하기까지 유지하는 시간 (짧은 숨 고르기에 깜박이지 않도록)
+const SPEAKING_HOLD_MS = 400;
+// 주 발화자가 바뀌기 위해 가장 큰 소리를 유지해야 하는 시간
+const DOMINANT_SWITCH_MS = 800;
+
+/**
+ * 음성 활동 상태 인터페이스
+ * @property speakingIds - 현재 말하고 있는 참가자 ID 목록
+ * @property dominantSpeakerId - 주 발화자 ID (아직 없으면 null)
+ */
+export interface VoiceActivityState {
+  speakingIds: string[];
+  dominantSpeakerId: string | null;
+}
+
+/**
+ * 측정 대상 정보
+ * @property stream - 측정 중인 스트림
+ * @property audioTrack - 측정 중인 오디오 트랙 (트랙이 바뀌면 측정기를 다시 생성)
+ * @property meter - 레벨 측정기
+ * @property lastSpokeAt - 마지막으로 임계값을 넘은 시각
+ */
+interface MeteredSource {
+  stream: MediaStream;
+  audioTrack: MediaStreamTrack;
+  meter: AudioLevelMeter;
+  lastSpokeAt: number;
+}
+
+/**
+ * 음성 활동 감지기 클래스
+ *
+ * 하나의 AudioContext를 공유하며 참가자별 레벨을 측정합니다.
+ */
+export class VoiceActivityDetector {
+  private context: AudioContext | null = null;
+  private sources: Map<string, MeteredSource> = new Map();
+  private dominantSpeakerId: string | null = null;
+  // 주 발화자 후보와 후보가 된 시각
+  private candidate: { id: string; since: number } | null = null;
+
+  /**
+   * 측정 대상 스트림 목록 동기화
+   * 새 참가자는 측정기를 만들고, 사라진 참가자나 오디오 트랙이 바뀐 참가자는 정리합니다.
+   * @param streams - 참가자 ID별 스트림 목록
+   */
+  setStreams(streams: { id: string; stream: MediaStream }[]) {
+    const activeIds = new Set<string>();
+
+    for (const { id, stream } of streams) {
+      const audioTrack = stream.getAudioTracks()[0];
+      if (!audioTrack || audioTrack.readyState === 'ended') continue;
+      activeIds.add(id);
+
+      const existing = this.sources.get(id);
+      if (existing && existing.stream === stream && existing.audioTrack === audioTrack) continue;
+
+      existing?.meter.close();
+      this.context ??= new AudioContext();
+      // 트랙 하나만 담은 스트림으로 측정 (비디오 트랙 변경과 무관하게 유지)
+      const meter = new AudioLevelMeter(new MediaStream([audioTrack]), this.context);
+      this.sources.set(id, { stream, audioTrack, meter, lastSpokeAt: existing?.lastSpokeAt ?? 0 });
+    }
+
+    for (const [id, source] of this.sources.entries()) {
+      if (!activeIds.has(id)) {
+        source.meter.close();
+        this.sources.delete(id);
+        if (this.dominantSpeakerId === id) this.dominantSpeakerId = null;
+      }
+    }
+  }
+
+  /**
+   * 현재 레벨을 측정하여 음성 활동 상태 계산
+   * @returns 말하고 있는 참가자와 주 발화자
+   */
+  sample(): VoiceActivityState {
+    const now = Date.now();
+    const speakingIds: string[] = [];
+    let loudest: { id: string; level: number } | null = null;
+
+    for (const [id, source] of this.sources.entries()) {
+      const level = source.meter.getLevel();
+
+      if (level >= SPEAKING_THRESHOLD) {
+        source.lastSpokeAt = now;
+        if (!loudest || level > loudest.level) {
+          loudest = { id, level };
+        }
+      }
+
+      if (now - source.lastSpokeAt <= SPEAKING_HOLD_MS) {
+        speakingIds.push(id);
+      }
+    }
+
+    // 주 발화자 갱신: 다른 참가자가 일정 시간 이상 가장 크게 말해야 교체 (침묵 중에는 유지)
+    if (!loudest || loudest.id === this.dominantSpeakerId) {
+      this.candidate = null;
+    } else if (!this.dominantSpeakerId) {
+      this.dominantSpeakerId = loudest.id;
+      this.candidate = null;
+    } else if (this.candidate?.id !== loudest.id) {
+      this.candidate = { id: loudest.id, since: now };
+    } else if (now - this.candidate.since >= DOMINANT_SWITCH_MS) {
+      this.dominantSpeakerId = loudest.id;
+      this.candidate = null;
+    }
+
+    return { speakingIds: speakingIds.sort(), dominantSpeakerId: this.dominantSpeakerId };
+  }
+
+  /**
+   * 모든 측정기 및 AudioContext 정리
+   */
+  close() {
+    this.sources.forEach((source) => source.meter.close());
+    this.sources.clear();
+    this.context?.close().catch(() => {});
+    this.context = null;
+    this.dominantSpeakerId = null;
+    this.candidate = null;
+  }
+}
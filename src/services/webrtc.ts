@@ -5,19 +5,59 @@
  * 소켓 통신을 기반으로 P2P 연결을 설정하고 관리합니다.
  */
 import { socketService } from './socket';
+import type { IceServerConfig } from './socket';
 import { toast } from 'react-hot-toast';
 import { Socket } from 'socket.io-client';
+import { VoiceActivityDetector, VoiceActivityState } from './voiceActivity';
+import { PeerStats, StatsCollector } from './stats';
+import { BandwidthManager, SendQualityLevel } from './bandwidth';
+import { TypedEmitter } from './emitter';
+import { ExternalStore } from './externalStore';
+import { DataChannelBus, DataMessage, DataMessages, SendOptions } from './dataChannel';
 
 /**
  * 피어 연결 정보를 저장하는 인터페이스
  * @property connection - WebRTC 연결 객체
- * @property stream - 원격 사용자의 미디어 스트림
+ * @property stream - 원격 사용자의 미디어 스트림 (카메라, 마이크)
+ * @property screenStream - 원격 사용자의 화면 공유 스트림 (공유 중이 아니면 null)
+ * @property incomingStreams - 수신한 원격 스트림 (스트림 ID별, 화면 공유 트랙 구분용)
  */
 interface PeerConnection {
   connection: RTCPeerConnection;
   stream: MediaStream;
+  screenStream: MediaStream | null;
+  incomingStreams: Map<string, MediaStream>;
 }
 
+/**
+ * 화면에 표시할 원격 피어 정보
+ * @property userId - 원격 사용자 ID
+ * @property stream - 카메라/마이크 스트림
+ * @property screenStream - 화면 공유 스트림 (공유 중이 아니면 null)
+ * @property nickname - 원격 사용자 닉네임
+ * @property connectionState - 피어 연결 상태
+ */
+export interface RemotePeer {
+  userId: string;
+  stream: MediaStream;
+  screenStream: MediaStream | null;
+  nickname: string;
+  connectionState: RTCPeerConnectionState;
+}
+
+/**
+ * 원격 피어 변경 이벤트 (이벤트 이름 → 데이터)
+ * - isScreen: 화면 공유 트랙 여부
+ */
+export type PeerEvents = {
+  'peer-added': { userId: string };
+  'peer-removed': { userId: string };
+  'track-added': { userId: string; track: MediaStreamTrack; isScreen: boolean };
+  'track-removed': { userId: string; track: MediaStreamTrack; isScreen: boolean };
+  'connection-state-changed': { userId: string; state: RTCPeerConnectionState };
+  'nickname-changed': { userId: string; nickname: string };
+};
+
 /**
  * WebRTC 서비스 클래스
  *
@@ -29,6 +69,12 @@ class WebRTCService {
   private peerConnections: Map<string, PeerConnection> = new Map();
   // 로컬 미디어 스트림 (카메라, 마이크)
   private localStream: MediaStream | null = null;
+  // 로컬 화면 공유 스트림 (카메라와 별도의 비디오 트랜시버로 전송)
+  private screenStream: MediaStream | null = null;
+  // 사용자 ID별 화면 공유 트랙 송신자
+  private screenSenders: Map<string, RTCRtpSender> = new Map();
+  // 사용자 ID별 원격 화면 공유 스트림 ID (시그널링으로 전달받음)
+  private remoteScreenStreamIds: Map<string, string> = new Map();
   // 사용자 ID와 닉네임 매핑 저장
   private nicknameMap: Map<string, string> = new Map();
   // 연결이 보류된 사용자 ID 저장 (스트림 준비 등의 이유로)
@@ -46,9 +92,41 @@ class WebRTCService {
   private pendingIce: Record<string, RTCIceCandidateInit[]> = {};
   // 마지막 트랙 추가 시간 관리 (반복 호출 방지)
   private lastTrackAddTime: Map<string, number> = new Map();
-
-  // WebRTC 연결 설정 (STUN 서버 정보 등)
-  private readonly configuration: RTCConfiguration = {
+  // 음성 활동 감지 (로컬 및 원격 스트림의 발화 여부, 주 발화자)
+  private voiceActivityDetector = new VoiceActivityDetector();
+  private voiceActivityListeners: Set<(state: VoiceActivityState) => void> = new Set();
+  private voiceActivityState: VoiceActivityState = { speakingIds: [], dominantSpeakerId: null };
+  private voiceActivityTimer: ReturnType<typeof setInterval> | null = null;
+  private static VOICE_ACTIVITY_INTERVAL = 150; // 음성 레벨 측정 주기 (ms)
+  // 연결 품질 통계 수집
+  private statsCollector = new StatsCollector();
+  private statsListeners: Set<(stats: PeerStats[]) => void> = new Set();
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private static STATS_INTERVAL = 2000; // 통계 샘플링 주기 (ms)
+  private static ICE_SERVERS_TIMEOUT = 5000; // ICE 서버 목록 응답 대기 시간 (ms)
+  // 송신 대역폭 자동 조정 (통계 구독 해제 함수, 피어별 마지막으로 적용한 송신 품질)
+  private bandwidthManager = new BandwidthManager();
+  private stopBandwidthAdaptation: (() => void) | null = null;
+  private appliedSendQualities: Map<string, string> = new Map();
+  // 카메라 영상 수신을 멈춘 사용자 ID (화면에 표시하지 않는 페이지의 참가자)
+  private pausedVideoIds: Set<string> = new Set();
+  // 원격 피어 변경 이벤트 및 화면 표시용 피어 목록 (바뀐 경우에만 새 배열로 교체)
+  private peerEvents = new TypedEmitter<PeerEvents>();
+  readonly remotePeers = new ExternalStore<RemotePeer[]>([]);
+  // 피어 간 데이터 채널 메시지 (채널이 열리지 않은 피어에게는 소켓 서버로 중계)
+  private dataChannels = new DataChannelBus((to, message) => {
+    const roomId = socketService.getRoomId();
+    if (roomId) socketService.sendPeerMessage(roomId, to, message);
+  });
+
+  // ICE 서버 목록 조회 (서버 설정의 STUN/TURN, 만료 시각이 지나면 다시 조회)
+  private iceServersRequest: Promise<void> | null = null;
+  private iceServersExpireAt = 0;
+  // 응답을 기다리는 ICE 서버 목록 요청 완료 함수
+  private resolveIceServersRequest: (() => void) | null = null;
+
+  // WebRTC 연결 설정 (서버에서 ICE 서버 목록을 받기 전까지는 공개 STUN 서버 사용)
+  private configuration: RTCConfiguration = {
     iceServers: [
       { urls: 'stun:stun.l.google.com:19302' },
       { urls: 'stun:stun1.l.google.com:19302' },
@@ -71,6 +149,9 @@ class WebRTCService {
     this.socket = socket;
     const secureSocket = socket; // TypeScript 타입 가드를 위한 변수
 
+    // 서버가 보낸 ICE 서버 목록 반영 (방에 입장한 뒤 피어 연결을 만들 때 요청)
+    secureSocket.on('ice-servers', (config: IceServerConfig) => this.applyIceServers(config));
+
     // 주기적으로 오래된 연결 정리
     setInterval(() => this.cleanupStaleConnections(), WebRTCService.CONNECTION_CLEANUP_INTERVAL);
 
@@ -232,7 +313,7 @@ class WebRTCService {
     secureSocket.on('userJoined', async ({ userId, socketId, nickname }) => {
       // 자기 자신은 제외
       if (socketId !== secureSocket.id) {
-        this.nicknameMap.set(userId, nickname);
+        this.setNickname(userId, nickname);
 
         try {
           // 로컬 스트림이 준비되었는지 여부와 상관없이 피어 연결 생성
@@ -259,11 +340,25 @@ class WebRTCService {
     // 기존 참가자 정보 수신 이벤트 처리
     secureSocket.on('existing-participants', async (participants) => {
       console.log('기존 참가자 정보 수신:', participants);
+
+      // 연결이 끊긴 동안 퇴장한 참가자의 연결 정리 (userLeft 이벤트를 받지 못했으므로)
+      const participantIds = new Set(participants.map(({ userId }) => userId));
+      Array.from(this.peerConnections.keys())
+        .filter((userId) => !participantIds.has(userId))
+        .forEach((userId) => {
+          this.removePeerConnection(userId);
+          this.remoteScreenStreamIds.delete(userId);
+        });
+
       // 알림 표시 없이 연결만 설정
-      for (const { userId, socketId, nickname } of participants) {
-        // 자기 자신은 제외
-        if (socketId !== secureSocket.id) {
-          this.nicknameMap.set(userId, nickname);
+      for (const { userId, socketId, nickname, screenStreamId } of participants) {
+        // 자기 자신과 이미 연결된 참가자는 제외 (세션 복구 시 기존 연결은 ICE 재시작으로 복구)
+        if (socketId !== secureSocket.id && !this.peerConnections.has(userId)) {
+          this.setNickname(userId, nickname);
+          // 이미 화면을 공유 중인 참가자라면 화면 공유 스트림 ID를 먼저 기록
+          if (screenStreamId) {
+            this.remoteScreenStreamIds.set(userId, screenStreamId);
+          }
 
           try {
             // 로컬 스트림이 준비되었는지 여부와 상관없이 피어 연결 생성
@@ -313,10 +408,57 @@ class WebRTCService {
       toast(`${nickname}님이 퇴장했습니다.`);
       // 연결 제거 및 정리
       this.removePeerConnection(userId);
+      this.remoteScreenStreamIds.delete(userId);
       // 보류 대기열에서도 제거
       this.pendingConnections.delete(userId);
     });
 
+    // 화면 공유 시작/종료 이벤트 처리
+    secureSocket.on('screen-share', ({ userId, streamId }) => {
+      console.log('화면 공유 상태 수신:', userId, streamId);
+      this.applyRemoteScreenShare(userId, streamId);
+    });
+
+    // 입장 또는 세션 복구 완료
+    secureSocket.on('session', ({ resumed }) => {
+      if (resumed) {
+        // 끊긴 동안 보낸 offer는 전달되지 않았으므로 되돌려 두고, 상대가 보내는 ICE 재시작 offer를 받음
+        this.peerConnections.forEach(({ connection }, userId) => {
+          if (connection.signalingState !== 'have-local-offer') return;
+          this.makingOffer.set(userId, false);
+          connection.setLocalDescription({ type: 'rollback' }).catch((error) => console.error(`offer 되돌리기 실패 (${userId}):`, error));
+        });
+        return;
+      }
+
+      // 유예 시간이 지나 새 세션으로 입장한 경우 상대방도 연결을 새로 만들므로 남은 연결 정리
+      if (this.peerConnections.size > 0) {
+        console.log('새 세션으로 입장하여 이전 피어 연결을 정리합니다.');
+        Array.from(this.peerConnections.keys()).forEach((userId) => this.removePeerConnection(userId));
+        this.remoteScreenStreamIds.clear();
+      }
+    });
+
+    // 데이터 채널이 열리지 않아 서버가 중계한 피어 메시지
+    secureSocket.on('peer-message', ({ from, message }) => {
+      this.dataChannels.receive(from, message, true);
+    });
+
+    // 연결이 끊겼던 참가자의 세션 복구 (피어 연결을 유지하고 있으므로 필요한 경우에만 ICE 재시작)
+    secureSocket.on('userResumed', ({ userId }) => {
+      console.log('참가자 세션 복구:', userId);
+      const peer = this.peerConnections.get(userId);
+      if (!peer) {
+        this.initiateCall(userId).catch((error) => console.error(`${userId}와 연결 실패:`, error));
+        return;
+      }
+
+      const { connection } = peer;
+      if (connection.connectionState !== 'connected' || connection.signalingState !== 'stable') {
+        this.restartIce(userId, connection);
+      }
+    });
+
     // 사용자 재접속 이벤트 처리
     secureSocket.on('userRejoined', async ({ userId, socketId, nickname }) => {
       console.log('참가자 재접속 이벤트 수신:', userId, socketId, nickname);
@@ -330,11 +472,12 @@ class WebRTCService {
 
       // 자기 자신은 제외
       if (socketId !== secureSocket.id) {
-        // 기존 연결이 있으면 제거
+        // 기존 연결이 있으면 제거 (재접속 시 화면 공유는 초기화됨)
         this.removePeerConnection(userId);
+        this.remoteScreenStreamIds.delete(userId);
 
         // 닉네임 맵 업데이트
-        this.nicknameMap.set(userId, nickname);
+        this.setNickname(userId, nickname);
 
         // 로컬 스트림이 준비되었는지 확인
         if (this.localStream) {
@@ -354,6 +497,10 @@ class WebRTCService {
 
   /**
    * 로컬 미디어 스트림 설정 및 기존 연결에 적용
+   *
+   * 기존 피어 연결은 유지한 채 RTCRtpSender.replaceTrack으로 송신 트랙만 교체합니다.
+   * 트랙 종류가 새로 추가되거나 제거되는 경우에만 재협상이 발생하며,
+   * 교체에 실패한 피어만 연결을 새로 만드는 방식으로 복구합니다.
    * @param stream - 로컬 미디어 스트림 (카메라/마이크 또는 화면 공유)
    */
   async setLocalStream(stream: MediaStream) {
@@ -370,33 +517,25 @@ class WebRTCService {
     // 새 스트림으로 업데이트
     this.localStream = stream;
 
-    // 기존 연결이 있는 경우 모두 닫고 새로 연결 시작
+    // 기존 연결이 있는 경우 송신 트랙만 교체
     if (this.peerConnections.size > 0) {
-      console.log('기존 연결 모두 닫고 새로 시작:', this.peerConnections.size);
-
-      // 기존 연결된 피어들의 ID 저장
-      const existingPeers = Array.from(this.peerConnections.keys());
-
-      // 모든 연결 닫기
-      for (const userId of existingPeers) {
-        console.log(`${userId}와의 기존 연결 종료`);
-        this.removePeerConnection(userId);
-      }
+      console.log('기존 연결의 송신 트랙 교체:', this.peerConnections.size);
 
-      // 잠시 지연 후 새 연결 시작
-      await new Promise((resolve) => setTimeout(resolve, 500));
+      const failedPeers: string[] = [];
 
-      // 모든 피어와 새로운 연결 시작
-      for (const userId of existingPeers) {
+      for (const userId of Array.from(this.peerConnections.keys())) {
         try {
-          console.log(`${userId}와 새 연결 시작`);
-          await this.initiateCall(userId);
+          await this.replaceLocalTracks(userId, stream);
         } catch (error) {
-          console.error(`${userId}와의 새 연결 실패:`, error);
-          // 실패한 경우 보류 목록에 추가
-          this.pendingConnections.add(userId);
+          console.warn(`${userId}의 트랙 교체 실패, 연결 재생성으로 대체:`, error);
+          failedPeers.push(userId);
         }
       }
+
+      // 트랙 교체에 실패한 피어만 연결을 다시 생성
+      if (failedPeers.length > 0) {
+        await this.rebuildPeerConnections(failedPeers);
+      }
     } else {
       console.log('피어 연결 없음, 새 연결 대기');
     }
@@ -420,24 +559,458 @@ class WebRTCService {
     }
   }
 
+  /**
+   * 특정 피어 연결의 송신 트랙을 새 스트림의 트랙으로 교체
+   * - 같은 종류의 송신자가 있으면 replaceTrack (재협상 없음)
+   * - 송신자가 없으면 addTrack, 트랙이 없어졌으면 removeTrack (재협상 발생)
+   * @param userId - 원격 사용자 ID
+   * @param stream - 새 로컬 미디어 스트림
+   */
+  private async replaceLocalTracks(userId: string, stream: MediaStream) {
+    const peer = this.peerConnections.get(userId);
+    if (!peer) return;
+
+    const pc = peer.connection;
+
+    for (const kind of ['audio', 'video'] as const) {
+      const newTrack = (kind === 'audio' ? stream.getAudioTracks() : stream.getVideoTracks())[0] ?? null;
+      const transceiver = this.findTransceiver(userId, pc, kind);
+
+      if (newTrack) {
+        if (!transceiver) {
+          // 새로운 종류의 트랙 → addTrack 후 onnegotiationneeded에서 재협상
+          console.log(`${userId}에게 새 ${kind} 트랙 추가 (재협상 필요)`);
+          pc.addTrack(newTrack, stream);
+          continue;
+        }
+
+        if (transceiver.sender.track !== newTrack) {
+          console.log(`${userId}의 ${kind} 트랙 교체: ${transceiver.sender.track?.id ?? '없음'} → ${newTrack.id}`);
+          await transceiver.sender.replaceTrack(newTrack);
+        }
+
+        // 이전에 제거되었던 송신자를 재사용하는 경우 송신 방향 복구 (재협상 발생)
+        if (transceiver.direction === 'recvonly' || transceiver.direction === 'inactive') {
+          transceiver.direction = transceiver.direction === 'recvonly' ? 'sendrecv' : 'sendonly';
+        }
+      } else if (transceiver?.sender.track) {
+        // 해당 종류의 트랙이 없어졌으면 송신자 제거 (재협상 발생)
+        console.log(`${userId}에게서 ${kind} 트랙 제거 (재협상 필요)`);
+        pc.removeTrack(transceiver.sender);
+      }
+    }
+  }
+
+  /**
+   * 피어 연결에서 지정한 종류의 카메라/마이크 트랜시버 검색
+   * 송신 트랙이 없는 경우에도 수신 트랙 종류로 트랜시버를 찾을 수 있으며,
+   * 화면 공유용 트랜시버(송신/수신)는 제외합니다.
+   * @param userId - 원격 사용자 ID
+   * @param pc - 피어 연결 객체
+   * @param kind - 트랙 종류 (audio/video)
+   */
+  private findTransceiver(userId: string, pc: RTCPeerConnection, kind: 'audio' | 'video'): RTCRtpTransceiver | undefined {
+    const screenSender = this.screenSenders.get(userId);
+    const remoteScreenTracks = this.peerConnections.get(userId)?.screenStream?.getTracks() ?? [];
+
+    return pc
+      .getTransceivers()
+      .find(
+        (transceiver) =>
+          transceiver.currentDirection !== 'stopped' &&
+          transceiver.receiver.track.kind === kind &&
+          transceiver.sender !== screenSender &&
+          !remoteScreenTracks.includes(transceiver.receiver.track)
+      );
+  }
+
+  /**
+   * 로컬 화면 공유 스트림 설정
+   *
+   * 화면 공유 트랙은 카메라 트랙을 대체하지 않고 별도의 비디오 트랜시버로 전송됩니다.
+   * 원격 측은 시그널링된 스트림 ID로 카메라와 화면 공유를 구분합니다.
+   * @param stream - 화면 공유 스트림 (공유 종료 시 null)
+   */
+  async setScreenStream(stream: MediaStream | null) {
+    console.log('setScreenStream 호출됨:', stream ? stream.id : '공유 종료');
+    this.screenStream = stream;
+
+    for (const [userId, { connection }] of this.peerConnections.entries()) {
+      try {
+        await this.applyScreenTrack(userId, connection);
+      } catch (error) {
+        console.error(`${userId}에 화면 공유 트랙 적용 실패:`, error);
+      }
+    }
+  }
+
+  getScreenStream() {
+    return this.screenStream;
+  }
+
+  /**
+   * 현재 화면 공유 상태를 특정 피어 연결에 반영
+   * 새 공유는 addTrack으로 별도 트랜시버를 만들고, 종료 시 removeTrack으로 송신을 중단합니다.
+   * @param userId - 원격 사용자 ID
+   * @param pc - 피어 연결 객체
+   */
+  private async applyScreenTrack(userId: string, pc: RTCPeerConnection) {
+    const sender = this.screenSenders.get(userId);
+    const screenTrack = this.screenStream?.getVideoTracks()[0] ?? null;
+
+    if (screenTrack && this.screenStream) {
+      if (sender && sender.track) {
+        // 같은 공유 세션 안에서 트랙만 바뀐 경우
+        await sender.replaceTrack(screenTrack);
+      } else {
+        // 새 화면 공유 → 별도 트랜시버 추가 (재협상 발생)
+        console.log(`${userId}에게 화면 공유 트랙 추가: ${screenTrack.id}`);
+        this.screenSenders.set(userId, pc.addTrack(screenTrack, this.screenStream));
+      }
+    } else if (sender) {
+      console.log(`${userId}에게서 화면 공유 트랙 제거`);
+      if (pc.signalingState !== 'closed') {
+        pc.removeTrack(sender);
+      }
+      this.screenSenders.delete(userId);
+    }
+  }
+
+  /**
+   * 원격 사용자의 화면 공유 상태 반영
+   * 트랙이 시그널보다 먼저 도착한 경우 카메라 스트림에서 화면 공유 트랙을 분리합니다.
+   * @param userId - 원격 사용자 ID
+   * @param streamId - 화면 공유 스트림 ID (공유 종료 시 null)
+   */
+  private applyRemoteScreenShare(userId: string, streamId: string | null) {
+    const nickname = this.nicknameMap.get(userId) || '상대방';
+
+    if (!streamId) {
+      this.remoteScreenStreamIds.delete(userId);
+      const peer = this.peerConnections.get(userId);
+      if (peer?.screenStream) {
+        const [screenTrack] = peer.screenStream.getVideoTracks();
+        peer.screenStream = null;
+        if (screenTrack) this.emitPeerEvent('track-removed', { userId, track: screenTrack, isScreen: true });
+        toast(`${nickname}이(가) 화면 공유를 종료했습니다.`);
+      }
+      return;
+    }
+
+    this.remoteScreenStreamIds.set(userId, streamId);
+
+    const peer = this.peerConnections.get(userId);
+    const screenTrack = peer?.incomingStreams.get(streamId)?.getVideoTracks()[0];
+    if (!peer || !screenTrack) return; // 트랙이 도착하면 ontrack에서 처리
+
+    // 카메라 스트림에 잘못 들어간 화면 공유 트랙을 분리하고 카메라 트랙 복구
+    if (peer.stream.getTracks().includes(screenTrack)) {
+      peer.stream.removeTrack(screenTrack);
+      this.emitPeerEvent('track-removed', { userId, track: screenTrack, isScreen: false });
+
+      if (peer.stream.getVideoTracks().length === 0) {
+        for (const [id, incomingStream] of peer.incomingStreams.entries()) {
+          const cameraTrack = id !== streamId ? incomingStream.getVideoTracks()[0] : undefined;
+          if (cameraTrack) {
+            peer.stream.addTrack(cameraTrack);
+            this.emitPeerEvent('track-added', { userId, track: cameraTrack, isScreen: false });
+            break;
+          }
+        }
+      }
+    }
+
+    this.attachRemoteScreenTrack(userId, screenTrack);
+  }
+
+  /**
+   * 원격 화면 공유 트랙을 피어의 화면 공유 스트림으로 설정
+   * @param userId - 원격 사용자 ID
+   * @param track - 화면 공유 비디오 트랙
+   */
+  private attachRemoteScreenTrack(userId: string, track: MediaStreamTrack) {
+    const peer = this.peerConnections.get(userId);
+    if (!peer || peer.screenStream?.getVideoTracks()[0] === track) return;
+
+    console.log(`화면 공유 트랙 설정 (${userId}): ${track.id}`);
+    // 렌더링 갱신을 위해 새 스트림 객체로 교체
+    peer.screenStream = new MediaStream([track]);
+    this.emitPeerEvent('track-added', { userId, track, isScreen: true });
+    toast(`${this.nicknameMap.get(userId) || '상대방'}이(가) 화면을 공유하기 시작했습니다.`);
+  }
+
+  /**
+   * 피어 연결을 모두 닫고 새로 생성 (트랙 교체 실패 시 대체 경로)
+   * @param userIds - 연결을 다시 만들 사용자 ID 목록
+   */
+  private async rebuildPeerConnections(userIds: string[]) {
+    console.log('기존 연결 닫고 새로 시작:', userIds.length);
+
+    // 연결 닫기
+    for (const userId of userIds) {
+      console.log(`${userId}와의 기존 연결 종료`);
+      this.removePeerConnection(userId);
+    }
+
+    // 잠시 지연 후 새 연결 시작
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    // 피어와 새로운 연결 시작
+    for (const userId of userIds) {
+      try {
+        console.log(`${userId}와 새 연결 시작`);
+        await this.initiateCall(userId);
+      } catch (error) {
+        console.error(`${userId}와의 새 연결 실패:`, error);
+        // 실패한 경우 보류 목록에 추가
+        this.pendingConnections.add(userId);
+      }
+    }
+  }
+
   getLocalStream() {
     return this.localStream;
   }
 
-  getRemoteStreams(): { userId: string; stream: MediaStream; nickname: string }[] {
-    const streams = Array.from(this.peerConnections.entries()).map(([userId, { stream }]) => ({
-      userId,
-      stream,
-      nickname: this.nicknameMap.get(userId) || 'Unknown',
-    }));
-
-    console.log('WebRTC 서비스 - 피어 연결 상태:', {
-      연결수: this.peerConnections.size,
-      닉네임맵: Array.from(this.nicknameMap.entries()),
-      스트림: streams.length,
+  /**
+   * 화면 표시용 원격 피어 목록 조회
+   */
+  getRemotePeers(): RemotePeer[] {
+    return this.remotePeers.get();
+  }
+
+  /**
+   * 원격 피어 변경 이벤트 구독
+   * @param event - 이벤트 이름
+   * @param listener - 이벤트 발생 시 호출되는 함수
+   * @returns 구독 해제 함수
+   */
+  onPeerEvent<K extends keyof PeerEvents>(event: K, listener: (payload: PeerEvents[K]) => void): () => void {
+    return this.peerEvents.on(event, listener);
+  }
+
+  /**
+   * 원격 피어 변경 이벤트 발행 (표시용 피어 목록을 먼저 갱신)
+   */
+  private emitPeerEvent<K extends keyof PeerEvents>(event: K, payload: PeerEvents[K]) {
+    this.refreshRemotePeers(payload.userId);
+    this.peerEvents.emit(event, payload);
+  }
+
+  /**
+   * 표시용 원격 피어 목록 갱신
+   * 바뀌지 않은 피어는 기존 객체를 재사용하고, 목록이 바뀐 경우에만 구독자에게 알립니다.
+   * 스트림은 같은 객체에 트랙만 추가/제거되므로 변경을 알린 피어는 항상 새 객체로 교체합니다.
+   * @param changedUserId - 변경된 피어 ID
+   */
+  private refreshRemotePeers(changedUserId?: string) {
+    const previous = new Map(this.remotePeers.get().map((peer) => [peer.userId, peer]));
+    let changed = previous.size !== this.peerConnections.size;
+
+    const next = Array.from(this.peerConnections.entries()).map(([userId, { connection, stream, screenStream }]) => {
+      const peer: RemotePeer = {
+        userId,
+        stream,
+        screenStream,
+        nickname: this.nicknameMap.get(userId) || 'Unknown',
+        connectionState: connection.connectionState,
+      };
+      const old = previous.get(userId);
+      if (
+        old &&
+        userId !== changedUserId &&
+        old.stream === peer.stream &&
+        old.screenStream === peer.screenStream &&
+        old.nickname === peer.nickname &&
+        old.connectionState === peer.connectionState
+      ) {
+        return old;
+      }
+      changed = true;
+      return peer;
+    });
+
+    if (!changed) return;
+    this.remotePeers.set(next);
+  }
+
+  /**
+   * 원격 사용자 닉네임 저장 (바뀐 경우에만 알림)
+   */
+  private setNickname(userId: string, nickname: string) {
+    if (this.nicknameMap.get(userId) === nickname) return;
+    this.nicknameMap.set(userId, nickname);
+    this.emitPeerEvent('nickname-changed', { userId, nickname });
+  }
+
+  /**
+   * 피어에게 데이터 채널 메시지 전송 (채널이 열리지 않았으면 소켓 서버 중계)
+   * @param userId - 받을 사용자 ID (null이면 연결된 모든 피어)
+   * @param type - 메시지 종류
+   * @param payload - 메시지 데이터
+   * @param options - 전송 옵션 (전송 방식)
+   * @returns 모든 대상에게 전송했는지 여부
+   */
+  async sendData<K extends keyof DataMessages>(userId: string | null, type: K, payload: DataMessages[K], options?: SendOptions): Promise<boolean> {
+    const targets = userId ? [userId] : Array.from(this.peerConnections.keys());
+    const results = await Promise.all(targets.map((target) => this.dataChannels.send(target, type, payload, options)));
+    return results.every(Boolean);
+  }
+
+  /**
+   * 데이터 채널 메시지 구독
+   * @param type - 메시지 종류
+   * @param listener - 메시지를 받으면 호출되는 함수
+   * @returns 구독 해제 함수
+   */
+  onData<K extends keyof DataMessages>(type: K, listener: (message: DataMessage<DataMessages[K]>) => void): () => void {
+    return this.dataChannels.on(type, listener);
+  }
+
+  /**
+   * 피어와 데이터 채널로 직접 연결되어 있는지 여부 (false면 소켓 서버 중계로 전송됨)
+   * @param userId - 원격 사용자 ID
+   */
+  isDataChannelOpen(userId: string): boolean {
+    return this.dataChannels.isOpen(userId);
+  }
+
+  /**
+   * 음성 활동(말하는 참가자, 주 발화자) 변경 구독
+   * 첫 구독자가 생기면 측정을 시작하고, 구독자가 모두 해제되면 측정을 중단합니다.
+   * @param listener - 상태가 바뀔 때 호출되는 함수 (구독 즉시 현재 상태로 한 번 호출)
+   * @returns 구독 해제 함수
+   */
+  onVoiceActivity(listener: (state: VoiceActivityState) => void): () => void {
+    this.voiceActivityListeners.add(listener);
+    listener(this.voiceActivityState);
+
+    if (!this.voiceActivityTimer) {
+      this.voiceActivityTimer = setInterval(() => this.sampleVoiceActivity(), WebRTCService.VOICE_ACTIVITY_INTERVAL);
+    }
+
+    return () => {
+      this.voiceActivityListeners.delete(listener);
+      if (this.voiceActivityListeners.size === 0 && this.voiceActivityTimer) {
+        clearInterval(this.voiceActivityTimer);
+        this.voiceActivityTimer = null;
+        this.voiceActivityDetector.close();
+      }
+    };
+  }
+
+  /**
+   * 로컬 스트림과 모든 원격 스트림의 음성 레벨을 측정하고 변경 시 구독자에게 알림
+   * 로컬 참가자는 내 사용자 ID로 구분합니다.
+   */
+  private sampleVoiceActivity() {
+    const streams: { id: string; stream: MediaStream }[] = [];
+
+    const myUserId = socketService.getUserId();
+    if (this.localStream && myUserId) {
+      streams.push({ id: myUserId, stream: this.localStream });
+    }
+    this.peerConnections.forEach(({ stream }, userId) => streams.push({ id: userId, stream }));
+
+    this.voiceActivityDetector.setStreams(streams);
+    const next = this.voiceActivityDetector.sample();
+
+    // 변경된 경우에만 알림 (불필요한 렌더링 방지)
+    const previous = this.voiceActivityState;
+    if (previous.dominantSpeakerId === next.dominantSpeakerId && previous.speakingIds.join() === next.speakingIds.join()) {
+      return;
+    }
+
+    this.voiceActivityState = next;
+    this.voiceActivityListeners.forEach((listener) => listener(next));
+  }
+
+  /**
+   * 서버에서 ICE 서버 목록(STUN/TURN) 조회
+   * TURN 자격 증명은 방에 입장한 참가자에게만 소켓으로 전달되므로 입장한 뒤에 요청합니다.
+   * 자격 증명은 유효 시간이 있으므로 만료되면 다시 조회하고, 응답이 없으면 기존 설정을 유지합니다.
+   */
+  private loadIceServers(): Promise<void> {
+    if (this.iceServersRequest && Date.now() < this.iceServersExpireAt) {
+      return this.iceServersRequest;
+    }
+
+    const roomId = socketService.getRoomId();
+    if (!this.socket || !roomId) return Promise.resolve();
+
+    // 응답을 받기 전 중복 요청 방지용 임시 만료 시각
+    this.iceServersExpireAt = Date.now() + WebRTCService.ICE_SERVERS_TIMEOUT;
+    this.iceServersRequest = new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        console.error('ICE 서버 목록 조회 실패, 기존 설정 사용');
+        this.resolveIceServersRequest = null;
+        resolve();
+      }, WebRTCService.ICE_SERVERS_TIMEOUT);
+      this.resolveIceServersRequest = () => {
+        clearTimeout(timer);
+        resolve();
+      };
     });
+    this.socket.emit('request-ice-servers', { roomId });
+
+    return this.iceServersRequest;
+  }
+
+  /**
+   * 서버가 보낸 ICE 서버 목록 반영
+   * 테스트 시 localStorage의 forceRelay 값을 'true'로 설정하면 TURN 릴레이만 사용합니다.
+   */
+  private applyIceServers({ iceServers, iceTransportPolicy, ttl }: IceServerConfig) {
+    const forceRelay = localStorage.getItem('forceRelay') === 'true';
+    this.configuration = {
+      ...this.configuration,
+      iceServers: iceServers.length > 0 ? iceServers : this.configuration.iceServers,
+      iceTransportPolicy: forceRelay ? 'relay' : iceTransportPolicy,
+    };
+    // 만료 1분 전에 갱신
+    this.iceServersExpireAt = Date.now() + Math.max(60, ttl - 60) * 1000;
+    console.log(`ICE 서버 목록 수신: ${iceServers.length}개 항목, 전송 정책: ${this.configuration.iceTransportPolicy}`);
+
+    this.resolveIceServersRequest?.();
+    this.resolveIceServersRequest = null;
+  }
+
+  /**
+   * 연결 품질 통계 구독
+   * 첫 구독자가 생기면 주기적인 getStats() 샘플링을 시작하고, 구독자가 모두 해제되면 중단합니다.
+   * @param listener - 샘플링이 끝날 때마다 모든 피어의 통계와 함께 호출되는 함수
+   * @returns 구독 해제 함수
+   */
+  onStats(listener: (stats: PeerStats[]) => void): () => void {
+    this.statsListeners.add(listener);
+
+    if (!this.statsTimer) {
+      this.statsTimer = setInterval(() => {
+        this.collectStats().catch((error) => console.error('연결 통계 수집 오류:', error));
+      }, WebRTCService.STATS_INTERVAL);
+    }
+
+    return () => {
+      this.statsListeners.delete(listener);
+      if (this.statsListeners.size === 0 && this.statsTimer) {
+        clearInterval(this.statsTimer);
+        this.statsTimer = null;
+        this.statsCollector.clear();
+      }
+    };
+  }
+
+  /**
+   * 모든 피어 연결의 통계를 샘플링하여 구독자에게 전달
+   * 일부 연결에서 실패하더라도 나머지 결과는 전달합니다.
+   */
+  private async collectStats() {
+    const entries = Array.from(this.peerConnections.entries()).filter(([, { connection }]) => connection.connectionState !== 'closed');
+
+    const results = await Promise.allSettled(entries.map(([userId, { connection }]) => this.statsCollector.collect(userId, connection)));
+    const stats = results.filter((result): result is PromiseFulfilledResult<PeerStats> => result.status === 'fulfilled').map((result) => result.value);
 
-    return streams;
+    this.statsListeners.forEach((listener) => listener(stats));
   }
 
   // RTP 송신자 목록 반환 (비트레이트 조정 등에 활용)
@@ -480,6 +1053,103 @@ class WebRTCService {
     }
   }
 
+  /**
+   * 저대역폭 모드 설정
+   * 켜면 네트워크 상태와 무관하게 모든 피어에게 최저 해상도/프레임 레이트로 전송하고,
+   * 끄면 측정된 네트워크 상태에 따른 자동 조정으로 돌아갑니다.
+   * @param enabled - 저대역폭 모드 사용 여부
+   */
+  async setLowBandwidthMode(enabled: boolean) {
+    console.log(`저대역폭 모드 ${enabled ? '켜기' : '끄기'}`);
+    this.bandwidthManager.setLowBandwidthMode(enabled);
+    await this.applySendQualities(this.bandwidthManager.current(Array.from(this.peerConnections.keys())));
+  }
+
+  /**
+   * 카메라 영상 수신 중지 대상 설정
+   * 화면에 표시하지 않는 참가자의 카메라 트랜시버에서 수신 방향을 빼서 상대가 영상을 보내지 않도록 합니다.
+   * (방향이 바뀌면 onnegotiationneeded에서 재협상, 음성과 화면 공유는 계속 수신)
+   * @param userIds - 영상 수신을 멈출 사용자 ID 목록 (목록에 없는 사용자는 다시 수신)
+   */
+  setPausedVideo(userIds: string[]) {
+    const next = new Set(userIds);
+    const changed = new Set([...this.pausedVideoIds, ...next].filter((userId) => this.pausedVideoIds.has(userId) !== next.has(userId)));
+    if (changed.size === 0) return;
+
+    this.pausedVideoIds = next;
+    changed.forEach((userId) => this.applyVideoReceiving(userId));
+  }
+
+  /**
+   * 카메라 트랜시버의 수신 방향을 영상 수신 중지 여부에 맞춤 (송신 방향은 유지)
+   * @param userId - 원격 사용자 ID
+   */
+  private applyVideoReceiving(userId: string) {
+    const peer = this.peerConnections.get(userId);
+    if (!peer) return;
+
+    const transceiver = this.findTransceiver(userId, peer.connection, 'video');
+    if (!transceiver) return;
+
+    const paused = this.pausedVideoIds.has(userId);
+    const sending = transceiver.direction === 'sendrecv' || transceiver.direction === 'sendonly';
+    const direction: RTCRtpTransceiverDirection = paused ? (sending ? 'sendonly' : 'inactive') : sending ? 'sendrecv' : 'recvonly';
+    if (transceiver.direction === direction) return;
+
+    console.log(`${userId}의 카메라 영상 수신 ${paused ? '중지' : '재개'} (${transceiver.direction} → ${direction})`);
+    transceiver.direction = direction;
+  }
+
+  /**
+   * 송신 대역폭 자동 조정 시작
+   * 통계를 구독하여 샘플마다 피어별 송신 품질을 다시 계산합니다. (이미 시작된 경우 무시)
+   */
+  private startBandwidthAdaptation() {
+    if (this.stopBandwidthAdaptation) return;
+
+    this.stopBandwidthAdaptation = this.onStats((stats) => {
+      const plan = this.bandwidthManager.update(stats, Array.from(this.peerConnections.keys()));
+      this.applySendQualities(plan).catch((error) => console.error('송신 품질 적용 오류:', error));
+    });
+  }
+
+  /**
+   * 피어별 카메라 비디오 송신자에 송신 품질 적용
+   * 화면 공유 송신자는 글자가 뭉개지지 않도록 조정하지 않습니다.
+   * @param plan - 피어 ID별 송신 품질
+   */
+  private async applySendQualities(plan: Map<string, SendQualityLevel>) {
+    for (const [userId, quality] of plan.entries()) {
+      const pc = this.peerConnections.get(userId)?.connection;
+      const sender = pc && this.findTransceiver(userId, pc, 'video')?.sender;
+      if (!sender) continue;
+
+      // 변경이 없으면 setParameters 호출 생략
+      const key = `${quality.scaleResolutionDownBy}/${quality.maxFramerate}/${quality.maxBitrate}`;
+      if (this.appliedSendQualities.get(userId) === key) continue;
+
+      try {
+        const params = sender.getParameters();
+        // 협상이 끝나기 전에는 인코딩 정보가 없으므로 다음 샘플에서 다시 시도
+        if (!params.encodings || params.encodings.length === 0) continue;
+
+        params.encodings.forEach((encoding) => {
+          encoding.scaleResolutionDownBy = quality.scaleResolutionDownBy;
+          encoding.maxFramerate = quality.maxFramerate;
+          encoding.maxBitrate = quality.maxBitrate;
+        });
+
+        await sender.setParameters(params);
+        this.appliedSendQualities.set(userId, key);
+        console.log(
+          `${userId} 송신 품질 적용: 해상도 1/${quality.scaleResolutionDownBy}, ${quality.maxFramerate}fps, ${Math.round(quality.maxBitrate / 1000)}kbps`
+        );
+      } catch (error) {
+        console.error(`${userId} 송신 품질 설정 오류:`, error);
+      }
+    }
+  }
+
   async initiateCall(userId: string) {
     console.log(`${userId}에 대한 initiateCall 호출됨`);
     try {
@@ -546,6 +1216,9 @@ class WebRTCService {
    * @returns 생성된 피어 연결 객체
    */
   private async createPeerConnection(remoteUserId: string): Promise<PeerConnection> {
+    // ICE 서버 목록 조회가 끝날 때까지 대기 (아래 생성 과정에는 await가 없어 중복 생성되지 않음)
+    await this.loadIceServers();
+
     // 기존 연결이 있으면 반환
     const existingConnection = this.peerConnections.get(remoteUserId);
     if (existingConnection) {
@@ -580,6 +1253,9 @@ class WebRTCService {
     // 트랙 이벤트 리스너 설정 (트랙 추가는 여기서 하지 않음)
     this.setupTrackListeners(peerConnection, newRemoteStream, remoteUserId);
 
+    // 데이터 채널 생성 (첫 offer에 포함되도록 트랙과 함께 연결 생성 시점에 추가)
+    this.dataChannels.attach(remoteUserId, peerConnection);
+
     // 모든 로컬 트랙 추가 (트랙이 있는 경우에만)
     if (this.localStream && this.localStream.getTracks().length > 0) {
       console.log(`createPeerConnection: ${remoteUserId}와의 연결에 ${this.localStream.getTracks().length}개 트랙 추가 시작`);
@@ -599,13 +1275,26 @@ class WebRTCService {
       console.log('로컬 스트림에 트랙이 없습니다. 비디오/오디오 없이 연결합니다.');
     }
 
+    // 화면 공유 중이면 화면 공유 트랙도 별도 트랜시버로 추가
+    const screenTrack = this.screenStream?.getVideoTracks()[0];
+    if (screenTrack && this.screenStream) {
+      console.log(`createPeerConnection: ${remoteUserId}에게 화면 공유 트랙 추가: ${screenTrack.id}`);
+      this.screenSenders.set(remoteUserId, peerConnection.addTrack(screenTrack, this.screenStream));
+    }
+
     // 피어 연결 객체 생성 및 저장
     const peerConnectionObj: PeerConnection = {
       connection: peerConnection,
       stream: newRemoteStream,
+      screenStream: null,
+      incomingStreams: new Map(),
     };
 
     this.peerConnections.set(remoteUserId, peerConnectionObj);
+    this.emitPeerEvent('peer-added', { userId: remoteUserId });
+
+    // 첫 연결이 생기면 송신 대역폭 자동 조정 시작
+    this.startBandwidthAdaptation();
 
     return peerConnectionObj;
   }
@@ -619,147 +1308,49 @@ class WebRTCService {
         ID: event.track.id,
         종류: event.track.kind,
         레이블: event.track.label || '레이블 없음',
-        제약조건: event.track.getConstraints(),
+        스트림: event.streams.map((stream) => stream.id),
       });
 
       // 트랙이 수신되면 활성화 상태로 설정
       event.track.enabled = true;
 
-      // 화면 공유 여부 감지 (레이블 및 설정값 활용)
-      const trackSettings = event.track.getSettings();
-      const isScreen =
-        (event.track.label &&
-          (event.track.label.toLowerCase().includes('screen') ||
-            event.track.label.toLowerCase().includes('window') ||
-            event.track.label.toLowerCase().includes('tab') ||
-            event.track.label.toLowerCase().includes('display'))) ||
-        (trackSettings && trackSettings.displaySurface) || // displaySurface 속성 확인
-        (event.track.kind === 'video' && trackSettings && (trackSettings.width || 0) > 1000 && (trackSettings.height || 0) > 700); // 해상도가 큰 비디오는 화면 공유로 취급
-
-      console.log(`트랙 타입 감지: ${isScreen ? '화면 공유' : '일반'}, 설정값:`, trackSettings);
-
-      // 트랙을 즉시 추가하고 스트림 업데이트
-      if (event.streams && event.streams.length > 0) {
-        try {
-          const incomingStream = event.streams[0];
-          console.log(`수신 스트림 정보: ID=${incomingStream.id}, 트랙 수=${incomingStream.getTracks().length}`);
-
-          // 화면 공유 트랙인 경우
-          if (isScreen && event.track.kind === 'video') {
-            // 화면 공유 트랙이 있다면 별도로 관리
-            // 화면 공유가 들어오면 해당 트랙은 그대로 추가만 함
-            console.log(`화면 공유 트랙 추가: ${event.track.id}`);
-
-            // 기존에 화면 공유 트랙이 있으면 제거
-            const existingScreenTracks = remoteStream
-              .getVideoTracks()
-              .filter(
-                (track) =>
-                  track.label &&
-                  (track.label.toLowerCase().includes('screen') ||
-                    track.label.toLowerCase().includes('window') ||
-                    track.label.toLowerCase().includes('tab') ||
-                    track.label.toLowerCase().includes('display'))
-              );
-
-            existingScreenTracks.forEach((track) => {
-              console.log(`기존 화면 공유 트랙 제거: ${track.id}`);
-              remoteStream.removeTrack(track);
-            });
-
-            // 새 화면 공유 트랙 추가
-            remoteStream.addTrack(event.track);
-          } else {
-            // 일반 트랙인 경우(오디오 또는 카메라 비디오), 동일 종류의 일반 트랙만 제거
-            const existingTrack = remoteStream.getTracks().find(
-              (t) =>
-                t.kind === event.track.kind &&
-                // 화면 공유 트랙은 제외
-                !(
-                  t.label &&
-                  (t.label.toLowerCase().includes('screen') ||
-                    t.label.toLowerCase().includes('window') ||
-                    t.label.toLowerCase().includes('tab') ||
-                    t.label.toLowerCase().includes('display'))
-                )
-            );
-
-            if (existingTrack) {
-              console.log(`기존 ${event.track.kind} 트랙 제거: ${existingTrack.id}`);
-              remoteStream.removeTrack(existingTrack);
-            }
+      try {
+        const incomingStream = event.streams[0];
+        const peer = this.peerConnections.get(remoteUserId);
 
-            // 새 트랙 추가
-            console.log(`원격 스트림에 ${event.track.kind} 트랙 추가: ${event.track.id}, isScreen=${isScreen}`);
-            remoteStream.addTrack(event.track);
-          }
+        // 수신 스트림을 ID별로 보관 (화면 공유 시그널이 나중에 도착하는 경우 대비)
+        if (incomingStream && peer) {
+          peer.incomingStreams.set(incomingStream.id, incomingStream);
+        }
 
-          // 화면 공유면 알림 표시
-          if (isScreen) {
-            console.log(`화면 공유 감지: ${this.nicknameMap.get(remoteUserId) || '상대방'}의 화면이 공유됨`);
-            toast(`${this.nicknameMap.get(remoteUserId) || '상대방'}이(가) 화면을 공유하기 시작했습니다.`);
-          }
-        } catch (error) {
-          console.error('트랙 처리 중 오류:', error);
+        // 화면 공유 여부 판단: 시그널링으로 전달받은 화면 공유 스트림 ID와 비교
+        const isScreen = event.track.kind === 'video' && !!incomingStream && incomingStream.id === this.remoteScreenStreamIds.get(remoteUserId);
+        console.log(`트랙 타입 감지: ${isScreen ? '화면 공유' : '일반'}`);
+
+        if (isScreen) {
+          this.attachRemoteScreenTrack(remoteUserId, event.track);
+          return;
         }
-      } else {
-        // 스트림 없이 개별 트랙만 온 경우 (보통 화면 공유)
-        try {
-          // 화면 공유 트랙인 경우
-          if (isScreen && event.track.kind === 'video') {
-            // 기존에 화면 공유 트랙이 있으면 제거
-            const existingScreenTracks = remoteStream
-              .getVideoTracks()
-              .filter(
-                (track) =>
-                  track.label &&
-                  (track.label.toLowerCase().includes('screen') ||
-                    track.label.toLowerCase().includes('window') ||
-                    track.label.toLowerCase().includes('tab') ||
-                    track.label.toLowerCase().includes('display'))
-              );
-
-            existingScreenTracks.forEach((track) => {
-              console.log(`기존 화면 공유 트랙 제거 (직접): ${track.id}`);
-              remoteStream.removeTrack(track);
-            });
-
-            // 새 화면 공유 트랙 추가
-            console.log(`원격 스트림에 화면 공유 트랙 직접 추가: ${event.track.id}`);
-            remoteStream.addTrack(event.track);
-          } else {
-            // 일반 트랙인 경우(오디오 또는 카메라 비디오), 동일 종류의 일반 트랙만 제거
-            const existingTrack = remoteStream.getTracks().find(
-              (t) =>
-                t.kind === event.track.kind &&
-                // 화면 공유 트랙은 제외
-                !(
-                  t.label &&
-                  (t.label.toLowerCase().includes('screen') ||
-                    t.label.toLowerCase().includes('window') ||
-                    t.label.toLowerCase().includes('tab') ||
-                    t.label.toLowerCase().includes('display'))
-                )
-            );
-
-            if (existingTrack) {
-              console.log(`기존 ${event.track.kind} 트랙 제거 (직접): ${existingTrack.id}`);
-              remoteStream.removeTrack(existingTrack);
-            }
 
-            // 새 트랙 추가
-            console.log(`원격 스트림에 ${event.track.kind} 트랙 직접 추가: ${event.track.id}`);
-            remoteStream.addTrack(event.track);
-          }
+        // 일반 트랙인 경우(오디오 또는 카메라 비디오), 동일 종류의 기존 트랙 제거
+        const existingTrack = remoteStream.getTracks().find((t) => t.kind === event.track.kind);
+        if (existingTrack && existingTrack !== event.track) {
+          console.log(`기존 ${event.track.kind} 트랙 제거: ${existingTrack.id}`);
+          remoteStream.removeTrack(existingTrack);
+          this.emitPeerEvent('track-removed', { userId: remoteUserId, track: existingTrack, isScreen: false });
+        }
 
-          // 화면 공유면 알림 표시
-          if (isScreen) {
-            console.log(`화면 공유 감지 (개별 트랙): ${this.nicknameMap.get(remoteUserId) || '상대방'}의 화면이 공유됨`);
-            toast(`${this.nicknameMap.get(remoteUserId) || '상대방'}이(가) 화면을 공유하기 시작했습니다.`);
-          }
-        } catch (error) {
-          console.error('개별 트랙 처리 중 오류:', error);
+        // 새 트랙 추가
+        if (existingTrack !== event.track) {
+          console.log(`원격 스트림에 ${event.track.kind} 트랙 추가: ${event.track.id}`);
+          remoteStream.addTrack(event.track);
+          this.emitPeerEvent('track-added', { userId: remoteUserId, track: event.track, isScreen: false });
         }
+
+        // 다시 연결된 피어의 영상이 화면 밖에 있으면 수신 중지 상태 유지
+        if (event.track.kind === 'video') this.applyVideoReceiving(remoteUserId);
+      } catch (error) {
+        console.error('트랙 처리 중 오류:', error);
       }
     };
 
@@ -828,6 +1419,10 @@ class WebRTCService {
     // onconnectionstatechange 이벤트 핸들러 개선
     peerConnection.onconnectionstatechange = () => {
       console.log(`연결 상태 변경 (${remoteUserId}): ${peerConnection.connectionState}`);
+      // 이미 교체되거나 제거된 연결의 상태 변경은 알리지 않음
+      if (this.peerConnections.get(remoteUserId)?.connection === peerConnection) {
+        this.emitPeerEvent('connection-state-changed', { userId: remoteUserId, state: peerConnection.connectionState });
+      }
 
       switch (peerConnection.connectionState) {
         case 'connected':
@@ -837,60 +1432,18 @@ class WebRTCService {
         case 'disconnected':
           // 연결이 끊어진 경우 즉시 재연결을 시도하지 않고 상태만 알림
           console.log(`${remoteUserId}와의 연결이 일시적으로 끊어졌습니다. 자동 재연결을 시도합니다.`);
-          // 5초 후에 여전히 disconnected 상태이면 재연결 시도
+          // 5초 후에도 복구되지 않으면 연결을 새로 만들지 않고 ICE 재시작으로 경로만 다시 찾음
           setTimeout(() => {
-            // 이미 연결이 제거되었거나 재연결이 진행 중인지 확인
-            if (!this.peerConnections.has(remoteUserId)) {
-              console.log(`${remoteUserId}와의 연결이 이미 제거됨`);
-              return;
-            }
-
-            const currentConnection = this.peerConnections.get(remoteUserId)?.connection;
-            if (!currentConnection || currentConnection !== peerConnection) {
-              console.log(`${remoteUserId}와의 연결이 이미 변경됨`);
-              return;
-            }
-
             if (peerConnection.connectionState === 'disconnected' || peerConnection.connectionState === 'failed') {
               console.log(`${remoteUserId}와의 연결 복구 시도...`);
-              this.removePeerConnection(remoteUserId);
-
-              // 재연결 시도를 예약하여 즉시 실행 방지 (무한 재귀 방지)
-              this.pendingConnections.add(remoteUserId);
-              setTimeout(() => {
-                if (this.pendingConnections.has(remoteUserId)) {
-                  console.log(`${remoteUserId}에 대한 지연된 재연결 시도...`);
-                  this.pendingConnections.delete(remoteUserId);
-                  this.initiateCall(remoteUserId).catch((err) => {
-                    console.error(`${remoteUserId}와의 재연결 실패:`, err);
-                    // 재연결 실패 시 보류 목록에 다시 추가
-                    this.pendingConnections.add(remoteUserId);
-                  });
-                }
-              }, 2000);
+              this.restartIce(remoteUserId, peerConnection);
             }
           }, 5000);
           break;
         case 'failed':
-          console.log(`${remoteUserId}와의 연결이 실패했습니다. 재연결 시도...`);
-          // 연결이 완전히 실패한 경우 기존 연결을 정리하고 새로운 연결 시도
-          this.removePeerConnection(remoteUserId);
-
-          // 재연결 시도를 예약하여 즉시 실행 방지 (무한 재귀 방지)
-          this.pendingConnections.add(remoteUserId);
-          setTimeout(() => {
-            if (this.pendingConnections.has(remoteUserId)) {
-              console.log(`${remoteUserId}에 대한 지연된 재연결 시도...`);
-              this.pendingConnections.delete(remoteUserId);
-              this.initiateCall(remoteUserId).catch((err) => {
-                console.error(`${remoteUserId}와의 재연결 실패:`, err);
-                // 재연결 실패 시 보류 목록에 다시 추가
-                this.pendingConnections.add(remoteUserId);
-                // 사용자에게 연결 문제 알림
-                toast(`${this.nicknameMap.get(remoteUserId) || '상대방'}과의 연결에 문제가 있습니다. 재연결을 시도합니다.`);
-              });
-            }
-          }, 2000);
+          console.log(`${remoteUserId}와의 연결이 실패했습니다. ICE 재시작 시도...`);
+          // ICE 재시작이 실패하면 restartIce 안에서 연결을 새로 생성
+          this.restartIce(remoteUserId, peerConnection);
           break;
       }
     };
@@ -911,12 +1464,6 @@ class WebRTCService {
       }
     };
 
-    // 매핑 저장
-    this.peerConnections.set(remoteUserId, {
-      connection: peerConnection,
-      stream: remoteStream,
-    });
-
     return peerConnection;
   }
 
@@ -926,34 +1473,54 @@ class WebRTCService {
       peerConnection.close();
       this.peerConnections.delete(userId);
       // 연관 데이터도 함께 정리
+      this.screenSenders.delete(userId);
+      this.dataChannels.detach(userId);
+      this.statsCollector.forget(userId);
+      this.appliedSendQualities.delete(userId);
       this.connectionCreationTime.delete(userId);
       this.makingOffer.delete(userId);
       this.ignoreOffer.delete(userId);
 
       // pendingIce 엔트리도 삭제하여 메모리 누수 방지
       delete this.pendingIce[userId];
+
+      this.emitPeerEvent('peer-removed', { userId });
     }
   }
 
   closeAllConnections() {
+    const userIds = Array.from(this.peerConnections.keys());
     this.peerConnections.forEach(({ connection }) => connection.close());
     this.peerConnections.clear();
+    userIds.forEach((userId) => this.emitPeerEvent('peer-removed', { userId }));
     this.nicknameMap.clear();
+    this.screenSenders.clear();
+    this.dataChannels.clear();
+    this.remoteScreenStreamIds.clear();
     this.localStream = null;
+    this.screenStream = null;
+    this.voiceActivityDetector.close();
+    this.stopBandwidthAdaptation?.();
+    this.stopBandwidthAdaptation = null;
+    this.bandwidthManager.clear();
+    this.appliedSendQualities.clear();
+    this.pausedVideoIds.clear();
+    this.statsCollector.clear();
   }
 
   sendSignal(to: string, signal: RTCSessionDescriptionInit | RTCIceCandidateInit) {
     // to: userId, signal: 시그널 데이터
-    if (!this.socket) return;
+    const roomId = socketService.getRoomId();
+    if (!this.socket || !roomId) return;
 
     // ICE candidate인 경우 type 속성이 없으므로 조건부로 표시
     const signalType = 'type' in signal ? signal.type : 'ICE candidate';
     console.log(`시그널 전송 (${to})`, signalType);
 
-    // 서버가 'to'로 userId를 기대하기 때문에 userId로 보냄
+    // 서버는 같은 방에 입장한 참가자에게만 중계하며, 보낸 사람 ID는 소켓으로 확인
     this.socket.emit('signal', {
+      roomId,
       to: to, // 상대방 userId
-      from: socketService.getUserId(), // 내 userId
       signal,
     });
   }
@@ -974,6 +1541,12 @@ class WebRTCService {
         return;
       }
 
+      // 시그널링 서버 연결이 끊긴 동안에는 offer를 전달할 수 없으므로 세션 복구 후로 미룸
+      if (!this.socket?.connected) {
+        console.log(`ICE 재시작 보류: 시그널링 서버 재연결 후 ${userId}와 복구`);
+        return;
+      }
+
       // ICE 재시작을 위한 새로운 offer 생성
       const offer = await peerConnection.createOffer({ iceRestart: true });
       await peerConnection.setLocalDescription(offer);
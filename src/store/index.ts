@@ -4,11 +4,17 @@
  * 애플리케이션의 상태 관리를 위한 Redux 스토어를 구성합니다.
  * 여러 기능별로 분리된 리듀서를 하나의 스토어로 통합합니다.
  */
-import { configureStore } from '@reduxjs/toolkit';
+import { configureStore, ThunkAction, UnknownAction } from '@reduxjs/toolkit';
 import userReducer from './slices/userSlice'; // 사용자 정보 상태 관리
 import roomReducer from './slices/roomSlice'; // 방 정보 상태 관리
 import chatReducer from './slices/chatSlice'; // 채팅 상태 관리
 import mediaReducer from './slices/mediaSlice'; // 미디어 장치 상태 관리
+import deviceReducer from './slices/deviceSlice'; // 미디어 장치 선택 관리
+import statsReducer from './slices/statsSlice'; // 연결 품질 통계 관리
+import reactionReducer from './slices/reactionSlice'; // 손 들기 및 이모지 반응 관리
+import recordingReducer from './slices/recordingSlice'; // 회의 녹화 상태 관리
+import layoutReducer from './slices/layoutSlice'; // 회의 화면 레이아웃 관리
+import shortcutReducer from './slices/shortcutSlice'; // 키보드 단축키 관리
 
 /**
  * Redux 스토어 생성
@@ -21,6 +27,12 @@ const store = configureStore({
     room: roomReducer, // 방 정보 (현재 방 ID, 방 상태 등)
     chat: chatReducer, // 채팅 기능 (메시지 목록, 채팅창 표시 상태 등)
     media: mediaReducer, // 미디어 장치 (카메라, 마이크 상태 등)
+    device: deviceReducer, // 장치 선택 (마이크, 카메라, 스피커)
+    stats: statsReducer, // 연결 품질 통계 (지연, 손실률, 비트레이트 등)
+    reaction: reactionReducer, // 손 들기 대기열 및 화면에 떠 있는 이모지 반응
+    recording: recordingReducer, // 내 녹화 상태 및 녹화 중인 참가자
+    layout: layoutReducer, // 레이아웃 종류, 고정한 참가자, 페이지
+    shortcut: shortcutReducer, // 기능별 키보드 단축키
   },
 });
 
@@ -29,3 +41,4 @@ export default store;
 // TypeScript 타입 정의
 export type RootState = ReturnType<typeof store.getState>; // 스토어 상태 타입
 export type AppDispatch = typeof store.dispatch; // 디스패치 함수 타입
+export type AppThunk<ReturnType = void> = ThunkAction<ReturnType, RootState, unknown, UnknownAction>; // thunk 함수 타입
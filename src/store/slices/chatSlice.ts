@@ -5,6 +5,7 @@
  * 실시간으로 주고받는 메시지를 저장하고 채팅 UI 상태를 제어합니다.
  */
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { FileOffer } from '../../services/dataChannel';
 
 /**
  * 채팅 메시지 인터페이스
@@ -13,29 +14,37 @@ import { createSlice, PayloadAction } from '@reduxjs/toolkit';
  * @property senderNickname - 발신자 닉네임
  * @property content - 메시지 내용
  * @property timestamp - 메시지 전송 시간 (타임스탬프)
+ * @property file - 공유한 파일 정보 (파일 메시지인 경우, 서버 채팅 기록에는 저장되지 않음)
  */
-interface Message {
+export interface Message {
   id: string;
   senderId: string;
   senderNickname: string;
   content: string;
   timestamp: number;
+  file?: FileOffer;
 }
 
 /**
  * 채팅 상태 인터페이스
  * @property messages - 채팅 메시지 목록
  * @property isOpen - 채팅창 표시 여부
+ * @property hasMoreHistory - 서버에 더 이전 채팅 기록이 있는지 여부
+ * @property isLoadingHistory - 이전 채팅 기록을 불러오는 중인지 여부
  */
 interface ChatState {
   messages: Message[];
   isOpen: boolean;
+  hasMoreHistory: boolean;
+  isLoadingHistory: boolean;
 }
 
 // 초기 상태 설정
 const initialState: ChatState = {
   messages: [], // 빈 메시지 목록으로 시작
   isOpen: false, // 채팅창 초기 상태는 닫힘
+  hasMoreHistory: false, // 기록을 받기 전에는 이전 기록 없음으로 간주
+  isLoadingHistory: false, // 이전 기록 요청 중이 아님
 };
 
 /**
@@ -48,17 +57,40 @@ const chatSlice = createSlice({
   reducers: {
     /**
      * 메시지 추가 액션
-     * 새로운 메시지를 메시지 목록에 추가합니다.
+     * 새로운 메시지를 메시지 목록에 추가합니다. (이미 있는 ID는 무시)
      */
     addMessage: (state, action: PayloadAction<Message>) => {
+      if (state.messages.some((message) => message.id === action.payload.id)) return;
       state.messages.push(action.payload);
     },
+    /**
+     * 채팅 기록 수신 액션
+     * 서버에서 받은 기록을 기존 목록과 ID 기준으로 합치고 시간순으로 정렬합니다.
+     * (입장 직후 받은 메시지와 기록이 겹칠 수 있음)
+     */
+    receiveHistory: (state, action: PayloadAction<{ messages: Message[]; hasMore: boolean }>) => {
+      const existingIds = new Set(state.messages.map((message) => message.id));
+      const newMessages = action.payload.messages.filter((message) => !existingIds.has(message.id));
+
+      state.messages = [...newMessages, ...state.messages].sort((a, b) => a.timestamp - b.timestamp);
+      state.hasMoreHistory = action.payload.hasMore;
+      state.isLoadingHistory = false;
+    },
+    /**
+     * 이전 기록 요청 상태 설정 액션
+     * 스크롤할 때 중복 요청을 막기 위해 사용합니다.
+     */
+    setLoadingHistory: (state, action: PayloadAction<boolean>) => {
+      state.isLoadingHistory = action.payload;
+    },
     /**
      * 메시지 목록 초기화 액션
      * 모든 메시지를 삭제하고 빈 목록으로 초기화합니다.
      */
     clearMessages: (state) => {
       state.messages = [];
+      state.hasMoreHistory = false;
+      state.isLoadingHistory = false;
     },
     /**
      * 채팅창 토글 액션
@@ -78,5 +110,5 @@ const chatSlice = createSlice({
 });
 
 // 액션 및 리듀서 내보내기
-export const { addMessage, clearMessages, toggleChat, setChatOpen } = chatSlice.actions;
+export const { addMessage, receiveHistory, setLoadingHistory, clearMessages, toggleChat, setChatOpen } = chatSlice.actions;
 export default chatSlice.reducer;
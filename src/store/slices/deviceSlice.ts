@@ -0,0 +1,115 @@
+/**
+ * 미디어 장치 선택을 위한 Redux Slice
+ *
+ * 사용 가능한 마이크, 카메라, 스피커 목록과 사용자가 선택한 장치를 관리합니다.
+ * 선택한 장치는 localStorage에 저장되어 다음 접속 시에도 유지됩니다.
+ */
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+// 장치 선택 정보를 저장하는 localStorage 키
+const STORAGE_KEY = 'devices';
+
+/**
+ * 미디어 장치 정보 인터페이스
+ * @property deviceId - 장치 고유 ID
+ * @property kind - 장치 종류 (마이크/카메라/스피커)
+ * @property label - 장치 이름
+ */
+export interface MediaDeviceOption {
+  deviceId: string;
+  kind: MediaDeviceKind;
+  label: string;
+}
+
+/**
+ * 선택된 장치 인터페이스 (빈 문자열은 시스템 기본 장치)
+ * @property audioInputId - 선택된 마이크 ID
+ * @property videoInputId - 선택된 카메라 ID
+ * @property audioOutputId - 선택된 스피커 ID
+ */
+export interface DevicePreferences {
+  audioInputId: string;
+  videoInputId: string;
+  audioOutputId: string;
+}
+
+/**
+ * 장치 상태 인터페이스
+ * @property available - 현재 사용 가능한 장치 목록
+ */
+interface DeviceState extends DevicePreferences {
+  available: MediaDeviceOption[];
+}
+
+/**
+ * localStorage에서 장치 선택 정보를 불러오는 함수
+ * 저장된 정보가 없을 경우 시스템 기본 장치를 사용합니다.
+ */
+const loadPreferencesFromStorage = (): DevicePreferences => {
+  const defaults: DevicePreferences = { audioInputId: '', videoInputId: '', audioOutputId: '' };
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    try {
+      return { ...defaults, ...JSON.parse(saved) };
+    } catch {
+      return defaults;
+    }
+  }
+  return defaults;
+};
+
+/**
+ * 장치 선택 정보를 localStorage에 저장하는 함수
+ */
+const savePreferencesToStorage = (state: DeviceState) => {
+  const { audioInputId, videoInputId, audioOutputId } = state;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ audioInputId, videoInputId, audioOutputId }));
+};
+
+// 초기 상태 설정 (localStorage에서 로드)
+const initialState: DeviceState = {
+  ...loadPreferencesFromStorage(),
+  available: [], // 장치 목록은 enumerateDevices 호출 후 채워짐
+};
+
+/**
+ * 미디어 장치 선택 관리 슬라이스
+ */
+const deviceSlice = createSlice({
+  name: 'device',
+  initialState,
+  reducers: {
+    /**
+     * 사용 가능한 장치 목록 설정 액션
+     * enumerateDevices 결과 또는 devicechange 이벤트 이후 목록을 갱신합니다.
+     */
+    setAvailableDevices: (state, action: PayloadAction<MediaDeviceOption[]>) => {
+      state.available = action.payload;
+    },
+    /**
+     * 마이크 선택 액션
+     */
+    selectAudioInput: (state, action: PayloadAction<string>) => {
+      state.audioInputId = action.payload;
+      savePreferencesToStorage(state);
+    },
+    /**
+     * 카메라 선택 액션
+     */
+    selectVideoInput: (state, action: PayloadAction<string>) => {
+      state.videoInputId = action.payload;
+      savePreferencesToStorage(state);
+    },
+    /**
+     * 스피커 선택 액션
+     */
+    selectAudioOutput: (state, action: PayloadAction<string>) => {
+      state.audioOutputId = action.payload;
+      savePreferencesToStorage(state);
+    },
+  },
+});
+
+// 액션 및 리듀서 내보내기
+export const { setAvailableDevices, selectAudioInput, selectVideoInput, selectAudioOutput } = deviceSlice.actions;
+export default deviceSlice.reducer;
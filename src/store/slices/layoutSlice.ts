@@ -0,0 +1,146 @@
+/**
+ * 회의 화면 레이아웃을 위한 Redux Slice
+ *
+ * 레이아웃 종류(갤러리, 스피커, 사이드바, 프레젠테이션), 고정한 참가자, 페이지 정보를 관리합니다.
+ * 레이아웃 종류, 페이지당 타일 수, PIP 자동 열기 설정은 localStorage에 저장되어 다음 접속 시에도 유지됩니다.
+ */
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+// 레이아웃 설정을 저장하는 localStorage 키
+const STORAGE_KEY = 'layout';
+
+/**
+ * 레이아웃 종류
+ * - gallery: 모든 참가자를 같은 크기의 그리드로 표시
+ * - speaker: 고정한 참가자 또는 말하는 참가자를 크게, 나머지는 아래쪽 줄에 표시
+ * - sidebar: 고정한 참가자 또는 말하는 참가자를 크게, 나머지는 오른쪽 열에 표시
+ * - presentation: 화면 공유를 크게, 참가자는 오른쪽 열에 표시 (공유가 없으면 사이드바와 같음)
+ */
+export type LayoutMode = 'gallery' | 'speaker' | 'sidebar' | 'presentation';
+
+// 선택할 수 있는 페이지당 타일 수
+export const TILES_PER_PAGE_OPTIONS = [4, 9, 16, 25];
+
+/**
+ * 저장되는 레이아웃 설정 인터페이스
+ * @property mode - 레이아웃 종류
+ * @property tilesPerPage - 한 페이지에 표시할 최대 타일 수
+ * @property autoPictureInPicture - 탭을 벗어나면 자동으로 PIP를 열지 여부
+ */
+export interface LayoutPreferences {
+  mode: LayoutMode;
+  tilesPerPage: number;
+  autoPictureInPicture: boolean;
+}
+
+/**
+ * 레이아웃 상태 인터페이스
+ * @property pinnedId - 고정한 참가자 ID (고정하지 않았으면 null)
+ * @property page - 현재 페이지 (0부터 시작)
+ */
+interface LayoutState extends LayoutPreferences {
+  pinnedId: string | null;
+  page: number;
+}
+
+/**
+ * localStorage에서 레이아웃 설정을 불러오는 함수
+ * 저장된 정보가 없거나 올바르지 않으면 갤러리 레이아웃을 사용합니다.
+ */
+const loadPreferencesFromStorage = (): LayoutPreferences => {
+  const defaults: LayoutPreferences = { mode: 'gallery', tilesPerPage: 9, autoPictureInPicture: false };
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    try {
+      const { mode, tilesPerPage, autoPictureInPicture } = { ...defaults, ...JSON.parse(saved) };
+      return {
+        mode: ['gallery', 'speaker', 'sidebar', 'presentation'].includes(mode) ? mode : defaults.mode,
+        tilesPerPage: TILES_PER_PAGE_OPTIONS.includes(tilesPerPage) ? tilesPerPage : defaults.tilesPerPage,
+        autoPictureInPicture: autoPictureInPicture === true,
+      };
+    } catch {
+      return defaults;
+    }
+  }
+  return defaults;
+};
+
+/**
+ * 레이아웃 설정을 localStorage에 저장하는 함수
+ */
+const savePreferencesToStorage = (state: LayoutState) => {
+  const { mode, tilesPerPage, autoPictureInPicture } = state;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ mode, tilesPerPage, autoPictureInPicture }));
+};
+
+// 초기 상태 설정 (localStorage에서 로드)
+const initialState: LayoutState = {
+  ...loadPreferencesFromStorage(),
+  pinnedId: null, // 고정한 참가자 없음
+  page: 0, // 첫 페이지
+};
+
+/**
+ * 레이아웃 상태 관리 슬라이스
+ */
+const layoutSlice = createSlice({
+  name: 'layout',
+  initialState,
+  reducers: {
+    /**
+     * 레이아웃 종류 변경 액션
+     * 타일 배치가 바뀌므로 첫 페이지로 이동합니다.
+     */
+    setLayoutMode: (state, action: PayloadAction<LayoutMode>) => {
+      state.mode = action.payload;
+      state.page = 0;
+      savePreferencesToStorage(state);
+    },
+    /**
+     * 페이지당 타일 수 변경 액션
+     */
+    setTilesPerPage: (state, action: PayloadAction<number>) => {
+      state.tilesPerPage = action.payload;
+      state.page = 0;
+      savePreferencesToStorage(state);
+    },
+    /**
+     * PIP 자동 열기 설정 액션
+     */
+    setAutoPictureInPicture: (state, action: PayloadAction<boolean>) => {
+      state.autoPictureInPicture = action.payload;
+      savePreferencesToStorage(state);
+    },
+    /**
+     * 참가자 고정 액션
+     * 이미 고정한 참가자를 다시 고정하면 고정을 해제합니다.
+     */
+    togglePinned: (state, action: PayloadAction<string>) => {
+      state.pinnedId = state.pinnedId === action.payload ? null : action.payload;
+    },
+    /**
+     * 참가자 고정 해제 액션
+     * 고정한 참가자가 나간 경우에 사용하며, 다른 참가자가 고정되어 있으면 그대로 둡니다.
+     */
+    releasePinned: (state, action: PayloadAction<string>) => {
+      if (state.pinnedId === action.payload) state.pinnedId = null;
+    },
+    /**
+     * 페이지 이동 액션
+     */
+    setPage: (state, action: PayloadAction<number>) => {
+      state.page = Math.max(0, action.payload);
+    },
+    /**
+     * 회의별 레이아웃 상태 초기화 액션 (회의를 나갈 때, 저장된 설정은 유지)
+     */
+    resetLayout: (state) => {
+      state.pinnedId = null;
+      state.page = 0;
+    },
+  },
+});
+
+// 액션 및 리듀서 내보내기
+export const { setLayoutMode, setTilesPerPage, setAutoPictureInPicture, togglePinned, releasePinned, setPage, resetLayout } = layoutSlice.actions;
+export default layoutSlice.reducer;
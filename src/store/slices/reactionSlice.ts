@@ -0,0 +1,88 @@
+/**
+ * 손 들기 및 이모지 반응을 위한 Redux Slice
+ *
+ * 손 든 참가자 대기열(손 든 순서)과 잠시 화면에 떠 있는 이모지 반응을 관리합니다.
+ */
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { Reaction } from '../../services/socket';
+
+/**
+ * 손 든 참가자 정보
+ * @property userId - 사용자 ID
+ * @property nickname - 사용자 닉네임
+ * @property raisedAt - 손 든 시각 (ms, 서버 기준)
+ */
+export interface RaisedHand {
+  userId: string;
+  nickname: string;
+  raisedAt: number;
+}
+
+/**
+ * 손 들기/반응 상태 인터페이스
+ * @property raisedHands - 손 든 참가자 목록 (먼저 손 든 순서)
+ * @property reactions - 화면에 표시 중인 이모지 반응
+ */
+interface ReactionState {
+  raisedHands: RaisedHand[];
+  reactions: Reaction[];
+}
+
+// 초기 상태 설정
+const initialState: ReactionState = {
+  raisedHands: [], // 손 든 참가자 없음
+  reactions: [], // 표시 중인 반응 없음
+};
+
+// 손 든 순서대로 정렬
+const sortByRaisedAt = (hands: RaisedHand[]) => hands.sort((a, b) => a.raisedAt - b.raisedAt);
+
+/**
+ * 손 들기/반응 관리 슬라이스
+ */
+const reactionSlice = createSlice({
+  name: 'reaction',
+  initialState,
+  reducers: {
+    /**
+     * 손 든 참가자 목록 설정 액션
+     * 입장 시 받은 참가자 목록의 손 들기 상태로 교체합니다.
+     */
+    setRaisedHands: (state, action: PayloadAction<RaisedHand[]>) => {
+      state.raisedHands = sortByRaisedAt([...action.payload]);
+    },
+    /**
+     * 손 들기 상태 변경 액션
+     * raisedAt이 null이면 대기열에서 제거합니다.
+     */
+    updateHand: (state, action: PayloadAction<{ userId: string; nickname: string; raisedAt: number | null }>) => {
+      const { userId, nickname, raisedAt } = action.payload;
+      const others = state.raisedHands.filter((hand) => hand.userId !== userId);
+      state.raisedHands = raisedAt === null ? others : sortByRaisedAt([...others, { userId, nickname, raisedAt }]);
+    },
+    /**
+     * 이모지 반응 추가 액션
+     */
+    addReaction: (state, action: PayloadAction<Reaction>) => {
+      state.reactions.push(action.payload);
+    },
+    /**
+     * 이모지 반응 제거 액션
+     * 표시 시간이 지난 반응을 제거합니다.
+     */
+    removeReaction: (state, action: PayloadAction<string>) => {
+      state.reactions = state.reactions.filter((reaction) => reaction.id !== action.payload);
+    },
+    /**
+     * 손 들기/반응 상태 초기화 액션
+     */
+    clearReactions: (state) => {
+      state.raisedHands = [];
+      state.reactions = [];
+    },
+  },
+});
+
+// 액션 및 리듀서 내보내기
+export const { setRaisedHands, updateHand, addReaction, removeReaction, clearReactions } = reactionSlice.actions;
+export default reactionSlice.reducer;
@@ -0,0 +1,101 @@
+/**
+ * 회의 녹화를 위한 Redux Slice
+ *
+ * 내 녹화 진행 상태, 저장 대기 중인 녹화 파일, 녹화 중인 다른 참가자 목록을 관리합니다.
+ * 녹화에 쓰는 캔버스와 MediaRecorder는 녹화 서비스가 보관합니다.
+ */
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+/**
+ * 녹화 중인 참가자
+ * @property userId - 사용자 ID
+ * @property nickname - 사용자 닉네임
+ */
+export interface Recorder {
+  userId: string;
+  nickname: string;
+}
+
+/**
+ * 저장 대기 중인 녹화 파일
+ * @property url - 녹화 파일 URL (object URL)
+ * @property fileName - 저장할 파일 이름
+ */
+export interface RecordingDownload {
+  url: string;
+  fileName: string;
+}
+
+/**
+ * 녹화 상태 인터페이스
+ * @property isRecording - 내가 녹화 중인지 여부
+ * @property startedAt - 녹화 시작 시각 (ms, 녹화 중이 아니면 null)
+ * @property download - 녹화를 마친 뒤 저장 대기 중인 파일
+ * @property recorders - 녹화 중인 다른 참가자 목록
+ */
+interface RecordingState {
+  isRecording: boolean;
+  startedAt: number | null;
+  download: RecordingDownload | null;
+  recorders: Recorder[];
+}
+
+// 초기 상태 설정
+const initialState: RecordingState = {
+  isRecording: false, // 녹화 중이 아님
+  startedAt: null, // 녹화 시작 시각 없음
+  download: null, // 저장 대기 중인 파일 없음
+  recorders: [], // 녹화 중인 참가자 없음
+};
+
+/**
+ * 녹화 상태 관리 슬라이스
+ */
+const recordingSlice = createSlice({
+  name: 'recording',
+  initialState,
+  reducers: {
+    /**
+     * 녹화 시작 액션
+     * 경과 시간 표시를 위해 시작 시각을 저장합니다.
+     */
+    setRecordingStarted: (state, action: PayloadAction<number>) => {
+      state.isRecording = true;
+      state.startedAt = action.payload;
+    },
+    /**
+     * 녹화 종료 액션
+     */
+    setRecordingStopped: (state) => {
+      state.isRecording = false;
+      state.startedAt = null;
+    },
+    /**
+     * 녹화 파일 저장 대기 설정 액션
+     * 저장하거나 닫으면 null로 설정합니다.
+     */
+    setRecordingDownload: (state, action: PayloadAction<RecordingDownload | null>) => {
+      state.download = action.payload;
+    },
+    /**
+     * 녹화 중인 참가자 목록 설정 액션
+     * 입장 시 받은 참가자 목록의 녹화 상태로 교체합니다.
+     */
+    setRecorders: (state, action: PayloadAction<Recorder[]>) => {
+      state.recorders = action.payload;
+    },
+    /**
+     * 참가자 녹화 상태 변경 액션
+     * recording이 false이면 목록에서 제거합니다.
+     */
+    updateRecorder: (state, action: PayloadAction<Recorder & { recording: boolean }>) => {
+      const { userId, nickname, recording } = action.payload;
+      const others = state.recorders.filter((recorder) => recorder.userId !== userId);
+      state.recorders = recording ? [...others, { userId, nickname }] : others;
+    },
+  },
+});
+
+// 액션 및 리듀서 내보내기
+export const { setRecordingStarted, setRecordingStopped, setRecordingDownload, setRecorders, updateRecorder } = recordingSlice.actions;
+export default recordingSlice.reducer;
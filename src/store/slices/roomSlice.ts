@@ -5,6 +5,7 @@
  * 실시간으로 업데이트되는 참가자 정보를 저장하고 관리합니다.
  */
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { PendingParticipant, RoomSettings } from '../../services/socket';
 
 /**
  * 참가자 정보 인터페이스
@@ -16,20 +17,62 @@ interface Participant {
   nickname: string;
 }
 
+/**
+ * 참가자 미디어 상태 인터페이스
+ * @property audioEnabled - 마이크 켜짐 여부
+ * @property videoEnabled - 카메라 켜짐 여부
+ * @property isScreenSharing - 화면 공유 중인지 여부
+ */
+export interface ParticipantMedia {
+  audioEnabled: boolean;
+  videoEnabled: boolean;
+  isScreenSharing: boolean;
+}
+
+// 상태를 아직 받지 못한 참가자의 기본 미디어 상태 (서버와 같이 켜진 것으로 간주)
+const DEFAULT_PARTICIPANT_MEDIA: ParticipantMedia = { audioEnabled: true, videoEnabled: true, isScreenSharing: false };
+
 /**
  * 회의실 상태 인터페이스
  * @property roomId - 현재 접속 중인 회의실 ID
  * @property participants - 현재 회의실 참가자 목록
+ * @property isCreating - 방을 새로 만들어 입장하는지 여부 (방을 만든 사용자가 호스트가 됨)
+ * @property hostId - 현재 호스트의 사용자 ID
+ * @property isWaitingForAdmission - 대기실에서 호스트 승인을 기다리는 중인지 여부
+ * @property isWaitingRoomEnabled - 방의 대기실 사용 여부
+ * @property isLocked - 회의 잠금 여부
+ * @property hasPasscode - 회의 비밀번호 사용 여부
+ * @property spotlightId - 호스트가 모두에게 크게 표시하도록 지정한 참가자 ID
+ * @property pendingParticipants - 승인을 기다리는 사용자 목록 (호스트에게만 표시)
+ * @property participantMedia - 다른 참가자별 마이크/카메라/화면 공유 상태
  */
 interface RoomState {
   roomId: string;
   participants: Participant[];
+  isCreating: boolean;
+  hostId: string | null;
+  isWaitingForAdmission: boolean;
+  isWaitingRoomEnabled: boolean;
+  isLocked: boolean;
+  hasPasscode: boolean;
+  spotlightId: string | null;
+  pendingParticipants: PendingParticipant[];
+  participantMedia: Record<string, ParticipantMedia>;
 }
 
 // 초기 상태 설정
 const initialState: RoomState = {
   roomId: '', // 초기 룸 ID는 빈 문자열
   participants: [], // 초기 참가자 목록은 빈 배열
+  isCreating: false, // 기본은 기존 방 참가
+  hostId: null, // 입장 전에는 호스트 정보 없음
+  isWaitingForAdmission: false, // 대기 중이 아님
+  isWaitingRoomEnabled: false, // 대기실 기본값은 꺼짐
+  isLocked: false, // 잠기지 않음
+  hasPasscode: false, // 비밀번호 없음
+  spotlightId: null, // 스포트라이트 없음
+  pendingParticipants: [], // 승인 대기 중인 사용자 없음
+  participantMedia: {}, // 입장 시 서버에서 받음
 };
 
 /**
@@ -47,6 +90,66 @@ export const roomSlice = createSlice({
     setRoomId: (state, action: PayloadAction<string>) => {
       state.roomId = action.payload;
     },
+    /**
+     * 방 생성 여부 설정 액션
+     * 홈 화면에서 새 회의를 시작한 경우 true로 설정합니다.
+     */
+    setCreatingRoom: (state, action: PayloadAction<boolean>) => {
+      state.isCreating = action.payload;
+    },
+    /**
+     * 호스트 설정 액션
+     * 서버에서 받은 현재 호스트 ID를 저장합니다.
+     */
+    setHostId: (state, action: PayloadAction<string | null>) => {
+      state.hostId = action.payload;
+    },
+    /**
+     * 승인 대기 상태 설정 액션
+     * 대기실에 들어가면 true, 입장이 승인되면 false로 설정합니다.
+     */
+    setWaitingForAdmission: (state, action: PayloadAction<boolean>) => {
+      state.isWaitingForAdmission = action.payload;
+    },
+    /**
+     * 방 설정 반영 액션
+     * 서버에서 받은 대기실, 잠금, 비밀번호 사용 여부와 스포트라이트 대상을 저장합니다.
+     */
+    setRoomSettings: (state, action: PayloadAction<RoomSettings>) => {
+      state.isWaitingRoomEnabled = action.payload.waitingRoom;
+      state.isLocked = action.payload.locked;
+      state.hasPasscode = action.payload.hasPasscode;
+      state.spotlightId = action.payload.spotlightId;
+    },
+    /**
+     * 승인 대기 목록 설정 액션
+     * 서버가 보내는 최신 목록으로 교체합니다.
+     */
+    setPendingParticipants: (state, action: PayloadAction<PendingParticipant[]>) => {
+      state.pendingParticipants = action.payload;
+    },
+    /**
+     * 참가자 미디어 상태 목록 설정 액션
+     * 입장 시 서버에서 받은 기존 참가자들의 상태로 교체합니다.
+     */
+    setParticipantMedia: (state, action: PayloadAction<Record<string, ParticipantMedia>>) => {
+      state.participantMedia = action.payload;
+    },
+    /**
+     * 참가자 미디어 상태 변경 액션
+     * 바뀐 항목만 반영하며, 처음 받는 참가자는 기본 상태에서 시작합니다.
+     */
+    updateParticipantMedia: (state, action: PayloadAction<{ userId: string } & Partial<ParticipantMedia>>) => {
+      const { userId, ...changes } = action.payload;
+      state.participantMedia[userId] = { ...(state.participantMedia[userId] ?? DEFAULT_PARTICIPANT_MEDIA), ...changes };
+    },
+    /**
+     * 참가자 미디어 상태 제거 액션
+     * 퇴장한 참가자의 상태를 삭제합니다.
+     */
+    removeParticipantMedia: (state, action: PayloadAction<string>) => {
+      delete state.participantMedia[action.payload];
+    },
     /**
      * 참가자 추가 액션
      * 새로운 참가자를 회의실 참가자 목록에 추가합니다.
@@ -68,10 +171,32 @@ export const roomSlice = createSlice({
     clearRoom: (state) => {
       state.roomId = '';
       state.participants = [];
+      state.isCreating = false;
+      state.hostId = null;
+      state.isWaitingForAdmission = false;
+      state.isWaitingRoomEnabled = false;
+      state.isLocked = false;
+      state.hasPasscode = false;
+      state.spotlightId = null;
+      state.pendingParticipants = [];
+      state.participantMedia = {};
     },
   },
 });
 
 // 액션 및 리듀서 내보내기
-export const { setRoomId, addParticipant, removeParticipant, clearRoom } = roomSlice.actions;
+export const {
+  setRoomId,
+  setCreatingRoom,
+  setHostId,
+  setWaitingForAdmission,
+  setRoomSettings,
+  setPendingParticipants,
+  setParticipantMedia,
+  updateParticipantMedia,
+  removeParticipantMedia,
+  addParticipant,
+  removeParticipant,
+  clearRoom,
+} = roomSlice.actions;
 export default roomSlice.reducer;
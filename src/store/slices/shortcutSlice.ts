@@ -0,0 +1,101 @@
+/**
+ * 키보드 단축키를 위한 Redux Slice
+ *
+ * 기능별 단축키 설정을 관리하며, 사용자가 바꾼 단축키는 localStorage에 저장되어 다음 접속 시에도 유지됩니다.
+ * 단축키는 자판 배열(한글 입력 등)과 관계없이 같은 키로 동작하도록 KeyboardEvent.code 기준으로 저장합니다.
+ */
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+// 단축키 설정을 저장하는 localStorage 키
+const STORAGE_KEY = 'shortcuts';
+
+/**
+ * 단축키로 실행할 수 있는 기능
+ * - pushToTalk: 마이크가 꺼져 있을 때 누르고 있는 동안만 마이크 켜기
+ */
+export type ShortcutAction = 'toggleMicrophone' | 'toggleCamera' | 'toggleChat' | 'toggleScreenShare' | 'raiseHand' | 'leaveRoom' | 'pushToTalk' | 'showHelp';
+
+/**
+ * 기능별 단축키 (예: 'Alt+KeyM', 'Space', 'Shift+Slash')
+ */
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+// 기본 단축키
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  toggleMicrophone: 'Alt+KeyA',
+  toggleCamera: 'Alt+KeyV',
+  toggleChat: 'Alt+KeyH',
+  toggleScreenShare: 'Alt+KeyS',
+  raiseHand: 'Alt+KeyY',
+  leaveRoom: 'Alt+KeyQ',
+  pushToTalk: 'Space',
+  showHelp: 'Shift+Slash',
+};
+
+/**
+ * 단축키 상태 인터페이스
+ * @property bindings - 기능별 단축키
+ */
+interface ShortcutState {
+  bindings: ShortcutBindings;
+}
+
+/**
+ * localStorage에서 단축키 설정을 불러오는 함수
+ * 저장된 정보가 없거나 일부 기능이 빠져 있으면 기본 단축키를 사용합니다.
+ */
+const loadBindingsFromStorage = (): ShortcutBindings => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    try {
+      return { ...DEFAULT_SHORTCUTS, ...JSON.parse(saved) };
+    } catch {
+      return { ...DEFAULT_SHORTCUTS };
+    }
+  }
+  return { ...DEFAULT_SHORTCUTS };
+};
+
+/**
+ * 단축키 설정을 localStorage에 저장하는 함수
+ */
+const saveBindingsToStorage = (bindings: ShortcutBindings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+};
+
+// 초기 상태 설정 (localStorage에서 로드)
+const initialState: ShortcutState = {
+  bindings: loadBindingsFromStorage(),
+};
+
+/**
+ * 단축키 관리 슬라이스
+ */
+const shortcutSlice = createSlice({
+  name: 'shortcut',
+  initialState,
+  reducers: {
+    /**
+     * 단축키 변경 액션
+     * 다른 기능이 이미 같은 키를 쓰고 있으면 두 기능의 단축키를 서로 바꿉니다.
+     */
+    setShortcut: (state, action: PayloadAction<{ action: ShortcutAction; binding: string }>) => {
+      const { action: target, binding } = action.payload;
+      const conflict = (Object.keys(state.bindings) as ShortcutAction[]).find((key) => key !== target && state.bindings[key] === binding);
+      if (conflict) state.bindings[conflict] = state.bindings[target];
+      state.bindings[target] = binding;
+      saveBindingsToStorage(state.bindings);
+    },
+    /**
+     * 단축키 초기화 액션 (모든 기능을 기본 단축키로 되돌림)
+     */
+    resetShortcuts: (state) => {
+      state.bindings = { ...DEFAULT_SHORTCUTS };
+      localStorage.removeItem(STORAGE_KEY);
+    },
+  },
+});
+
+// 액션 및 리듀서 내보내기
+export const { setShortcut, resetShortcuts } = shortcutSlice.actions;
+export default shortcutSlice.reducer;
@@ -0,0 +1,47 @@
+/**
+ * 연결 품질 통계를 위한 Redux Slice
+ *
+ * 원격 참가자별 왕복 지연, 패킷 손실, 비트레이트 등 주기적으로 수집된 연결 통계를 관리합니다.
+ */
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { PeerStats } from '../../services/stats';
+
+/**
+ * 연결 통계 상태 인터페이스
+ * @property peers - 사용자 ID별 최신 연결 통계
+ */
+interface StatsState {
+  peers: Record<string, PeerStats>;
+}
+
+// 초기 상태 설정
+const initialState: StatsState = {
+  peers: {}, // 통계 수집 전에는 비어 있음
+};
+
+/**
+ * 연결 통계 관리 슬라이스
+ */
+const statsSlice = createSlice({
+  name: 'stats',
+  initialState,
+  reducers: {
+    /**
+     * 연결 통계 갱신 액션
+     * 최신 샘플로 전체 목록을 교체합니다. (퇴장한 참가자의 통계는 제거됨)
+     */
+    setPeerStats: (state, action: PayloadAction<PeerStats[]>) => {
+      state.peers = Object.fromEntries(action.payload.map((stats) => [stats.userId, stats]));
+    },
+    /**
+     * 연결 통계 초기화 액션
+     */
+    clearPeerStats: (state) => {
+      state.peers = {};
+    },
+  },
+});
+
+// 액션 및 리듀서 내보내기
+export const { setPeerStats, clearPeerStats } = statsSlice.actions;
+export default statsSlice.reducer;
@@ -0,0 +1,132 @@
+/**
+ * 로컬 미디어 제어 thunk
+ *
+ * 미디어 컨트롤러로 실제 트랙과 스트림을 제어하고 mediaSlice의 상태 값을 함께 갱신합니다.
+ * Room과 ControlBar는 이 thunk만 사용하므로 트랙 상태와 화면 표시가 어긋나지 않습니다.
+ */
+import { toast } from 'react-hot-toast';
+import type { AppThunk } from '..';
+import { mediaController } from '../../services/mediaController';
+import { socketService } from '../../services/socket';
+import { setAudioEnabled, setScreenSharing, setVideoEnabled } from '../slices/mediaSlice';
+
+/**
+ * 카메라/마이크 시작
+ * 선택한 장치로 스트림을 얻은 뒤 입장 전 화면에서 정한 켜짐/꺼짐 상태를 적용합니다.
+ * 얻지 못한 트랙 종류(예: 카메라 없음)는 꺼진 상태로 표시합니다.
+ */
+export const startLocalMedia = (): AppThunk<Promise<void>> => async (dispatch, getState) => {
+  const { audioInputId, videoInputId } = getState().device;
+  const stream = await mediaController.start(audioInputId, videoInputId);
+
+  if (stream.getVideoTracks().length === 0) dispatch(setVideoEnabled(false));
+  if (stream.getAudioTracks().length === 0) dispatch(setAudioEnabled(false));
+
+  const { isAudioEnabled, isVideoEnabled } = getState().media;
+  mediaController.setTrackEnabled('audio', isAudioEnabled);
+  mediaController.setTrackEnabled('video', isVideoEnabled);
+};
+
+/**
+ * 마이크 켜기/끄기
+ * @param enabled - 마이크 활성화 여부
+ */
+export const setMicrophoneEnabled =
+  (enabled: boolean): AppThunk =>
+  (dispatch) => {
+    mediaController.setTrackEnabled('audio', enabled);
+    dispatch(setAudioEnabled(enabled));
+  };
+
+/**
+ * 카메라 켜기/끄기
+ * @param enabled - 카메라 활성화 여부
+ */
+export const setCameraEnabled =
+  (enabled: boolean): AppThunk =>
+  (dispatch) => {
+    mediaController.setTrackEnabled('video', enabled);
+    dispatch(setVideoEnabled(enabled));
+  };
+
+/**
+ * 내 마이크/카메라 상태를 다른 참가자에게 알림 (입장 완료 시 현재 상태 전달)
+ * @param roomId - 현재 방 ID
+ */
+export const announceMediaState =
+  (roomId: string): AppThunk =>
+  (_dispatch, getState) => {
+    const { isAudioEnabled, isVideoEnabled } = getState().media;
+    socketService.sendMediaState(roomId, isAudioEnabled, isVideoEnabled);
+  };
+
+/**
+ * 입력 장치(마이크/카메라) 전환 (기존 켜짐/꺼짐 상태 유지)
+ * @param kind - 트랙 종류 (audio/video)
+ * @param deviceId - 전환할 장치 ID (빈 문자열이면 기본 장치)
+ */
+export const switchInputDevice =
+  (kind: 'audio' | 'video', deviceId: string): AppThunk<Promise<void>> =>
+  async (_dispatch, getState) => {
+    const { isAudioEnabled, isVideoEnabled } = getState().media;
+    await mediaController.switchInput(kind, deviceId, kind === 'audio' ? isAudioEnabled : isVideoEnabled);
+  };
+
+/**
+ * 화면 공유 시작
+ * 화면 공유는 카메라 트랙을 대체하지 않고 별도의 트랙으로 전송됩니다.
+ * @param roomId - 현재 방 ID
+ * @param userId - 내 사용자 ID
+ */
+export const startScreenShare =
+  (roomId: string, userId: string): AppThunk<Promise<void>> =>
+  async (dispatch) => {
+    console.log('화면 공유 시작');
+
+    // 사용자가 브라우저 UI에서 화면 공유를 중단하면 일반 중지와 같이 처리
+    const displayStream = await mediaController.captureScreen(() => dispatch(stopScreenShare(roomId, userId)));
+    if (!displayStream) return;
+
+    // 원격 참가자가 트랙을 구분할 수 있도록 스트림 ID를 먼저 알린 뒤 트랙 전송
+    socketService.shareScreen(roomId, userId, displayStream.id);
+    await mediaController.setScreenStream(displayStream);
+
+    dispatch(setScreenSharing(true));
+    console.log('WebRTC 서비스에 화면 공유 스트림 설정 완료');
+    toast.success('화면 공유가 시작되었습니다.');
+  };
+
+/**
+ * 화면 공유 중지
+ * 화면 공유 트랙만 중지하며 카메라/마이크 스트림은 그대로 유지됩니다.
+ * @param roomId - 현재 방 ID
+ * @param userId - 내 사용자 ID
+ */
+export const stopScreenShare =
+  (roomId: string, userId: string): AppThunk<Promise<void>> =>
+  async (dispatch) => {
+    // onended 콜백에서도 호출되므로 컨트롤러에 보관된 현재 스트림 기준으로 처리
+    if (!mediaController.getMedia().screenStream) return;
+
+    try {
+      console.log('화면 공유 중단');
+      await mediaController.setScreenStream(null);
+      socketService.shareScreen(roomId, userId, null);
+
+      toast.success('화면 공유가 중단되었습니다.');
+    } catch (error) {
+      console.error('화면 공유 종료 과정 오류:', error);
+      toast.error('화면 공유를 종료하는 중 오류가 발생했습니다.');
+    } finally {
+      dispatch(setScreenSharing(false));
+    }
+  };
+
+/**
+ * 모든 로컬 미디어 해제 (회의 종료 시)
+ * 카메라/마이크 켜짐/꺼짐 상태는 다음 입장 전 화면에서 그대로 쓰도록 유지합니다.
+ */
+export const releaseLocalMedia = (): AppThunk => (dispatch) => {
+  mediaController.stopAll();
+  dispatch(setScreenSharing(false));
+};
@@ -0,0 +1,116 @@
+/**
+ * 회의 녹화 thunk
+ *
+ * 녹화 서비스로 실제 녹화를 제어하고 recordingSlice의 상태 값을 함께 갱신하며,
+ * 녹화 시작/종료를 다른 참가자에게 알립니다.
+ */
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import type { AppThunk } from '..';
+import { meetingRecorder, RecordingTile } from '../../services/recorder';
+import { mediaController } from '../../services/mediaController';
+import { socketService } from '../../services/socket';
+import { webRTCService } from '../../services/webrtc';
+import { setRecordingDownload, setRecordingStarted, setRecordingStopped } from '../slices/recordingSlice';
+
+/**
+ * 녹화 시작
+ * 내 타일, 원격 참가자 타일, 화면 공유 타일을 회의 화면과 같은 순서로 녹화합니다.
+ * @param roomId - 현재 방 ID
+ */
+export const startRecording =
+  (roomId: string): AppThunk =>
+  (dispatch, getState) => {
+    if (getState().recording.isRecording) return;
+
+    // 프레임마다 호출되므로 스토어와 서비스의 현재 값으로 타일 목록 구성
+    const getTiles = (): RecordingTile[] => {
+      const { user, media, room } = getState();
+      const { localStream, screenStream } = mediaController.getMedia();
+
+      const tiles: RecordingTile[] = [{ id: user.userId, userId: user.userId, label: `${user.nickname} (나)`, stream: localStream, videoEnabled: media.isVideoEnabled }];
+      if (screenStream) {
+        tiles.push({ id: `${user.userId}:screen`, userId: user.userId, label: `${user.nickname} (화면 공유)`, stream: screenStream, videoEnabled: true });
+      }
+
+      webRTCService.getRemotePeers().forEach((peer) => {
+        tiles.push({ id: peer.userId, userId: peer.userId, label: peer.nickname, stream: peer.stream, videoEnabled: room.participantMedia[peer.userId]?.videoEnabled ?? true });
+        if (peer.screenStream) {
+          tiles.push({ id: `${peer.userId}:screen`, userId: peer.userId, label: `${peer.nickname} (화면 공유)`, stream: peer.screenStream, videoEnabled: true });
+        }
+      });
+      return tiles;
+    };
+
+    try {
+      meetingRecorder.start(getTiles);
+    } catch (error) {
+      console.error('녹화 시작 실패:', error);
+      toast.error(error instanceof Error ? error.message : '녹화를 시작할 수 없습니다.');
+      return;
+    }
+
+    dispatch(setRecordingStarted(Date.now()));
+    socketService.sendRecordingState(roomId, true);
+    toast.success('녹화를 시작했습니다.');
+  };
+
+/**
+ * 녹화 종료
+ * 녹화 파일은 저장 안내 창으로 제공하며, 회의를 나가면서 종료한 경우에는 바로 저장합니다.
+ * @param roomId - 현재 방 ID
+ * @param saveImmediately - 저장 안내 없이 바로 파일로 저장할지 여부 (회의 종료 시)
+ */
+export const stopRecording =
+  (roomId: string, saveImmediately = false): AppThunk<Promise<void>> =>
+  async (dispatch, getState) => {
+    const { recording } = getState();
+    if (!recording.isRecording) return;
+
+    const startedAt = recording.startedAt ?? Date.now();
+    dispatch(setRecordingStopped());
+    if (!saveImmediately) socketService.sendRecordingState(roomId, false);
+
+    const blob = await meetingRecorder.stop();
+    if (!blob) {
+      toast.error('녹화된 내용이 없습니다.');
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    const fileName = `EchoMeet-${format(startedAt, 'yyyyMMdd-HHmmss')}.webm`;
+
+    if (saveImmediately) {
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      // 다운로드가 시작될 시간을 두고 해제
+      setTimeout(() => URL.revokeObjectURL(url), 10000);
+      return;
+    }
+
+    dispatch(dismissRecordingDownload());
+    dispatch(setRecordingDownload({ url, fileName }));
+  };
+
+/**
+ * 녹화 상태를 다른 참가자에게 다시 알림 (새 세션으로 다시 입장한 경우 서버의 녹화 상태가 초기화되므로)
+ * @param roomId - 현재 방 ID
+ */
+export const announceRecordingState =
+  (roomId: string): AppThunk =>
+  (_dispatch, getState) => {
+    if (getState().recording.isRecording) socketService.sendRecordingState(roomId, true);
+  };
+
+/**
+ * 녹화 파일 저장 안내 닫기 (파일 URL 해제)
+ */
+export const dismissRecordingDownload = (): AppThunk => (dispatch, getState) => {
+  const { download } = getState().recording;
+  if (!download) return;
+
+  URL.revokeObjectURL(download.url);
+  dispatch(setRecordingDownload(null));
+};
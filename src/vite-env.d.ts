@@ -1 +1,22 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 시그널링 서버 URL (개발 모드 전용, /config.json에 값이 없을 때 사용, 미지정 시 현재 페이지 오리진)
+  readonly VITE_SIGNALING_URL?: string;
+  // 채팅 파일 공유 최대 크기 (MB, 개발 모드 전용, /config.json에 값이 없을 때 사용, 미지정 시 100)
+  readonly VITE_MAX_FILE_SIZE_MB?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+// Document Picture-in-Picture API (Chromium 116+, TypeScript DOM 타입에 아직 없음)
+interface DocumentPictureInPicture extends EventTarget {
+  readonly window: Window | null;
+  requestWindow(options?: { width?: number; height?: number }): Promise<Window>;
+}
+
+interface Window {
+  readonly documentPictureInPicture?: DocumentPictureInPicture;
+}